@@ -0,0 +1,48 @@
+// Local endpoint for ALERT_WEBHOOK_URL that keeps every alert posted to it
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AlertEvent } from '../alert_sinks';
+
+export interface AlertReceiver {
+    url: string;
+    alerts: AlertEvent[];
+    // Returns the alerts received since the last call
+    take(): AlertEvent[];
+    // HTTP status to answer with; anything but 2xx makes delivery fail and the alert is not kept
+    respondWith(status: number): void;
+    close(): Promise<void>;
+}
+
+export async function startAlertReceiver(): Promise<AlertReceiver> {
+    const alerts: AlertEvent[] = [];
+    let taken = 0;
+    let status = 200;
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            if (status >= 200 && status < 300) {
+                alerts.push(JSON.parse(body));
+            }
+            res.writeHead(status).end(status < 300 ? 'ok' : 'unavailable');
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/alerts`,
+        alerts,
+        take: () => {
+            const received = alerts.slice(taken);
+            taken = alerts.length;
+            return received;
+        },
+        respondWith: nextStatus => {
+            status = nextStatus;
+        },
+        close: () => new Promise<void>((resolve, reject) => {
+            server.close(error => (error ? reject(error) : resolve()));
+            server.closeAllConnections();
+        }),
+    };
+}
@@ -0,0 +1,339 @@
+// In-process Ethereum JSON-RPC node for end-to-end tests: a Sequencer, scriptable jobs and blocks mined on demand
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import sequencerAbi from '../abis/sequencerAbi.json';
+import jobAbi from '../abis/IJobAbi.json';
+
+// ethers-multicall-provider and callWorkable batch eth_calls through Multicall3's tryAggregate; inner calls come from its address
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const multicallInterface = new ethers.Interface([
+    'function tryAggregate(bool requireSuccess, (address target, bytes callData)[] calls) returns ((bool success, bytes returnData)[] returnData)',
+]);
+const sequencerInterface = new ethers.Interface(sequencerAbi);
+const jobInterface = new ethers.Interface(jobAbi);
+
+export const FAKE_SEQUENCER_ADDRESS = '0x238b4E35dAed6100C6162fAE4510261f88996EC9';
+export const FAKE_KEEPER_ADDRESS = '0x000000000000000000000000000000000000bEEF';
+
+// What a job's workable() and work() do, from the block the state was set at onwards
+export interface FakeJobState {
+    canWork: boolean;
+    args: string; // Hex bytes returned by workable()
+    workableRevert: string | null; // workable() reverts with Error(reason)
+    workRevert: string | null; // work() reverts with Error(reason); otherwise it succeeds exactly when the job is workable
+    keepers: string[] | null; // work() reverts with Error('Job/not-keeper') unless called from one of these; null allows anyone
+}
+
+export interface FakeJob {
+    address: string;
+    // Changes the job's behaviour from the next mined block on
+    set(state: Partial<FakeJobState>): void;
+    // Emits a Work event in the next mined block
+    work(network?: string, keeper?: string): void;
+}
+
+export interface FakeChainOptions {
+    chainId?: number;
+    headBlock?: number; // Blocks up to here exist from the start, without events
+    networks?: Array<{ name: string; windowSize: number }>; // Keeper networks, with windows laid out in this order
+}
+
+export interface FakeChain {
+    url: string;
+    head(): bigint;
+    addJob(address: string, state?: Partial<FakeJobState>): FakeJob;
+    mine(blocks?: number): bigint;
+    // Number of Multicall3 tryAggregate calls served so far
+    multicallBatches(): number;
+    close(): Promise<void>;
+}
+
+interface FakeLog {
+    address: string;
+    topics: string[];
+    data: string;
+    blockNumber: bigint;
+    logIndex: number;
+}
+
+interface FakeJobRecord {
+    address: string;
+    addedAtBlock: bigint;
+    history: Array<{ fromBlock: bigint; state: FakeJobState }>;
+}
+
+type CallResult = { success: boolean; returnData: string };
+
+interface JsonRpcRequest {
+    id: number | string | null;
+    method: string;
+    params?: any[];
+}
+
+class RpcError extends Error {
+    constructor(readonly code: number, message: string, readonly data?: string) {
+        super(message);
+    }
+}
+
+const DEFAULT_JOB_STATE: FakeJobState = { canWork: false, args: '0x', workableRevert: null, workRevert: null, keepers: null };
+
+function errorString(reason: string): string {
+    return ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason])]);
+}
+
+function blockHash(blockNumber: bigint): string {
+    return ethers.keccak256(ethers.toBeHex(blockNumber, 32));
+}
+
+function toQuantity(value: bigint | number): string {
+    return ethers.toQuantity(value);
+}
+
+export async function startFakeChain(options: FakeChainOptions = {}): Promise<FakeChain> {
+    const chainId = options.chainId ?? 31337;
+    const networks: Array<{ id: string; windowStart: bigint; windowSize: bigint }> = [];
+    for (const network of options.networks ?? [{ name: 'TEST', windowSize: 100 }]) {
+        const windowStart = networks.reduce((total, known) => total + known.windowSize, BigInt(0));
+        networks.push({ id: ethers.encodeBytes32String(network.name), windowStart, windowSize: BigInt(network.windowSize) });
+    }
+    const totalWindowSize = networks.reduce((total, network) => total + network.windowSize, BigInt(0));
+
+    let head = BigInt(options.headBlock ?? 1000);
+    const jobs: FakeJobRecord[] = [];
+    const logs: FakeLog[] = [];
+    let pendingLogs: Array<Omit<FakeLog, 'blockNumber' | 'logIndex'>> = [];
+    let multicallBatches = 0;
+
+    const getMaster = (blockNumber: bigint): string => {
+        const pos = blockNumber % totalWindowSize;
+        return networks.find(network => network.windowStart <= pos && pos < network.windowStart + network.windowSize)?.id ?? ethers.ZeroHash;
+    };
+
+    const jobsAt = (blockNumber: bigint): FakeJobRecord[] => jobs.filter(job => job.addedAtBlock <= blockNumber);
+
+    const jobStateAt = (job: FakeJobRecord, blockNumber: bigint): FakeJobState => {
+        const entry = [...job.history].reverse().find(candidate => candidate.fromBlock <= blockNumber);
+        return entry ? entry.state : job.history[0].state;
+    };
+
+    const callSequencer = (data: string, blockNumber: bigint): CallResult => {
+        const parsed = sequencerInterface.parseTransaction({ data });
+        if (!parsed) {
+            return { success: false, returnData: '0x' };
+        }
+        const encode = (values: unknown[]) => ({ success: true, returnData: sequencerInterface.encodeFunctionResult(parsed.fragment, values) });
+        const activeJobs = jobsAt(blockNumber);
+        switch (parsed.name) {
+            case 'numJobs':
+                return encode([activeJobs.length]);
+            case 'jobAt':
+                return activeJobs[Number(parsed.args[0])] ? encode([activeJobs[Number(parsed.args[0])].address]) : { success: false, returnData: '0x' };
+            case 'getMaster':
+                return encode([getMaster(blockNumber)]);
+            case 'numNetworks':
+                return encode([networks.length]);
+            case 'networkAt':
+                return networks[Number(parsed.args[0])] ? encode([networks[Number(parsed.args[0])].id]) : { success: false, returnData: '0x' };
+            case 'windows': {
+                const network = networks.find(candidate => candidate.id === parsed.args[0]);
+                return encode(network ? [network.windowStart, network.windowSize] : [0, 0]);
+            }
+            case 'totalWindowSize':
+                return encode([totalWindowSize]);
+            default:
+                return { success: false, returnData: '0x' };
+        }
+    };
+
+    const callJob = (job: FakeJobRecord, data: string, blockNumber: bigint, from: string): CallResult => {
+        const parsed = jobInterface.parseTransaction({ data });
+        const state = jobStateAt(job, blockNumber);
+        if (parsed?.name === 'workable') {
+            return state.workableRevert !== null
+                ? { success: false, returnData: errorString(state.workableRevert) }
+                : { success: true, returnData: jobInterface.encodeFunctionResult('workable', [state.canWork, state.args]) };
+        }
+        if (parsed?.name === 'work') {
+            if (state.keepers !== null && !state.keepers.some(keeper => keeper.toLowerCase() === from.toLowerCase())) {
+                return { success: false, returnData: errorString('Job/not-keeper') };
+            }
+            if (state.workRevert !== null || !state.canWork) {
+                return { success: false, returnData: errorString(state.workRevert ?? 'Job/not-workable') };
+            }
+            return { success: true, returnData: '0x' };
+        }
+        return { success: false, returnData: '0x' };
+    };
+
+    const call = (to: string, data: string, blockNumber: bigint, from: string): CallResult => {
+        const target = to.toLowerCase();
+        if (target === MULTICALL3_ADDRESS.toLowerCase()) {
+            multicallBatches++;
+            const [, calls] = multicallInterface.decodeFunctionData('tryAggregate', data);
+            const results = calls.map((inner: { target: string; callData: string }) => call(inner.target, inner.callData, blockNumber, MULTICALL3_ADDRESS));
+            return { success: true, returnData: multicallInterface.encodeFunctionResult('tryAggregate', [results.map((result: CallResult) => [result.success, result.returnData])]) };
+        }
+        if (target === FAKE_SEQUENCER_ADDRESS.toLowerCase()) {
+            return callSequencer(data, blockNumber);
+        }
+        const job = jobsAt(blockNumber).find(candidate => candidate.address.toLowerCase() === target);
+        // No contract at the address: the call succeeds and returns nothing
+        return job ? callJob(job, data, blockNumber, from) : { success: true, returnData: '0x' };
+    };
+
+    const resolveBlockTag = (tag: unknown): bigint => {
+        if (tag === undefined || tag === 'latest' || tag === 'safe' || tag === 'finalized' || tag === 'pending') {
+            return head;
+        }
+        if (tag === 'earliest') {
+            return BigInt(0);
+        }
+        const blockNumber = BigInt(tag as string);
+        if (blockNumber > head) {
+            throw new RpcError(-32000, `block ${blockNumber.toString()} not found`);
+        }
+        return blockNumber;
+    };
+
+    const formatBlock = (blockNumber: bigint) => ({
+        number: toQuantity(blockNumber),
+        hash: blockHash(blockNumber),
+        parentHash: blockNumber > BigInt(0) ? blockHash(blockNumber - BigInt(1)) : ethers.ZeroHash,
+        timestamp: toQuantity(1700000000 + Number(blockNumber) * 12),
+        nonce: '0x0000000000000000',
+        difficulty: '0x0',
+        gasLimit: toQuantity(30000000),
+        gasUsed: '0x0',
+        miner: ethers.ZeroAddress,
+        extraData: '0x',
+        baseFeePerGas: toQuantity(1000000000),
+        transactions: [],
+    });
+
+    const formatLog = (log: FakeLog) => ({
+        address: log.address,
+        topics: log.topics,
+        data: log.data,
+        blockNumber: toQuantity(log.blockNumber),
+        blockHash: blockHash(log.blockNumber),
+        transactionHash: ethers.keccak256(ethers.concat([blockHash(log.blockNumber), ethers.toBeHex(log.logIndex, 32)])),
+        transactionIndex: toQuantity(log.logIndex),
+        logIndex: toQuantity(log.logIndex),
+        removed: false,
+    });
+
+    const matchesTopic = (expected: string | string[] | null, actual: string | undefined): boolean => {
+        if (expected === null) {
+            return true;
+        }
+        const candidates = Array.isArray(expected) ? expected : [expected];
+        return actual !== undefined && candidates.some(candidate => candidate.toLowerCase() === actual.toLowerCase());
+    };
+
+    const getLogs = (filter: { address?: string | string[]; topics?: Array<string | string[] | null>; fromBlock?: string; toBlock?: string }) => {
+        const fromBlock = resolveBlockTag(filter.fromBlock);
+        const toBlock = resolveBlockTag(filter.toBlock);
+        const addresses = filter.address === undefined ? null : (Array.isArray(filter.address) ? filter.address : [filter.address]).map(address => address.toLowerCase());
+        return logs
+            .filter(log => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+            .filter(log => addresses === null || addresses.includes(log.address.toLowerCase()))
+            .filter(log => (filter.topics ?? []).every((topic, i) => matchesTopic(topic, log.topics[i])))
+            .map(formatLog);
+    };
+
+    const handle = (request: JsonRpcRequest): unknown => {
+        const params = request.params ?? [];
+        switch (request.method) {
+            case 'eth_chainId':
+                return toQuantity(chainId);
+            case 'net_version':
+                return String(chainId);
+            case 'eth_blockNumber':
+                return toQuantity(head);
+            case 'eth_getBlockByNumber':
+                return formatBlock(resolveBlockTag(params[0]));
+            case 'eth_getCode': {
+                const address = String(params[0]).toLowerCase();
+                const known = address === FAKE_SEQUENCER_ADDRESS.toLowerCase() || jobs.some(job => job.address.toLowerCase() === address);
+                return known ? ethers.hexlify(ethers.toUtf8Bytes(`fake:${address === FAKE_SEQUENCER_ADDRESS.toLowerCase() ? 'sequencer' : 'job'}`)) : '0x';
+            }
+            case 'eth_call': {
+                const result = call(params[0].to, params[0].data ?? params[0].input ?? '0x', resolveBlockTag(params[1]), params[0].from ?? ethers.ZeroAddress);
+                if (!result.success) {
+                    throw new RpcError(3, 'execution reverted', result.returnData);
+                }
+                return result.returnData;
+            }
+            case 'eth_getLogs':
+                return getLogs(params[0] ?? {});
+            default:
+                throw new RpcError(-32601, `method ${request.method} is not supported by the fake chain`);
+        }
+    };
+
+    const respond = (request: JsonRpcRequest) => {
+        try {
+            return { jsonrpc: '2.0', id: request.id, result: handle(request) };
+        } catch (error) {
+            const rpcError = error instanceof RpcError ? error : new RpcError(-32603, (error as Error).message);
+            return { jsonrpc: '2.0', id: request.id, error: { code: rpcError.code, message: rpcError.message, data: rpcError.data } };
+        }
+    };
+
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            let payload: JsonRpcRequest | JsonRpcRequest[];
+            try {
+                payload = JSON.parse(body);
+            } catch (e) {
+                res.writeHead(400).end();
+                return;
+            }
+            res.writeHead(200, { 'content-type': 'application/json' });
+            res.end(JSON.stringify(Array.isArray(payload) ? payload.map(respond) : respond(payload)));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const emit = (address: string, topics: string[], data = '0x') => {
+        pendingLogs.push({ address, topics, data });
+    };
+
+    return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        head: () => head,
+        addJob: (address, state = {}) => {
+            const job: FakeJobRecord = { address: ethers.getAddress(address), addedAtBlock: head + BigInt(1), history: [{ fromBlock: BigInt(0), state: { ...DEFAULT_JOB_STATE, ...state } }] };
+            jobs.push(job);
+            emit(FAKE_SEQUENCER_ADDRESS, [sequencerInterface.getEvent('AddJob')!.topicHash, ethers.zeroPadValue(job.address, 32)]);
+            return {
+                address: job.address,
+                set: changes => {
+                    const fromBlock = head + BigInt(1);
+                    const state = { ...jobStateAt(job, fromBlock), ...changes };
+                    job.history = [...job.history.filter(entry => entry.fromBlock < fromBlock), { fromBlock, state }];
+                },
+                work: (network = ethers.decodeBytes32String(networks[0].id), keeper = FAKE_KEEPER_ADDRESS) => {
+                    emit(job.address, [jobInterface.getEvent('Work')!.topicHash, ethers.encodeBytes32String(network), ethers.zeroPadValue(keeper, 32)]);
+                },
+            };
+        },
+        mine: (blocks = 1) => {
+            for (let i = 0; i < blocks; i++) {
+                head = head + BigInt(1);
+                pendingLogs.forEach((log, logIndex) => logs.push({ ...log, blockNumber: head, logIndex }));
+                pendingLogs = [];
+            }
+            return head;
+        },
+        multicallBatches: () => multicallBatches,
+        close: () => new Promise<void>((resolve, reject) => {
+            server.close(error => (error ? reject(error) : resolve()));
+            server.closeAllConnections();
+        }),
+    };
+}
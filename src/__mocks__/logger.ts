@@ -0,0 +1,19 @@
+// Silent logger for tests: jest.mock('./logger') swaps this in
+import type { Logger } from '../logger';
+
+export const LOG_LEVELS = jest.requireActual('../logger').LOG_LEVELS;
+export const isLogLevel = jest.requireActual('../logger').isLogLevel;
+export const configureLogger = jest.fn();
+export const isLevelEnabled = jest.fn(() => false);
+
+export function createLogger(): Logger {
+    const logger: Logger = {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn(),
+        fatal: jest.fn(),
+        child: () => logger,
+    };
+    return logger;
+}
@@ -0,0 +1,76 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import fetch from 'node-fetch';
+import { registerAdminRoutes } from './admin_api';
+import { startHttpServer } from './http_server';
+import { restoreSilences, silences } from './silences';
+
+jest.mock('./config', () => ({}));
+jest.mock('./logger');
+
+const JOB = '0x67AD4000e73579B9725eE3A149F85C4Af0A61361';
+
+describe('admin_api', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const auth = { Authorization: 'Bearer s3cret', 'Content-Type': 'application/json' };
+
+    beforeAll(async () => {
+        registerAdminRoutes('s3cret');
+        server = await startHttpServer(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>(done => server.close(() => done()));
+    });
+
+    beforeEach(() => {
+        restoreSilences([]);
+    });
+
+    it('should reject requests without the admin token', async () => {
+        const missing = await fetch(`${baseUrl}/admin/silences`);
+        const wrong = await fetch(`${baseUrl}/admin/silences`, { headers: { Authorization: 'Bearer nope' } });
+
+        expect(missing.status).toBe(401);
+        expect(wrong.status).toBe(401);
+        expect(await wrong.json()).toEqual({ error: 'Missing or invalid admin token' });
+    });
+
+    it('should create, list and delete silences', async () => {
+        const created = await fetch(`${baseUrl}/admin/silences`, {
+            method: 'POST',
+            headers: auth,
+            body: JSON.stringify({ matchers: { job: JOB }, expiresAtBlock: 21700000, createdBy: 'alice', comment: 'Migrating AutoLine' }),
+        });
+        expect(created.status).toBe(201);
+        const silence = await created.json();
+        expect(silence).toEqual(expect.objectContaining({ matchers: { job: JOB }, expiresAtBlock: '21700000', createdBy: 'alice' }));
+        expect(silences.get(silence.id)!.expiresAtBlock).toBe(BigInt(21700000));
+
+        const listed = await fetch(`${baseUrl}/admin/silences`, { headers: auth });
+        expect((await listed.json()).map((s: { id: string }) => s.id)).toEqual([silence.id]);
+
+        const deleted = await fetch(`${baseUrl}/admin/silences/${silence.id}`, { method: 'DELETE', headers: auth });
+        expect(deleted.status).toBe(200);
+        expect(silences.size).toBe(0);
+
+        const missing = await fetch(`${baseUrl}/admin/silences/${silence.id}`, { method: 'DELETE', headers: auth });
+        expect(missing.status).toBe(404);
+    });
+
+    it('should answer invalid silences and bodies with 400', async () => {
+        const invalid = await fetch(`${baseUrl}/admin/silences`, { method: 'POST', headers: auth, body: JSON.stringify({ matchers: { job: JOB }, createdBy: 'alice', comment: 'Forgot the expiry' }) });
+        const malformed = await fetch(`${baseUrl}/admin/silences`, { method: 'POST', headers: auth, body: '{' });
+
+        expect(invalid.status).toBe(400);
+        expect((await invalid.json()).error).toContain('expiresAtBlock or expiresAt');
+        expect(malformed.status).toBe(400);
+    });
+
+    it('should answer unknown routes and methods', async () => {
+        expect((await fetch(`${baseUrl}/nope`)).status).toBe(404);
+        expect((await fetch(`${baseUrl}/admin/silences`, { method: 'PUT', headers: auth })).status).toBe(405);
+    });
+});
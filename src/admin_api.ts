@@ -0,0 +1,48 @@
+import * as http from 'http';
+import { timingSafeEqual } from 'crypto';
+import { addRoute, readJsonBody, HttpError } from './http_server';
+import { createSilence, deleteSilence, pruneExpiredSilences, silences, SilenceValidationError } from './silences';
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+    const header = req.headers.authorization ?? '';
+    const expected = Buffer.from(`Bearer ${token}`);
+    const received = Buffer.from(header);
+    return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+// Registers the /admin routes; every request must carry `Authorization: Bearer <token>`
+export function registerAdminRoutes(token: string): void {
+    const requireAdmin = (req: http.IncomingMessage) => {
+        if (!isAuthorized(req, token)) {
+            throw new HttpError(401, 'Missing or invalid admin token');
+        }
+    };
+
+    addRoute('GET', '/admin/silences', req => {
+        requireAdmin(req);
+        pruneExpiredSilences(null);
+        return { status: 200, body: Array.from(silences.values()) };
+    });
+
+    addRoute('POST', '/admin/silences', async req => {
+        requireAdmin(req);
+        const body = await readJsonBody(req);
+        try {
+            return { status: 201, body: createSilence(body) };
+        } catch (error) {
+            if (error instanceof SilenceValidationError) {
+                throw new HttpError(400, error.message);
+            }
+            throw error;
+        }
+    });
+
+    addRoute('DELETE', '/admin/silences/:id', (req, params) => {
+        requireAdmin(req);
+        const silence = deleteSilence(params.id);
+        if (!silence) {
+            throw new HttpError(404, `No silence with id ${params.id}`);
+        }
+        return { status: 200, body: silence };
+    });
+}
@@ -0,0 +1,191 @@
+import fetch from 'node-fetch';
+import { createLogger } from './logger';
+
+const logger = createLogger('alert_sinks');
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface AlertField {
+    name: string;
+    value: string;
+    inline?: boolean;
+}
+
+// Channel-neutral alert; every sink renders it in its own native format
+export interface AlertEvent {
+    kind: 'job' | 'network' | 'system' | 'digest';
+    title: string;
+    summary: string;
+    severity: AlertSeverity;
+    fields: AlertField[];
+    dedupKey?: string; // Stable identifier of what the alert is about, e.g. the job address
+    resolved?: boolean; // Set on the notice that closes the incident opened under the same dedupKey
+    timestamp: number;
+}
+
+export interface AlertSink {
+    name: string;
+    minSeverity: AlertSeverity;
+    send(event: AlertEvent): Promise<void>;
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+export function meetsSeverity(event: AlertEvent, minSeverity: AlertSeverity): boolean {
+    return SEVERITY_RANK[event.severity] >= SEVERITY_RANK[minSeverity];
+}
+
+async function postJson(sinkName: string, url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+    });
+
+    const responseBody = await response.text();
+
+    if (!response.ok) {
+        logger.warn("Failed to send message", { sink: sinkName, status: response.status, body: responseBody });
+        throw new Error(`Failed to send ${sinkName} message. Status: ${response.status}, Body: ${responseBody}`);
+    }
+
+    logger.debug("Message sent successfully", { sink: sinkName });
+}
+
+// --- Discord ---
+
+const DISCORD_COLORS: Record<AlertSeverity, number> = {
+    info: 0x00FF00, // Green
+    warning: 0xFF8C00, // Orange
+    critical: 0xFF0000, // Red
+};
+const DISCORD_RESOLVED_COLOR = 0x00FF00;
+
+export function renderDiscordMessage(event: AlertEvent) {
+    return {
+        content: '',  // Add empty content to satisfy interface
+        embeds: [{
+            title: event.kind === 'system' ? undefined : event.title,
+            description: event.summary || undefined,
+            color: event.resolved ? DISCORD_RESOLVED_COLOR : DISCORD_COLORS[event.severity],
+            fields: event.fields.length > 0 ? event.fields : undefined,
+        }]
+    };
+}
+
+export function createDiscordSink(webhookUrl: string): AlertSink {
+    return {
+        name: 'Discord',
+        minSeverity: 'info',
+        send: event => postJson('Discord', webhookUrl, renderDiscordMessage(event)),
+    };
+}
+
+// --- Slack incoming webhook ---
+
+const SLACK_EMOJI: Record<AlertSeverity, string> = { info: ':information_source:', warning: ':warning:', critical: ':rotating_light:' };
+
+export function renderSlackMessage(event: AlertEvent) {
+    const blocks: unknown[] = [{
+        type: 'section',
+        text: { type: 'mrkdwn', text: `${event.resolved ? ':white_check_mark:' : SLACK_EMOJI[event.severity]} *${event.title}*\n${event.summary}` },
+    }];
+    if (event.fields.length > 0) {
+        // Slack allows at most 10 fields per section
+        for (let i = 0; i < event.fields.length; i += 10) {
+            blocks.push({
+                type: 'section',
+                fields: event.fields.slice(i, i + 10).map(field => ({ type: 'mrkdwn', text: `*${field.name}*\n${field.value}` })),
+            });
+        }
+    }
+    return { text: `${event.title}: ${event.summary}`, blocks };
+}
+
+export function createSlackSink(webhookUrl: string): AlertSink {
+    return {
+        name: 'Slack',
+        minSeverity: 'info',
+        send: event => postJson('Slack', webhookUrl, renderSlackMessage(event)),
+    };
+}
+
+// --- Telegram Bot API ---
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function renderTelegramMessage(event: AlertEvent, chatId: string) {
+    const lines = [`<b>${escapeHtml(event.title)}</b>`, escapeHtml(event.summary)];
+    for (const field of event.fields) {
+        lines.push(`<b>${escapeHtml(field.name)}:</b> ${escapeHtml(field.value)}`);
+    }
+    return {
+        chat_id: chatId,
+        text: lines.filter(line => line.length > 0).join('\n'),
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+    };
+}
+
+export function createTelegramSink(botToken: string, chatId: string, apiUrl: string = 'https://api.telegram.org'): AlertSink {
+    return {
+        name: 'Telegram',
+        minSeverity: 'info',
+        send: event => postJson('Telegram', `${apiUrl.replace(/\/$/, '')}/bot${botToken}/sendMessage`, renderTelegramMessage(event, chatId)),
+    };
+}
+
+// --- PagerDuty Events API v2 ---
+
+export function renderPagerDutyEvent(event: AlertEvent, routingKey: string) {
+    return {
+        routing_key: routingKey,
+        event_action: event.resolved && event.dedupKey ? 'resolve' : 'trigger',
+        dedup_key: event.dedupKey ? `keep3r-beep3r:${event.kind}:${event.dedupKey}` : undefined,
+        payload: {
+            summary: `${event.title}: ${event.summary}`.slice(0, 1024), // PagerDuty rejects longer summaries
+            source: 'keep3r-beep3r',
+            severity: event.severity, // PagerDuty uses the same info/warning/critical names
+            timestamp: new Date(event.timestamp).toISOString(),
+            custom_details: event.fields.reduce<Record<string, string>>((details, field) => ({ ...details, [field.name]: field.value }), {}),
+        },
+    };
+}
+
+export function createPagerDutySink(routingKey: string, minSeverity: AlertSeverity = 'warning', eventsUrl: string = 'https://events.pagerduty.com/v2/enqueue'): AlertSink {
+    return {
+        name: 'PagerDuty',
+        minSeverity,
+        // Digests are reports, not incidents, so they never page
+        send: async event => {
+            if (event.kind !== 'digest') {
+                await postJson('PagerDuty', eventsUrl, renderPagerDutyEvent(event, routingKey));
+            }
+        },
+    };
+}
+
+// --- Generic JSON webhook ---
+
+export function createWebhookSink(url: string, authHeader?: string): AlertSink {
+    return {
+        name: 'Webhook',
+        minSeverity: 'info',
+        send: event => postJson('Webhook', url, { source: 'keep3r-beep3r', ...event }, authHeader ? { Authorization: authHeader } : {}),
+    };
+}
+
+// --- Console (DISCORD_WEBHOOK_URL=LOCAL) ---
+
+export function createConsoleSink(): AlertSink {
+    return {
+        name: 'Console',
+        minSeverity: 'info',
+        send: async event => {
+            const details = event.fields.map(field => `${field.name}: ${field.value}`).join(', ');
+            logger.info(`[Alert - LOCAL MODE] ${event.title} ${event.summary}${details ? ` (${details})` : ''}`, { severity: event.severity });
+        },
+    };
+}
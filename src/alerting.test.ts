@@ -1,49 +1,243 @@
-import { sendDiscordAlert } from './alerting';
-import fetch, { Response } from 'node-fetch';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { sendDigestReport, sendJobAlert, sendJobRecoveryAlert, sendSystemMessage, setAlertSinks, updateAlertSource } from './alerting';
+import {
+    AlertSink,
+    createConsoleSink,
+    createDiscordSink,
+    createSlackSink,
+    createTelegramSink,
+    createPagerDutySink,
+    createWebhookSink
+} from './alert_sinks';
 
-jest.mock('node-fetch');
+jest.mock('./config', () => ({
+    DISCORD_WEBHOOK_URL: '',
+    SLACK_WEBHOOK_URL: '',
+    TELEGRAM_BOT_TOKEN: '',
+    TELEGRAM_CHAT_ID: '',
+    TELEGRAM_API_URL: '',
+    PAGERDUTY_ROUTING_KEY: '',
+    PAGERDUTY_EVENTS_URL: '',
+    PAGERDUTY_MIN_SEVERITY: 'warning',
+    ALERT_WEBHOOK_URL: '',
+    ALERT_WEBHOOK_AUTH_HEADER: '',
+}));
 
-const mockedFetch = fetch as jest.MockedFunction<typeof fetch>;
+interface ReceivedRequest {
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
 
-describe('sendDiscordAlert', () => {
+// Local stand-in for the webhook endpoints of every alert service
+function startReceiver(status: number = 200): Promise<{ url: string; requests: ReceivedRequest[]; close: () => Promise<void> }> {
+    const requests: ReceivedRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+            requests.push({ path: req.url ?? '', headers: req.headers, body: JSON.parse(raw) });
+            res.statusCode = status;
+            res.end(status === 200 ? 'ok' : 'boom');
+        });
+    });
+    return new Promise(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            resolve({
+                url: `http://127.0.0.1:${port}`,
+                requests,
+                close: () => new Promise<void>(done => server.close(() => done())),
+            });
+        });
+    });
+}
+
+describe('alerting', () => {
     const jobAddress = '0xJobAddress';
     const unworkedBlocks = BigInt(1000);
     const currentBlock = BigInt(2000);
     const argsString = 'Test reason';
+    let receiver: Awaited<ReturnType<typeof startReceiver>>;
 
-    beforeEach(() => {
-        jest.clearAllMocks();
+    beforeEach(async () => {
+        receiver = await startReceiver();
+    });
+
+    afterEach(async () => {
+        setAlertSinks([]);
+        await receiver.close();
     });
 
     it('should send a Discord alert successfully', async () => {
-        const response = new Response('', { status: 200, statusText: 'OK' });
-        mockedFetch.mockResolvedValue(response);
-
-        await sendDiscordAlert(jobAddress, unworkedBlocks, currentBlock, argsString);
-
-        expect(fetch).toHaveBeenCalledTimes(1);
-        expect(fetch).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                content: `🚨 Alert! Job ${jobAddress} hasn't been worked for ${unworkedBlocks.toString()} blocks (current block: ${currentBlock.toString()}). Reason: ${argsString}`
-            }),
+        setAlertSinks([createDiscordSink(`${receiver.url}/discord`)]);
+
+        await sendJobAlert(jobAddress, unworkedBlocks, currentBlock, argsString);
+
+        expect(receiver.requests).toHaveLength(1);
+        const embed = receiver.requests[0].body.embeds[0];
+        expect(embed.title).toBe('🚨 Job Unworked (Unknown Reason)');
+        expect(embed.color).toBe(0xFF8C00);
+        expect(embed.fields).toEqual(expect.arrayContaining([
+            { name: 'Job Address', value: jobAddress, inline: true },
+            { name: 'Reason', value: argsString },
+        ]));
+    });
+
+    it('should render the same alert natively for every configured sink', async () => {
+        setAlertSinks([
+            createSlackSink(`${receiver.url}/slack`),
+            createTelegramSink('TOKEN', '42', receiver.url),
+            createPagerDutySink('ROUTING', 'warning', `${receiver.url}/pagerduty`),
+            createWebhookSink(`${receiver.url}/hook`, 'Bearer secret'),
+        ]);
+
+        await sendJobAlert(jobAddress, unworkedBlocks, currentBlock, argsString);
+
+        const byPath = new Map(receiver.requests.map(request => [request.path, request]));
+        expect(byPath.get('/slack')!.body.text).toContain(jobAddress);
+        expect(byPath.get('/slack')!.body.blocks[1].fields).toEqual(expect.arrayContaining([{ type: 'mrkdwn', text: `*Reason*\n${argsString}` }]));
+        expect(byPath.get('/botTOKEN/sendMessage')!.body).toEqual(expect.objectContaining({ chat_id: '42', parse_mode: 'HTML' }));
+        expect(byPath.get('/pagerduty')!.body).toEqual(expect.objectContaining({
+            routing_key: 'ROUTING',
+            event_action: 'trigger',
+            dedup_key: `keep3r-beep3r:job:${jobAddress.toLowerCase()}`,
         }));
+        expect(byPath.get('/pagerduty')!.body.payload.severity).toBe('warning');
+        expect(byPath.get('/hook')!.headers.authorization).toBe('Bearer secret');
+        expect(byPath.get('/hook')!.body).toEqual(expect.objectContaining({ kind: 'job', severity: 'warning' }));
+    });
+
+    it('should mark reminders and escalations with the incident they belong to', async () => {
+        setAlertSinks([createDiscordSink(`${receiver.url}/discord`)]);
+
+        await sendJobAlert(jobAddress, BigInt(3000), currentBlock, argsString, null, { transition: 'escalated', alertType: 'unknown_reason', severity: 'critical', alertNumber: 3, openedAtBlock: BigInt(1000) });
+
+        const embed = receiver.requests[0].body.embeds[0];
+        expect(embed.title).toBe('🔥 Job Unworked (Unknown Reason) Escalated');
+        expect(embed.color).toBe(0xFF0000);
+        expect(embed.fields).toEqual(expect.arrayContaining([{ name: 'Incident Opened', value: 'Block 1000', inline: true }]));
+    });
+
+    it('should blame the keepers when the job was left workable', async () => {
+        setAlertSinks([createDiscordSink(`${receiver.url}/discord`)]);
+
+        await sendJobAlert(jobAddress, BigInt(1500), currentBlock, null, null, { transition: 'opened', alertType: 'stuck_workable', severity: 'critical', alertNumber: 1, openedAtBlock: currentBlock }, BigInt(1200));
+
+        const embed = receiver.requests[0].body.embeds[0];
+        expect(embed.title).toBe('🛑 Job Stuck Workable');
+        expect(embed.description).toContain('workable for 1200 of the 1500 blocks');
+        expect(embed.fields).toEqual(expect.arrayContaining([
+            { name: 'Workable Blocks', value: '1200', inline: true },
+            { name: 'Likely Cause', value: 'Keepers: the job is workable but nobody works it' },
+        ]));
+    });
+
+    it('should say which target, chain and sequencer an alert comes from', async () => {
+        setAlertSinks([
+            createDiscordSink(`${receiver.url}/discord`),
+            createPagerDutySink('ROUTING', 'warning', `${receiver.url}/pagerduty`),
+        ]);
+        updateAlertSource({ target: 'sepolia', chain: 'sepolia (11155111)', sequencer: '0x1111111111111111111111111111111111111111' });
+
+        try {
+            await sendJobAlert(jobAddress, unworkedBlocks, currentBlock, argsString);
+        } finally {
+            updateAlertSource({ target: null, chain: null, sequencer: null });
+        }
+
+        const byPath = new Map(receiver.requests.map(request => [request.path, request]));
+        const embed = byPath.get('/discord')!.body.embeds[0];
+        expect(embed.title).toBe('[sepolia] 🚨 Job Unworked (Unknown Reason)');
+        expect(embed.fields).toEqual(expect.arrayContaining([
+            { name: 'Chain', value: 'sepolia (11155111)', inline: true },
+            { name: 'Sequencer', value: '0x1111111111111111111111111111111111111111', inline: true },
+        ]));
+        expect(byPath.get('/pagerduty')!.body.dedup_key).toBe(`keep3r-beep3r:job:sepolia:${jobAddress.toLowerCase()}`);
+    });
+
+    it('should resolve the PagerDuty incident opened for the same job', async () => {
+        setAlertSinks([
+            createDiscordSink(`${receiver.url}/discord`),
+            createPagerDutySink('ROUTING', 'warning', `${receiver.url}/pagerduty`),
+        ]);
+        const incident = { openedAtBlock: BigInt(1000), lastAlertBlock: BigInt(1500), nextReminderBlock: BigInt(2500), alertsSent: 2, escalated: false };
+
+        await sendJobRecoveryAlert(jobAddress, incident, BigInt(1200), currentBlock);
+
+        const byPath = new Map(receiver.requests.map(request => [request.path, request]));
+        expect(byPath.get('/discord')!.body.embeds[0]).toEqual(expect.objectContaining({ title: '✅ Job Resolved', color: 0x00FF00 }));
+        expect(byPath.get('/pagerduty')!.body).toEqual(expect.objectContaining({
+            event_action: 'resolve',
+            dedup_key: `keep3r-beep3r:job:${jobAddress.toLowerCase()}`,
+        }));
+    });
+
+    it('should skip sinks whose minimum severity is not met', async () => {
+        setAlertSinks([createPagerDutySink('ROUTING', 'warning', `${receiver.url}/pagerduty`)]);
+
+        await sendSystemMessage('hello');
+
+        expect(receiver.requests).toHaveLength(0);
+    });
+
+    it('should post digests to chat sinks but never page with them', async () => {
+        setAlertSinks([
+            createDiscordSink(`${receiver.url}/discord`),
+            createPagerDutySink('ROUTING', 'info', `${receiver.url}/pagerduty`),
+        ]);
+
+        await sendDigestReport({
+            period: 'weekly',
+            startedAt: Date.UTC(2024, 0, 1),
+            endedAt: Date.UTC(2024, 0, 8),
+            fromBlock: BigInt(1000),
+            toBlock: BigInt(1300),
+            jobs: [{ address: jobAddress, workCount: 3, longestUnworkedStreak: BigInt(300), workableUnworkedBlocks: BigInt(150), alertsFired: 2, alertsSuppressed: 1 }],
+            keepers: [{ id: '0xKeeper', workCount: 3 }],
+            networks: [],
+        });
+
+        expect(receiver.requests.map(request => request.path)).toEqual(['/discord']);
+        const embed = receiver.requests[0].body.embeds[0];
+        expect(embed.title).toBe('📊 Weekly Keeper Digest');
+        expect(embed.description).toContain('blocks 1000-1300: 3 Work events across 1 jobs, 2 alerts fired, 1 suppressed');
+        expect(embed.fields).toEqual(expect.arrayContaining([
+            expect.objectContaining({ name: jobAddress, value: expect.stringContaining('longest unworked streak 300 blocks') }),
+            expect.objectContaining({ name: 'Work by Keeper', value: '0xKeeper: 3 (100%)' }),
+        ]));
+    });
+
+    it('should deliver to the remaining sinks when one fails', async () => {
+        const failing: AlertSink = { name: 'Broken', minSeverity: 'info', send: jest.fn().mockRejectedValue(new Error('Network error')) };
+        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+        setAlertSinks([failing, createDiscordSink(`${receiver.url}/discord`)]);
+
+        await sendJobAlert(jobAddress, unworkedBlocks, currentBlock, argsString);
+
+        expect(receiver.requests).toHaveLength(1);
+        consoleErrorSpy.mockRestore();
     });
 
     it('should handle network errors gracefully', async () => {
-        mockedFetch.mockRejectedValue(new Error('Network error'));
+        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+        const failingReceiver = await startReceiver(500);
+        setAlertSinks([createDiscordSink(`${failingReceiver.url}/discord`)]);
+
+        await expect(sendJobAlert(jobAddress, unworkedBlocks, currentBlock, argsString)).rejects.toThrow('Status: 500');
 
-        await expect(sendDiscordAlert(jobAddress, unworkedBlocks, currentBlock, argsString)).rejects.toThrow('Network error');
+        await failingReceiver.close();
+        consoleErrorSpy.mockRestore();
     });
 
     it('should log a message when DISCORD_WEBHOOK_URL is set to LOCAL', async () => {
-        process.env.DISCORD_WEBHOOK_URL = 'LOCAL';
         const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+        setAlertSinks([createConsoleSink()]);
 
-        await sendDiscordAlert(jobAddress, unworkedBlocks, currentBlock, argsString);
+        await sendJobAlert(jobAddress, unworkedBlocks, currentBlock, argsString);
 
-        expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('[Discord Alert - LOCAL MODE]'));
+        expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('[Alert - LOCAL MODE]'));
         consoleSpy.mockRestore();
     });
 });
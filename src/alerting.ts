@@ -1,109 +1,565 @@
-import fetch from 'node-fetch';
-import { DISCORD_WEBHOOK_URL } from './config';
-import { logWithTimestamp } from './utils';
-
-// Interface for different message types
-interface DiscordMessage {
-    content: string;
-    embeds?: Array<{
-        title?: string;
-        description?: string;
-        color?: number;
-        fields?: Array<{
-            name: string;
-            value: string;
-            inline?: boolean;
-        }>;
-    }>;
-}
-
-async function sendDiscordMessage(message: DiscordMessage): Promise<void> {
-    const webhookUrl = DISCORD_WEBHOOK_URL;
-
-    if (webhookUrl.trim().toUpperCase() === 'LOCAL') {
-        logWithTimestamp(`[Discord - LOCAL MODE] ${message.content}`);
-        return;
+import {
+    DISCORD_WEBHOOK_URL,
+    SLACK_WEBHOOK_URL,
+    TELEGRAM_BOT_TOKEN,
+    TELEGRAM_CHAT_ID,
+    TELEGRAM_API_URL,
+    PAGERDUTY_ROUTING_KEY,
+    PAGERDUTY_EVENTS_URL,
+    PAGERDUTY_MIN_SEVERITY,
+    ALERT_WEBHOOK_URL,
+    ALERT_WEBHOOK_AUTH_HEADER
+} from './config';
+import { formatNetworkName } from './utils';
+import { createLogger } from './logger';
+import type { JobIncident, JobWorkableError, JobWorkMismatch, WorkRecord } from './job_manager';
+import type { IncidentUpdate, JobAlertType } from './incidents';
+import type { DigestReport } from './digest';
+import { formatJobName } from './job_config';
+import { recordAlertSent } from './metrics';
+import {
+    AlertEvent,
+    AlertField,
+    AlertSeverity,
+    AlertSink,
+    meetsSeverity,
+    createConsoleSink,
+    createDiscordSink,
+    createSlackSink,
+    createTelegramSink,
+    createPagerDutySink,
+    createWebhookSink
+} from './alert_sinks';
+
+const logger = createLogger('alerting');
+
+// Builds one sink per configured destination; DISCORD_WEBHOOK_URL=LOCAL logs to the console instead
+export function createConfiguredSinks(): AlertSink[] {
+    const sinks: AlertSink[] = [];
+    if (DISCORD_WEBHOOK_URL) {
+        sinks.push(DISCORD_WEBHOOK_URL.trim().toUpperCase() === 'LOCAL' ? createConsoleSink() : createDiscordSink(DISCORD_WEBHOOK_URL));
+    }
+    if (SLACK_WEBHOOK_URL) {
+        sinks.push(createSlackSink(SLACK_WEBHOOK_URL));
+    }
+    if (TELEGRAM_BOT_TOKEN) {
+        sinks.push(createTelegramSink(TELEGRAM_BOT_TOKEN, TELEGRAM_CHAT_ID, TELEGRAM_API_URL));
+    }
+    if (PAGERDUTY_ROUTING_KEY) {
+        sinks.push(createPagerDutySink(PAGERDUTY_ROUTING_KEY, PAGERDUTY_MIN_SEVERITY as AlertSeverity, PAGERDUTY_EVENTS_URL));
     }
+    if (ALERT_WEBHOOK_URL) {
+        sinks.push(createWebhookSink(ALERT_WEBHOOK_URL, ALERT_WEBHOOK_AUTH_HEADER || undefined));
+    }
+    return sinks;
+}
 
-    try {
-        const response = await fetch(webhookUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(message),
-        });
+let alertSinks: AlertSink[] = createConfiguredSinks();
 
-        const responseBody = await response.text();
+export function setAlertSinks(sinks: AlertSink[]): void {
+    alertSinks = sinks;
+}
 
-        if (!response.ok) {
-            logWithTimestamp(`[Discord] Failed to send message. Status: ${response.status}, Body: ${responseBody}`);
-            throw new Error(`Failed to send Discord message. Status: ${response.status}, Body: ${responseBody}`);
-        }
+// Set by commands that only read the chain, such as the audit, so they can never page anyone
+let alertsMuted = false;
 
-        logWithTimestamp(`[Discord] Message sent successfully.`);
-    } catch (error) {
-        console.error(`[Discord] Error sending message:`, error);
-        throw error;
+export function muteAlerts(): void {
+    alertsMuted = true;
+}
+
+// Which deployment alerts come from; with several targets in one process, each one labels its own alerts
+export interface AlertSource {
+    target: string | null;
+    chain: string | null; // e.g. "sepolia (11155111)"
+    sequencer: string | null;
+}
+
+let alertSource: AlertSource = { target: null, chain: null, sequencer: null };
+
+export function updateAlertSource(source: Partial<AlertSource>): void {
+    alertSource = { ...alertSource, ...source };
+}
+
+// The target prefixes the title and the dedup key, so incidents of different targets never merge
+function labelWithSource(event: AlertEvent): AlertEvent {
+    const { target, chain, sequencer } = alertSource;
+    const fields = [...event.fields];
+    if (chain) {
+        fields.push({ name: 'Chain', value: chain, inline: true });
+    }
+    if (sequencer) {
+        fields.push({ name: 'Sequencer', value: sequencer, inline: true });
     }
+    return {
+        ...event,
+        title: target ? `[${target}] ${event.title}` : event.title,
+        dedupKey: target && event.dedupKey ? `${target}:${event.dedupKey}` : event.dedupKey,
+        fields,
+    };
 }
 
-export async function sendDiscordAlert(
+// Delivers the event to every sink that wants its severity. One failing sink does not stop
+// the others; the call only fails when no sink could deliver it.
+export async function sendAlert(unlabelledEvent: AlertEvent): Promise<void> {
+    const event = labelWithSource(unlabelledEvent);
+    if (alertsMuted) {
+        logger.debug(`[Alert muted] ${event.title}`, { summary: event.summary });
+        return;
+    }
+    const sinks = alertSinks.filter(sink => meetsSeverity(event, sink.minSeverity));
+    if (sinks.length === 0) {
+        return;
+    }
+
+    const results = await Promise.allSettled(sinks.map(sink => sink.send(event)));
+    const failures = results
+        .map((result, i) => ({ result, sink: sinks[i] }))
+        .filter(({ result }) => result.status === 'rejected');
+
+    for (const { result, sink } of failures) {
+        logger.error("Error sending message", { sink: sink.name, alert: event.title, error: (result as PromiseRejectedResult).reason });
+    }
+    if (failures.length === sinks.length) {
+        throw new Error(`Failed to deliver alert "${event.title}" to any sink: ${failures.map(({ result }) => (result as PromiseRejectedResult).reason).join('; ')}`);
+    }
+    recordAlertSent(event);
+}
+
+// Rough mainnet block time, only used to phrase block distances in alerts
+const AVERAGE_BLOCK_TIME_SECONDS = 12;
+
+function formatBlockDuration(blocks: bigint): string {
+    const minutes = Math.round(Number(blocks) * AVERAGE_BLOCK_TIME_SECONDS / 60);
+    return minutes >= 120 ? `~${Math.round(minutes / 60)} h` : `~${minutes} min`;
+}
+
+function formatBlocksAgo(blocks: bigint): string {
+    return `${blocks.toString()} blocks ago (${formatBlockDuration(blocks)})`;
+}
+
+function lastWorkFields(lastWork: WorkRecord, currentBlock: bigint) {
+    return [
+        {
+            name: 'Last Worked By',
+            value: `${lastWork.keeper} (${formatNetworkName(lastWork.network)})`,
+            inline: true
+        },
+        {
+            name: 'Last Worked',
+            value: `${formatBlocksAgo(currentBlock - lastWork.blockNumber)}, tx ${lastWork.transactionHash}`,
+            inline: true
+        }
+    ];
+}
+
+// Per alert type wording; the likely cause tells on-call whether to look at the keepers or the job
+const JOB_ALERT_TEMPLATES: Record<JobAlertType, {
+    icon: string;
+    name: string;
+    likelyCause: string;
+    describe: (jobName: string, unworkedBlocks: bigint, workableBlocks: bigint) => string;
+}> = {
+    stuck_workable: {
+        icon: '🛑',
+        name: 'Job Stuck Workable',
+        likelyCause: 'Keepers: the job is workable but nobody works it',
+        describe: (jobName, unworkedBlocks, workableBlocks) => `Job ${jobName} has been workable for ${workableBlocks.toString()} of the ${unworkedBlocks.toString()} blocks since it was last worked.`,
+    },
+    never_workable: {
+        icon: '💤',
+        name: 'Job Never Workable',
+        likelyCause: 'Job: workable() has returned false for the whole streak',
+        describe: (jobName, unworkedBlocks) => `Job ${jobName} has not been workable at any point in the ${unworkedBlocks.toString()} blocks since it was last worked.`,
+    },
+    unknown_reason: {
+        icon: '🚨',
+        name: 'Job Unworked (Unknown Reason)',
+        likelyCause: 'Unknown: the job was workable at times but is not now',
+        describe: (jobName, unworkedBlocks) => `Job ${jobName} has not been worked for ${unworkedBlocks.toString()} blocks.`,
+    },
+};
+
+export async function sendJobAlert(
     jobAddress: string,
     unworkedBlocks: bigint,
     currentBlock: bigint,
-    argsString: string | null
+    argsString: string | null,
+    lastWork: WorkRecord | null = null,
+    update: IncidentUpdate = { transition: 'opened', alertType: 'unknown_reason', severity: 'warning', alertNumber: 1, openedAtBlock: currentBlock },
+    workableBlocks: bigint = BigInt(0)
 ): Promise<void> {
     // Don't send regular job alerts for system messages
     if (jobAddress === 'SYSTEM') {
         return;
     }
 
-    const message: DiscordMessage = {
-        content: '',  // Add empty content to satisfy interface
-        embeds: [{
-            title: '🚨 Job Alert',
-            color: 0xFF0000, // Red
-            fields: [
-                {
-                    name: 'Job Address',
-                    value: jobAddress,
-                    inline: true
-                },
-                {
-                    name: 'Unworked Blocks',
-                    value: unworkedBlocks.toString(),
-                    inline: true
-                },
-                {
-                    name: 'Current Block',
-                    value: currentBlock.toString(),
-                    inline: true
-                }
-            ]
-        }]
+    const template = JOB_ALERT_TEMPLATES[update.alertType];
+    const description = template.describe(formatJobName(jobAddress), unworkedBlocks, workableBlocks);
+    const titles: Record<IncidentUpdate['transition'], string> = {
+        opened: `${template.icon} ${template.name}`,
+        reminder: `🔁 ${template.name} Reminder`,
+        escalated: `🔥 ${template.name} Escalated`,
+    };
+    const summaries: Record<IncidentUpdate['transition'], string> = {
+        opened: description,
+        reminder: `${description} Still unresolved (alert #${update.alertNumber}).`,
+        escalated: `${description} Escalating.`,
+    };
+
+    const event: AlertEvent = {
+        kind: 'job',
+        title: titles[update.transition],
+        summary: summaries[update.transition],
+        severity: update.severity,
+        dedupKey: jobAddress.toLowerCase(),
+        timestamp: Date.now(),
+        fields: [
+            {
+                name: 'Job Address',
+                value: jobAddress,
+                inline: true
+            },
+            {
+                name: 'Unworked Blocks',
+                value: unworkedBlocks.toString(),
+                inline: true
+            },
+            {
+                name: 'Workable Blocks',
+                value: workableBlocks.toString(),
+                inline: true
+            },
+            {
+                name: 'Current Block',
+                value: currentBlock.toString(),
+                inline: true
+            },
+            {
+                name: 'Likely Cause',
+                value: template.likelyCause
+            }
+        ]
     };
 
     if (argsString) {
-        message.embeds![0].fields!.push({
+        event.fields.push({
             name: 'Reason',
             value: argsString
         });
     }
 
-    await sendDiscordMessage(message);
+    if (update.transition !== 'opened') {
+        event.fields.push({
+            name: 'Incident Opened',
+            value: `Block ${update.openedAtBlock.toString()}`,
+            inline: true
+        });
+    }
+
+    if (lastWork) {
+        event.fields.push(...lastWorkFields(lastWork, currentBlock));
+    }
+
+    await sendAlert(event);
+}
+
+// Closes a job incident; sent with the incident's last severity so it reaches every sink that got the alerts
+export async function sendJobRecoveryAlert(
+    jobAddress: string,
+    incident: JobIncident,
+    unworkedBlocks: bigint,
+    currentBlock: bigint,
+    lastWork: WorkRecord | null = null
+): Promise<void> {
+    const event: AlertEvent = {
+        kind: 'job',
+        title: '✅ Job Resolved',
+        summary: `Job ${formatJobName(jobAddress)} was worked again after ${unworkedBlocks.toString()} unworked blocks.`,
+        severity: incident.escalated ? 'critical' : 'warning',
+        dedupKey: jobAddress.toLowerCase(),
+        resolved: true,
+        timestamp: Date.now(),
+        fields: [
+            {
+                name: 'Job Address',
+                value: jobAddress,
+                inline: true
+            },
+            {
+                name: 'Incident',
+                value: `Blocks ${incident.openedAtBlock.toString()} - ${currentBlock.toString()}, ${incident.alertsSent} alert(s) sent`,
+                inline: true
+            }
+        ]
+    };
+
+    if (lastWork) {
+        event.fields.push(...lastWorkFields(lastWork, currentBlock));
+    }
+
+    await sendAlert(event);
 }
 
-export async function sendDiscordSystemMessage(content: string, isError: boolean = false): Promise<void> {
-    const message: DiscordMessage = {
-        content: '',  // Add empty content to satisfy interface
-        embeds: [{
-            description: content,
-            color: isError ? 0xFF0000 : 0x00FF00 // Red for errors, Green for success
-        }]
+// The job's workable() call itself fails, so whether it needs work is unknown
+export async function sendJobRevertingAlert(jobAddress: string, workableError: JobWorkableError, currentBlock: bigint): Promise<void> {
+    await sendAlert({
+        kind: 'job',
+        title: '💥 Job workable() Reverting',
+        summary: `workable() of job ${formatJobName(jobAddress)} has reverted in ${workableError.consecutiveFailures} consecutive checks.`,
+        severity: 'warning',
+        dedupKey: `${jobAddress.toLowerCase()}:workable`,
+        timestamp: Date.now(),
+        fields: [
+            {
+                name: 'Job Address',
+                value: jobAddress,
+                inline: true
+            },
+            {
+                name: 'Failing Since',
+                value: `Block ${workableError.firstFailedBlock.toString()}`,
+                inline: true
+            },
+            {
+                name: 'Current Block',
+                value: currentBlock.toString(),
+                inline: true
+            },
+            {
+                name: 'Revert Reason',
+                value: workableError.reason
+            }
+        ]
+    });
+}
+
+export async function sendJobRevertRecoveredAlert(jobAddress: string, workableError: JobWorkableError, currentBlock: bigint): Promise<void> {
+    await sendAlert({
+        kind: 'job',
+        title: '✅ Job workable() Recovered',
+        summary: `workable() of job ${formatJobName(jobAddress)} succeeds again after ${workableError.consecutiveFailures} failed checks.`,
+        severity: 'warning',
+        dedupKey: `${jobAddress.toLowerCase()}:workable`,
+        resolved: true,
+        timestamp: Date.now(),
+        fields: [
+            {
+                name: 'Job Address',
+                value: jobAddress,
+                inline: true
+            },
+            {
+                name: 'Failed',
+                value: `Blocks ${workableError.firstFailedBlock.toString()} - ${workableError.lastFailedBlock.toString()}`,
+                inline: true
+            },
+            {
+                name: 'Current Block',
+                value: currentBlock.toString(),
+                inline: true
+            }
+        ]
+    });
+}
+
+const WORK_MISMATCH_ALERTS: Record<JobWorkMismatch['type'], { title: string; severity: AlertSeverity; describe: (jobName: string) => string }> = {
+    work_reverts_while_workable: {
+        title: '🧨 Job work() Reverts While Workable',
+        severity: 'critical', // Keepers following workable() burn gas on reverting transactions
+        describe: jobName => `workable() of job ${jobName} says it can be worked, but simulating work() reverts.`,
+    },
+    work_succeeds_while_not_workable: {
+        title: '❓ Job work() Succeeds While Not Workable',
+        severity: 'warning',
+        describe: jobName => `workable() of job ${jobName} says it cannot be worked, but simulating work() succeeds.`,
+    },
+};
+
+export async function sendWorkMismatchAlert(jobAddress: string, mismatch: JobWorkMismatch, currentBlock: bigint, from: string): Promise<void> {
+    const template = WORK_MISMATCH_ALERTS[mismatch.type];
+    const event: AlertEvent = {
+        kind: 'job',
+        title: template.title,
+        summary: template.describe(formatJobName(jobAddress)),
+        severity: template.severity,
+        dedupKey: `${jobAddress.toLowerCase()}:work`,
+        timestamp: Date.now(),
+        fields: [
+            {
+                name: 'Job Address',
+                value: jobAddress,
+                inline: true
+            },
+            {
+                name: 'First Seen',
+                value: `Block ${mismatch.firstSeenBlock.toString()}`,
+                inline: true
+            },
+            {
+                name: 'Current Block',
+                value: currentBlock.toString(),
+                inline: true
+            },
+            {
+                name: 'Simulated From',
+                value: from
+            }
+        ]
     };
 
-    await sendDiscordMessage(message);
+    if (mismatch.reason) {
+        event.fields.push({
+            name: 'Revert Reason',
+            value: mismatch.reason
+        });
+    }
+
+    if (mismatch.revertData) {
+        event.fields.push({
+            name: 'Revert Data',
+            value: mismatch.revertData
+        });
+    }
+
+    await sendAlert(event);
+}
+
+export async function sendWorkMismatchResolvedAlert(jobAddress: string, mismatch: JobWorkMismatch, currentBlock: bigint): Promise<void> {
+    await sendAlert({
+        kind: 'job',
+        title: '✅ Job work() Matches workable() Again',
+        summary: `Simulating work() of job ${formatJobName(jobAddress)} agrees with workable() again after ${mismatch.occurrences} mismatched checks.`,
+        severity: WORK_MISMATCH_ALERTS[mismatch.type].severity,
+        dedupKey: `${jobAddress.toLowerCase()}:work`,
+        resolved: true,
+        timestamp: Date.now(),
+        fields: [
+            {
+                name: 'Job Address',
+                value: jobAddress,
+                inline: true
+            },
+            {
+                name: 'Mismatched',
+                value: `Blocks ${mismatch.firstSeenBlock.toString()} - ${mismatch.lastSeenBlock.toString()}`,
+                inline: true
+            },
+            {
+                name: 'Current Block',
+                value: currentBlock.toString(),
+                inline: true
+            }
+        ]
+    });
+}
+
+export async function sendNetworkWindowAlert(
+    networkName: string,
+    networkId: string,
+    windowStartBlock: bigint,
+    windowEndBlock: bigint,
+    unworkedJobs: string[],
+    consecutiveMissedWindows: number
+): Promise<void> {
+    await sendAlert({
+        kind: 'network',
+        title: '📡 Keeper Network Alert',
+        summary: `Keeper network ${networkName} let its window pass while jobs were workable.`,
+        severity: 'warning',
+        dedupKey: networkId,
+        timestamp: Date.now(),
+        fields: [
+            {
+                name: 'Network',
+                value: networkName,
+                inline: true
+            },
+            {
+                name: 'Window',
+                value: `${windowStartBlock.toString()} - ${windowEndBlock.toString()}`,
+                inline: true
+            },
+            {
+                name: 'Consecutive Missed Windows',
+                value: consecutiveMissedWindows.toString(),
+                inline: true
+            },
+            {
+                name: 'Unworked Jobs',
+                value: unworkedJobs.map(formatJobName).join('\n')
+            },
+            {
+                name: 'Network ID',
+                value: networkId
+            }
+        ]
+    });
+}
+
+// Jobs beyond this are summed up in one field; chat embeds only take so many fields
+const MAX_DIGEST_JOB_FIELDS = 20;
+const MAX_DIGEST_WORKERS = 10;
+
+function formatUtc(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ');
+}
+
+export async function sendDigestReport(report: DigestReport): Promise<void> {
+    const period = report.period === 'daily' ? 'Daily' : 'Weekly';
+    const workEvents = report.jobs.reduce((sum, job) => sum + job.workCount, 0);
+    const alertsFired = report.jobs.reduce((sum, job) => sum + job.alertsFired, 0);
+    const alertsSuppressed = report.jobs.reduce((sum, job) => sum + job.alertsSuppressed, 0);
+    const window = `${formatUtc(report.startedAt)} - ${formatUtc(report.endedAt)} UTC`;
+    const summary = report.fromBlock !== null && report.toBlock !== null
+        ? `${window}, blocks ${report.fromBlock.toString()}-${report.toBlock.toString()}: ${workEvents} Work events across ${report.jobs.length} jobs, ${alertsFired} alerts fired, ${alertsSuppressed} suppressed.`
+        : `${window}: no blocks were processed.`;
+
+    const fields: AlertField[] = report.jobs.slice(0, MAX_DIGEST_JOB_FIELDS).map(job => ({
+        name: formatJobName(job.address),
+        value: [
+            `Worked ${job.workCount}x`,
+            `longest unworked streak ${job.longestUnworkedStreak.toString()} blocks (${formatBlockDuration(job.longestUnworkedStreak)})`,
+            `workable but unworked ${job.workableUnworkedBlocks.toString()} blocks (${formatBlockDuration(job.workableUnworkedBlocks)})`,
+            `alerts ${job.alertsFired} fired, ${job.alertsSuppressed} suppressed`,
+        ].join(' · '),
+    }));
+    const otherJobs = report.jobs.slice(MAX_DIGEST_JOB_FIELDS);
+    if (otherJobs.length > 0) {
+        fields.push({
+            name: 'Other Jobs',
+            value: `${otherJobs.length} more jobs: ${otherJobs.reduce((sum, job) => sum + job.workCount, 0)} Work events, ${otherJobs.reduce((sum, job) => sum + job.alertsFired, 0)} alerts fired`,
+        });
+    }
+    const shareOf = (count: number) => workEvents > 0 ? ` (${Math.round(count / workEvents * 100)}%)` : '';
+    if (report.networks.length > 0) {
+        fields.push({ name: 'Work by Network', value: report.networks.slice(0, MAX_DIGEST_WORKERS).map(network => `${formatNetworkName(network.id)}: ${network.workCount}${shareOf(network.workCount)}`).join('\n') });
+    }
+    if (report.keepers.length > 0) {
+        fields.push({ name: 'Work by Keeper', value: report.keepers.slice(0, MAX_DIGEST_WORKERS).map(keeper => `${keeper.id}: ${keeper.workCount}${shareOf(keeper.workCount)}`).join('\n') });
+    }
+
+    await sendAlert({
+        kind: 'digest',
+        title: `📊 ${period} Keeper Digest`,
+        summary,
+        severity: 'info',
+        timestamp: Date.now(),
+        fields,
+    });
+}
+
+export async function sendSystemMessage(content: string, isError: boolean = false): Promise<void> {
+    await sendAlert({
+        kind: 'system',
+        title: isError ? '⚠️ keep3r-beep3r' : 'keep3r-beep3r',
+        summary: content,
+        severity: isError ? 'warning' : 'info',
+        timestamp: Date.now(),
+        fields: []
+    });
 }
 
-export async function sendDiscordInitializationMessage(): Promise<void> {
-    await sendDiscordSystemMessage('🚀 keep3r-beep3r monitoring system starting up...');
+export async function sendInitializationMessage(): Promise<void> {
+    logger.info(`Delivering alerts to: ${alertSinks.map(sink => sink.name).join(', ') || 'nowhere'}`);
+    await sendSystemMessage('🚀 keep3r-beep3r monitoring system starting up...');
 }
@@ -0,0 +1,263 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { startFakeChain, FakeChain, FakeJob, FAKE_SEQUENCER_ADDRESS } from './__fixtures__/fake_chain';
+import { startAlertReceiver, AlertReceiver } from './__fixtures__/alert_receiver';
+
+jest.mock('./logger');
+jest.setTimeout(30000);
+
+const STALLING_JOB = '0x67AD4000e73579B9725eE3A149F85C4Af0A61361';
+const IDLE_JOB = '0xc32506E9bB590971671b649d9B8e18CB6260559F';
+
+const text = (value: string) => ethers.hexlify(ethers.toUtf8Bytes(value));
+// ethers answers identical requests from a cache for 250 ms, which would hide freshly mined blocks
+const PROVIDER_CACHE_MS = 300;
+
+// Points the app at the fake chain and the alert receiver, and nowhere else
+function monitorEnv(baseEnv: NodeJS.ProcessEnv, chain: FakeChain, receiver: AlertReceiver, overrides: Record<string, string>): NodeJS.ProcessEnv {
+    return {
+        ...baseEnv,
+        ETHEREUM_RPC_URL: chain.url,
+        ETHEREUM_WS_URL: '',
+        SEQUENCER_ADDRESS: FAKE_SEQUENCER_ADDRESS,
+        CHAIN_ID: '31337',
+        ALERT_WEBHOOK_URL: receiver.url,
+        DISCORD_WEBHOOK_URL: '',
+        SLACK_WEBHOOK_URL: '',
+        TELEGRAM_BOT_TOKEN: '',
+        PAGERDUTY_ROUTING_KEY: '',
+        TARGET_NAME: '',
+        JOB_CONFIG_PATH: '',
+        HTTP_PORT: '0',
+        UNWORKED_BLOCKS_THRESHOLD: '50',
+        WORKABLE_FAILURE_ALERT_THRESHOLD: '3',
+        RPC_MAX_RETRIES: '0',
+        DIGEST_SCHEDULE: 'none',
+        ...overrides,
+    };
+}
+
+// Runs the real app (config, RPC pool, multicall, job and network registries, alerting) against the fake chain;
+// only the chain and the alert webhook are simulated
+describe('app end to end', () => {
+    const originalEnv = process.env;
+    let chain: FakeChain;
+    let receiver: AlertReceiver;
+    let stallingJob: FakeJob;
+    let idleJob: FakeJob;
+    let app: typeof import('./app');
+    let jobManager: typeof import('./job_manager');
+
+    beforeAll(async () => {
+        chain = await startFakeChain({ headBlock: 1000 });
+        receiver = await startAlertReceiver();
+        stallingJob = chain.addJob(STALLING_JOB, { canWork: false, args: text('No work to do') });
+        idleJob = chain.addJob(IDLE_JOB, { canWork: false, args: text('No work to do') });
+        chain.mine();
+        stallingJob.work();
+        idleJob.work();
+        chain.mine(11);
+
+        process.env = monitorEnv(originalEnv, chain, receiver, { STATE_STORE: 'none' });
+        app = require('./app');
+        jobManager = require('./job_manager');
+    });
+
+    async function mineAndProcess(blocks = 1): Promise<void> {
+        chain.mine(blocks);
+        await new Promise(resolve => setTimeout(resolve, PROVIDER_CACHE_MS));
+        await app.runBatches();
+    }
+
+    afterAll(async () => {
+        require('./ethereum').rpcPool.stopHealthChecks();
+        await Promise.all([chain.close(), receiver.close()]);
+        process.env = originalEnv;
+    });
+
+    it('should bootstrap job states from the Sequencer and past Work events', async () => {
+        await expect(app.initialize()).resolves.toBe(BigInt(1012));
+
+        expect(jobManager.jobStates.size).toBe(2);
+        expect(jobManager.jobStates.get(STALLING_JOB)).toEqual(expect.objectContaining({ lastWorkedBlock: BigInt(1002), consecutiveUnworkedBlocks: BigInt(10) }));
+        expect(receiver.take()).toEqual([]);
+    });
+
+    it('should alert once a workable job stalls', async () => {
+        stallingJob.set({ canWork: true, args: '0x' });
+        await mineAndProcess(60);
+
+        // The idle job is unworked just as long, but its reason is ignored
+        expect(receiver.take()).toEqual([
+            expect.objectContaining({ kind: 'job', title: '🛑 Job Stuck Workable', severity: 'critical', dedupKey: STALLING_JOB.toLowerCase() }),
+        ]);
+        expect(jobManager.jobStates.get(STALLING_JOB)!.incident).toEqual(expect.objectContaining({ alertsSent: 1 }));
+    });
+
+    it('should resolve the incident once the job is worked', async () => {
+        stallingJob.work();
+        stallingJob.set({ canWork: false, args: text('No work to do') });
+        await mineAndProcess();
+
+        expect(receiver.take()).toEqual([
+            expect.objectContaining({ title: '✅ Job Resolved', resolved: true, dedupKey: STALLING_JOB.toLowerCase() }),
+        ]);
+        expect(jobManager.jobStates.get(STALLING_JOB)!.incident).toBeNull();
+    });
+
+    it('should alert while workable() reverts and when it recovers', async () => {
+        idleJob.set({ workableRevert: 'Job/oracle-down' });
+        await mineAndProcess(3);
+        const [reverting] = receiver.take();
+        expect(reverting).toEqual(expect.objectContaining({ title: '💥 Job workable() Reverting', dedupKey: `${IDLE_JOB.toLowerCase()}:workable` }));
+        expect(reverting.fields).toContainEqual(expect.objectContaining({ name: 'Revert Reason', value: 'Job/oracle-down' }));
+
+        idleJob.set({ workableRevert: null });
+        await mineAndProcess();
+        expect(receiver.take()).toEqual([expect.objectContaining({ title: '✅ Job workable() Recovered', resolved: true })]);
+    });
+
+    it('should alert when work() reverts although workable() says the job can be worked', async () => {
+        stallingJob.set({ canWork: true, args: '0x', workRevert: 'Job/stale-price' });
+        await mineAndProcess();
+
+        const [mismatch] = receiver.take();
+        expect(mismatch).toEqual(expect.objectContaining({ title: '🧨 Job work() Reverts While Workable', severity: 'critical' }));
+        expect(JSON.stringify(mismatch.fields)).toContain('Job/stale-price');
+    });
+});
+
+// Mainnet chain id and block heights, where Multicall3 serves workable() batches at the processed block numbers
+describe('app end to end on a chain with Multicall3', () => {
+    const originalEnv = process.env;
+    const SIMULATION_CALLER = '0x0000000000000000000000000000000000000001';
+    let chain: FakeChain;
+    let receiver: AlertReceiver;
+    let keeperOnlyJob: FakeJob;
+    let idleJob: FakeJob;
+    let app: typeof import('./app');
+    let ethereum: typeof import('./ethereum');
+
+    beforeAll(async () => {
+        chain = await startFakeChain({ chainId: 1, headBlock: 20000000 });
+        receiver = await startAlertReceiver();
+        // work() only accepts the simulation caller, so a simulation batched through Multicall3 would revert
+        keeperOnlyJob = chain.addJob(STALLING_JOB, { canWork: false, args: text('No work to do'), keepers: [SIMULATION_CALLER] });
+        idleJob = chain.addJob(IDLE_JOB, { canWork: false, args: text('No work to do') });
+        chain.mine();
+        keeperOnlyJob.work();
+        idleJob.work();
+        chain.mine(11);
+
+        process.env = monitorEnv(originalEnv, chain, receiver, { STATE_STORE: 'none', CHAIN_ID: '1', WORK_SIMULATION_FROM: SIMULATION_CALLER });
+        jest.isolateModules(() => {
+            app = require('./app');
+            ethereum = require('./ethereum');
+        });
+    });
+
+    async function mineAndProcess(blocks = 1): Promise<void> {
+        chain.mine(blocks);
+        await new Promise(resolve => setTimeout(resolve, PROVIDER_CACHE_MS));
+        await app.runBatches();
+    }
+
+    afterAll(async () => {
+        ethereum.rpcPool.stopHealthChecks();
+        await Promise.all([chain.close(), receiver.close()]);
+        process.env = originalEnv;
+    });
+
+    it('should decode each job\'s workable() outcome from the Multicall3 batch', async () => {
+        await expect(app.initialize()).resolves.toBe(BigInt(20000012));
+        const batches = chain.multicallBatches();
+        expect(batches).toBeGreaterThan(0);
+
+        idleJob.set({ workableRevert: 'Job/oracle-down' });
+        keeperOnlyJob.set({ canWork: true, args: '0x' });
+        await mineAndProcess(3);
+
+        // The keeper-only job's work() is simulated from the configured caller, so it agrees with workable()
+        const alerts = receiver.take();
+        expect(alerts).toEqual([expect.objectContaining({ title: '💥 Job workable() Reverting', dedupKey: `${IDLE_JOB.toLowerCase()}:workable` })]);
+        expect(alerts[0].fields).toContainEqual(expect.objectContaining({ name: 'Revert Reason', value: 'Job/oracle-down' }));
+        expect(chain.multicallBatches()).toBeGreaterThanOrEqual(batches + 3);
+    });
+
+    it('should simulate work() from the configured caller and report its revert reason', async () => {
+        keeperOnlyJob.set({ workRevert: 'Job/stale-price' });
+        await mineAndProcess();
+
+        const [mismatch] = receiver.take();
+        expect(mismatch).toEqual(expect.objectContaining({ title: '🧨 Job work() Reverts While Workable', severity: 'critical' }));
+        expect(JSON.stringify(mismatch.fields)).toContain('Job/stale-price');
+        expect(JSON.stringify(mismatch.fields)).not.toContain('Job/not-keeper');
+    });
+});
+
+// Each run loads its own copy of every module, like a fresh process started by the scheduler
+describe('run-once', () => {
+    const originalEnv = process.env;
+    let chain: FakeChain;
+    let receiver: AlertReceiver;
+    let job: FakeJob;
+    let tmpDir: string;
+
+    const runOnce = (): Promise<boolean> => {
+        let app!: typeof import('./app');
+        jest.isolateModules(() => {
+            app = require('./app');
+        });
+        return app.runOnce();
+    };
+
+    const savedBlock = (): bigint => BigInt(JSON.parse(fs.readFileSync(path.join(tmpDir, 'state.json'), 'utf8')).lastProcessedBlock.$bigint);
+
+    beforeAll(async () => {
+        chain = await startFakeChain({ headBlock: 5000 });
+        receiver = await startAlertReceiver();
+        job = chain.addJob(STALLING_JOB, { canWork: false, args: text('No work to do') });
+        job.work();
+        chain.mine(5);
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beep3r-run-once-'));
+        process.env = monitorEnv(originalEnv, chain, receiver, { STATE_STORE: 'json', STATE_STORE_PATH: path.join(tmpDir, 'state.json'), STATE_MAX_AGE_BLOCKS: '50' });
+    });
+
+    afterAll(async () => {
+        await Promise.all([chain.close(), receiver.close()]);
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+        process.env = originalEnv;
+    });
+
+    it('should bootstrap on the first run and save where it stopped', async () => {
+        await expect(runOnce()).resolves.toBe(true);
+        expect(savedBlock()).toBe(BigInt(5005));
+        expect(receiver.take()).toEqual([]);
+    });
+
+    it('should process every block since the previous run, across several batches and beyond the snapshot age limit', async () => {
+        job.set({ canWork: true, args: '0x' });
+        chain.mine(80);
+
+        await expect(runOnce()).resolves.toBe(true);
+        expect(savedBlock()).toBe(BigInt(5085));
+        expect(receiver.take()).toEqual([expect.objectContaining({ title: '🛑 Job Stuck Workable' })]);
+    });
+
+    it('should fail and keep the blocks whose alert was not delivered for the next run', async () => {
+        job.work();
+        job.set({ canWork: false, args: text('No work to do') });
+        chain.mine(10);
+        receiver.respondWith(503);
+
+        await expect(runOnce()).resolves.toBe(false);
+        expect(savedBlock()).toBe(BigInt(5085));
+
+        receiver.respondWith(200);
+        await expect(runOnce()).resolves.toBe(true);
+        expect(savedBlock()).toBe(BigInt(5095));
+        expect(receiver.take()).toEqual([expect.objectContaining({ title: '✅ Job Resolved' })]);
+    });
+});
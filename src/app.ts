@@ -1,104 +1,247 @@
-import { multicallProvider } from './ethereum';
-import { getActiveJobs, initializeJobStates, cleanupInactiveJobs, jobStates } from './job_manager';
-import { processNewBlocks } from './block_processor';
-import { BLOCK_CHECK_INTERVAL, BLOCK_BATCH_INTERVAL_MINUTES, MAX_JOB_AGE } from './config';
-import { logWithTimestamp } from './utils';
-import { sendDiscordInitializationMessage } from './alerting'; // Import the new function
+import { initializeContracts, multicallProvider, rpcPool } from './ethereum';
+import { getActiveJobs, initializeJobStates, cleanupInactiveJobs, jobStates, restoreJobStates } from './job_manager';
+import { processNewBlocks, getSettledBlockNumber } from './block_processor';
+import { CHAIN_ID, SEQUENCER_ADDRESS, STATE_STORE, BLOCK_CHECK_INTERVAL, BLOCK_BATCH_INTERVAL_MINUTES, MAX_JOB_AGE, STATE_MAX_AGE_BLOCKS, HTTP_PORT, ADMIN_API_TOKEN, RPC_HEALTH_CHECK_INTERVAL_MS, ETHEREUM_WS_URL, WS_STALL_TIMEOUT_MS, WS_RECONNECT_DELAY_MS } from './config';
+import { createLogger } from './logger';
+import { sendInitializationMessage, updateAlertSource } from './alerting'; // Import the new function
+import { loadPersistedState, persistState } from './state_store';
+import { loadNetworks, restoreNetworkCounters } from './network_manager';
+import { restoreWorkStats } from './work_stats';
+import { loadJobConfig } from './job_config';
+import { restoreSilences } from './silences';
+import { restoreDigests, sendDueDigests } from './digest';
+import { startHttpServer } from './http_server';
+import { registerAdminRoutes } from './admin_api';
+import { registerStatusRoutes, markProviderConnected, markJobsInitialized, recordBatchProgress } from './health';
+import { registerMetricsRoute, timeRpc, setHeadSubscriptionLive } from './metrics';
+import { startHeadSubscription, HeadSubscription } from './head_subscription';
+
+const logger = createLogger('app');
 
 let lastProcessedBlock: bigint | null = null;
 let blockProcessingInterval: NodeJS.Timeout | null = null;
 let cleanupJobsInterval: NodeJS.Timeout | null = null;
+let headSubscription: HeadSubscription | null = null;
+// A head arriving while a run is in flight asks for one more run afterwards instead of being dropped
+let batchRunning = false;
+let batchRequested = false;
 
+async function processPendingBlocks() {
+    try {
+        logger.debug("Starting processNewBlocks run");
+        if (lastProcessedBlock !== null) {
+            const result = await processNewBlocks(lastProcessedBlock, BLOCK_BATCH_INTERVAL_MINUTES, BLOCK_CHECK_INTERVAL);
+            lastProcessedBlock = result.lastProcessedBlock;
+            recordBatchProgress(lastProcessedBlock);
+            if (result.caughtUp) {
+                await sendDigests();
+            }
+        } else {
+            logger.warn("lastProcessedBlock is not initialized yet");
+        }
+        logger.debug("Finished processNewBlocks run", { lastProcessedBlock });
+    } catch (error) {
+        logger.error("Error in processNewBlocks run", { error });
+    }
+}
+
+// Digests cover the blocks processed so far, so they are only sent once processing has caught up.
+// The started periods are saved right away so a restart does not send them twice.
+async function sendDigests() {
+    if (await sendDueDigests()) {
+        await persistState(lastProcessedBlock!);
+    }
+}
+
+// Entry point for both the polling timer and new heads; runs never overlap
+async function runBatches() {
+    if (batchRunning) {
+        batchRequested = true;
+        return;
+    }
+    batchRunning = true;
+    try {
+        do {
+            batchRequested = false;
+            await processPendingBlocks();
+        } while (batchRequested);
+    } finally {
+        batchRunning = false;
+    }
+}
 
 async function setupIntervals() {
-    logWithTimestamp("[Interval Setup] Starting setupIntervals function...", "info"); // START LOG
+    logger.debug("Setting up intervals");
     const batchIntervalMs = BLOCK_BATCH_INTERVAL_MINUTES * 60 * 1000;
 
-    blockProcessingInterval = setInterval(async () => {
-        try {
-            logWithTimestamp("[Interval] Starting processNewBlocks interval execution.", "info"); // Added start log
-            if (lastProcessedBlock !== null) {
-                const result = await processNewBlocks(lastProcessedBlock, BLOCK_BATCH_INTERVAL_MINUTES, BLOCK_CHECK_INTERVAL);
-                lastProcessedBlock = result.lastProcessedBlock;
-            } else {
-                logWithTimestamp("[Interval] lastProcessedBlock is not initialized yet.");
-            }
-            logWithTimestamp("[Interval] Finished processNewBlocks interval execution.", "info"); // Added finish log
-        } catch (error) {
-            logWithTimestamp(`[Interval Error] Error in processNewBlocks interval: ${error}`, "error");
-            console.error("Error in processNewBlocks interval:", error); // Keep console.error for more critical errors
+    blockProcessingInterval = setInterval(() => {
+        // Polling is only the fallback while the head subscription is live
+        if (headSubscription?.isLive()) {
+            logger.debug("Head subscription is live, skipping poll");
+            return;
         }
+        runBatches();
     }, batchIntervalMs);
-    logWithTimestamp(`[Interval Setup] processNewBlocks interval set to ${BLOCK_BATCH_INTERVAL_MINUTES} minutes.`);
+    logger.info(`processNewBlocks interval set to ${BLOCK_BATCH_INTERVAL_MINUTES} minute(s)`);
+
+    if (ETHEREUM_WS_URL) {
+        // Each new head (including the first one after a reconnect) catches up from lastProcessedBlock
+        headSubscription = startHeadSubscription({
+            url: ETHEREUM_WS_URL,
+            stallTimeoutMs: WS_STALL_TIMEOUT_MS,
+            reconnectDelayMs: WS_RECONNECT_DELAY_MS,
+            onHead: () => { runBatches(); },
+            onLiveChange: setHeadSubscriptionLive,
+        });
+        logger.info("Processing blocks as new heads arrive, polling while the subscription is down");
+    }
 
     cleanupJobsInterval = setInterval(() => {
         try {
-            logWithTimestamp("[Interval] Starting cleanupInactiveJobs interval execution.", "info"); // Added start log
+            logger.debug("Starting cleanupInactiveJobs interval execution");
             cleanupInactiveJobs(MAX_JOB_AGE);
-            logWithTimestamp("[Interval] Finished cleanupInactiveJobs interval execution.", "info"); // Added finish log
         } catch (error) {
-            logWithTimestamp(`[Interval Error] Error in cleanupInactiveJobs interval: ${error}`, "error");
-            console.error("Error in cleanupInactiveJobs interval:", error); // Keep console.error for more critical errors
+            logger.error("Error in cleanupInactiveJobs interval", { error });
         }
     }, BLOCK_CHECK_INTERVAL * 4);
-    logWithTimestamp(`[Interval Setup] cleanupInactiveJobs interval set to ${BLOCK_CHECK_INTERVAL * 4} ms.`);
-    logWithTimestamp("[Interval Setup] All intervals have been set up."); // Added log to confirm all intervals are set
-    logWithTimestamp("[Interval Setup] setupIntervals function completed SUCCESSFULLY."); // SUCCESS LOG
+    logger.info(`cleanupInactiveJobs interval set to ${BLOCK_CHECK_INTERVAL * 4} ms`);
 }
 
 
-async function main() {
-    logWithTimestamp("[App] Starting main application...", "info"); // Added start log
-    logWithTimestamp("[App] Calling multicallProvider.getNetwork()...", "info"); // STEP LOG
-    try {
-        const network = await multicallProvider.getNetwork();
-        logWithTimestamp(`[App] Connected to Ethereum network: ${network.name} (chainId: ${network.chainId})`, "success"); // SUCCESS LOG
-        logWithTimestamp("[App] Calling multicallProvider.getBlockNumber()...", "info"); // STEP LOG
+// Connects to the chain, loads the Sequencer's jobs and networks and resumes or bootstraps the job states.
+// Returns the block processing continues after; blocks are only processed by runBatches() or runOnce().
+// The HTTP server and RPC health checks only run when longRunning is set.
+async function initialize(longRunning = true): Promise<bigint> {
+    // Validate the job config before touching the chain so a bad file fails immediately
+    logger.debug("Calling loadJobConfig()");
+    loadJobConfig();
+
+    // Serve /healthz early; /readyz reports not ready until initialization is done
+    if (longRunning && HTTP_PORT > 0) {
+        logger.debug("Calling startHttpServer()", { port: HTTP_PORT });
+        registerStatusRoutes();
+        registerMetricsRoute();
+        await startHttpServer(HTTP_PORT);
+    }
+    initializeContracts();
+    logger.debug("Calling multicallProvider.getNetwork()");
+    const network = await multicallProvider.getNetwork();
+    logger.info(`Connected to Ethereum network: ${network.name}`, { chainId: network.chainId, sequencer: SEQUENCER_ADDRESS });
+    if (CHAIN_ID !== null && network.chainId !== CHAIN_ID) {
+        throw new Error(`RPC endpoint serves chain ${network.chainId.toString()}, expected CHAIN_ID ${CHAIN_ID.toString()}`);
+    }
+    updateAlertSource({ chain: `${network.name} (${network.chainId.toString()})` });
+    markProviderConnected();
+    await rpcPool.checkHeads();
+    if (longRunning) {
+        rpcPool.startHealthChecks(RPC_HEALTH_CHECK_INTERVAL_MS);
+    }
+    logger.debug("Calling multicallProvider.getBlockNumber()");
 
-        const blockNumber = await multicallProvider.getBlockNumber();
-        logWithTimestamp(`[App] Current block number: ${blockNumber}`, "success"); // SUCCESS LOG
-        logWithTimestamp("[App] Calling getActiveJobs()...", "info"); // STEP LOG
+    const blockNumber = await timeRpc('getBlockNumber', () => multicallProvider.getBlockNumber());
+    logger.info("Fetched current block number", { block: blockNumber });
+    logger.debug("Calling loadNetworks()");
 
-        const activeJobs = await getActiveJobs();
-        logWithTimestamp(`[App] Active Jobs: ${activeJobs}`, "success"); // SUCCESS LOG
-        logWithTimestamp("[App] Calling initializeJobStates()...", "info"); // STEP LOG
+    const networks = await loadNetworks(BigInt(blockNumber));
+    logger.info(`Keeper networks: ${networks.map(network => network.name).join(', ')}`);
+    logger.debug("Calling loadPersistedState()");
 
-        await initializeJobStates(activeJobs);
-        logWithTimestamp("[App] initializeJobStates() completed.", "success"); // SUCCESS LOG
-        logWithTimestamp("[App] Calling multicallProvider.getBlockNumber() again for lastProcessedBlock init...", "info"); // STEP LOG
+    const snapshot = await loadPersistedState();
+    // Silences are not tied to the chain position, so they are kept even when the snapshot is too old to resume
+    restoreSilences(snapshot?.silences ?? []);
+    restoreDigests(snapshot?.digests ?? []);
+    const snapshotAge = snapshot ? BigInt(blockNumber) - snapshot.lastProcessedBlock : null;
+    // A scheduled run owes every block since the previous run, however long ago that was
+    const maxSnapshotAge = longRunning ? STATE_MAX_AGE_BLOCKS : null;
 
-        lastProcessedBlock = BigInt(await multicallProvider.getBlockNumber());
-        logWithTimestamp(`[App] Last processed block initialized to: ${lastProcessedBlock.toString()} (current block after init)`, "success"); // SUCCESS LOG
-        logWithTimestamp(`[App] Job states initialized: ${JSON.stringify(Array.from(jobStates.values()).map(state => ({ ...state, lastWorkedBlock: state.lastWorkedBlock.toString(), consecutiveUnworkedBlocks: state.consecutiveUnworkedBlocks.toString(), lastCheckedBlock: state.lastCheckedBlock.toString() }))) }`, "success");
-        logWithTimestamp(`[App] Block batch interval: ${BLOCK_BATCH_INTERVAL_MINUTES} minute(s)`, "info");
-        logWithTimestamp("[App] Calling sendDiscordInitializationMessage()...", "info"); // STEP LOG
+    if (snapshot && snapshotAge !== null && snapshotAge >= BigInt(0) && (maxSnapshotAge === null || snapshotAge <= maxSnapshotAge)) {
+        logger.info(`Snapshot is ${snapshotAge.toString()} blocks old (max ${maxSnapshotAge?.toString() ?? 'unlimited'}), resuming without bootstrap scan`);
+        // The jobs registered where processing resumes; later AddJob/RemoveJob events are applied as blocks are processed
+        const activeJobs = await getActiveJobs(snapshot.lastProcessedBlock);
+        logger.info(`Found ${activeJobs.length} active jobs`, { jobs: activeJobs, block: snapshot.lastProcessedBlock });
+        const missingJobs = restoreJobStates(snapshot.jobStates, activeJobs);
+        restoreWorkStats(snapshot.keeperStats ?? [], snapshot.networkWorkStats ?? []);
+        restoreNetworkCounters(snapshot.networks ?? []);
+        if (missingJobs.length > 0) {
+            logger.info(`Calling initializeJobStates() for ${missingJobs.length} jobs missing from snapshot`);
+            await initializeJobStates(missingJobs, snapshot.lastProcessedBlock);
+        }
+        lastProcessedBlock = snapshot.lastProcessedBlock;
+        logger.info("Last processed block resumed from snapshot", { block: lastProcessedBlock });
+    } else {
+        if (snapshot) {
+            logger.warn(`Snapshot is too old or ahead of chain (${snapshotAge!.toString()} blocks), falling back to bootstrap scan`);
+        }
+        logger.debug("Calling getSettledBlockNumber() for bootstrap and lastProcessedBlock init");
+
+        const settledBlock = await getSettledBlockNumber();
+        const activeJobs = await getActiveJobs(settledBlock);
+        logger.info(`Found ${activeJobs.length} active jobs`, { jobs: activeJobs, block: settledBlock });
+        logger.debug("Calling initializeJobStates()");
+
+        await initializeJobStates(activeJobs, settledBlock);
+
+        lastProcessedBlock = settledBlock;
+        logger.info("Last processed block initialized to the settled block", { block: lastProcessedBlock });
+        await persistState(lastProcessedBlock);
+    }
+    logger.info(`Job states initialized for ${jobStates.size} jobs`);
+    logger.debug("Initialized job states", { jobStates: Array.from(jobStates.values()) });
 
+    markJobsInitialized(lastProcessedBlock!);
+    return lastProcessedBlock!;
+}
+
+// Scheduled mode (cron, Kubernetes CronJob, serverless): resumes from the persisted state, processes every settled
+// block since the previous run and returns. processNewBlocks saves the state after each batch, so a failed run
+// leaves it at the last completed batch and the next run picks up from there.
+async function runOnce(): Promise<boolean> {
+    if (STATE_STORE === 'none') {
+        throw new Error('run-once needs a durable state store to know where the previous run stopped (STATE_STORE is none)');
+    }
+    const startBlock = await initialize(false);
+    const result = await processNewBlocks(startBlock, BLOCK_BATCH_INTERVAL_MINUTES, BLOCK_CHECK_INTERVAL);
+    lastProcessedBlock = result.lastProcessedBlock;
+    if (result.caughtUp) {
+        await sendDigests();
+        logger.info(`Run complete, processed blocks ${(startBlock + BigInt(1)).toString()}-${lastProcessedBlock.toString()}`);
+    } else {
+        logger.error(`Run stopped early at block ${lastProcessedBlock.toString()}; the next run continues from there`);
+    }
+    return result.caughtUp;
+}
+
+async function main() {
+    logger.info("Starting main application");
+    try {
+        await initialize();
+
+        // Admin routes only go live once persisted silences have been restored
+        if (HTTP_PORT > 0 && ADMIN_API_TOKEN) {
+            registerAdminRoutes(ADMIN_API_TOKEN);
+        } else if (HTTP_PORT > 0) {
+            logger.warn("ADMIN_API_TOKEN not set, admin API disabled");
+        }
 
-        logWithTimestamp("[App] Calling setupIntervals()...", "info"); // STEP LOG
+        logger.debug("Calling setupIntervals()");
         try {
             await setupIntervals(); // Start the intervals
-            logWithTimestamp("[App] setupIntervals() completed SUCCESSFULLY.", "success"); // SUCCESS LOG
         } catch (intervalsError) {
-            logWithTimestamp(`[App] ERROR in setupIntervals(): ${intervalsError}`, "error"); // ERROR LOG for intervals setup
-            console.error("Error during setupIntervals:", intervalsError);
+            logger.fatal("Error during setupIntervals", { error: intervalsError });
             if (blockProcessingInterval) clearInterval(blockProcessingInterval);
             if (cleanupJobsInterval) clearInterval(cleanupJobsInterval);
+            await headSubscription?.stop();
             process.exit(1);
         }
 
 
-        logWithTimestamp("[App] Intervals setup completed.", "success");
-        logWithTimestamp("[App] Application initialization completed successfully.", "success"); // More explicit success log
-        logWithTimestamp("[App] Entering main application loop. Intervals are now running.", "info"); // Added log to indicate main loop entry
+        logger.info("Application initialization completed, intervals are now running");
 
         // Keep the main function running indefinitely
         await new Promise<void>(() => {}); // Prevents main() from completing
 
-        // The following line will not be reached
-        // logWithTimestamp("[App] Main function finished execution. This line should NOT be logged in normal operation.");
     } catch (error) {
-        logWithTimestamp(`[Fatal Error] Application initialization failed: ${error}`, "fatal");
-        console.error("Fatal error during application initialization:", error); // More descriptive error log
+        logger.fatal("Application initialization failed", { error });
         if (blockProcessingInterval) clearInterval(blockProcessingInterval); // Clear intervals in case of fatal error
         if (cleanupJobsInterval) clearInterval(cleanupJobsInterval);
         process.exit(1);
@@ -106,11 +249,10 @@ async function main() {
 }
 
 // Global unhandled rejection handler
-process.on('unhandledRejection', (reason, promise) => {
-    console.error('Unhandled Rejection at:', promise, 'reason:', reason);
-    logWithTimestamp(`[Unhandled Rejection] Promise: ${promise}, Reason: ${reason}`, "error");
+process.on('unhandledRejection', (reason) => {
+    logger.error("Unhandled promise rejection", { error: reason });
     // Optionally, decide if you want to exit the process here. For now, let's log and continue.
 });
 
 
-export { main };
+export { main, initialize, runBatches, runOnce };
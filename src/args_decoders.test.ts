@@ -0,0 +1,51 @@
+import { ethers } from 'ethers';
+import { clearArgsDecoders, decodeArgs, registerArgsDecoder, resolveArgsDecoder } from './args_decoders';
+
+jest.mock('./logger');
+
+const JOB = '0x67AD4000e73579B9725eE3A149F85C4Af0A61361';
+const OTHER_JOB = '0xc32506E9bB590971671b649d9B8e18CB6260559F';
+
+describe('args_decoders', () => {
+    afterEach(() => {
+        clearArgsDecoders();
+    });
+
+    it('should decode plain text, Error(string) and ABI strings for every job', () => {
+        expect(decodeArgs(ethers.hexlify(ethers.toUtf8Bytes('No ilks ready')))).toEqual({ text: 'No ilks ready', fields: {}, decoder: 'text' });
+        const errorString = ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Job/not-master'])]);
+        expect(decodeArgs(errorString)).toEqual({ text: 'Job/not-master', fields: { error: 'Job/not-master' }, decoder: 'error' });
+        expect(decodeArgs(ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['No work to do'])).text).toBe('No work to do');
+    });
+
+    it('should fall back to hex for payloads nobody recognises', () => {
+        const target = ethers.zeroPadValue(OTHER_JOB, 32);
+        expect(decodeArgs(target)).toEqual({ text: `Non-UTF8 args: ${target}`, fields: {}, decoder: 'hex' });
+        // Zero padding alone does not make text unreadable
+        expect(decodeArgs(ethers.encodeBytes32String('ETH-A')).text).toBe('ETH-A');
+        expect(decodeArgs('0xzz').text).toBe('Non-UTF8 args: 0xzz');
+    });
+
+    it('should decode known job payloads with the job\'s decoder', () => {
+        expect(decodeArgs(ethers.encodeBytes32String('ETH-A'), 'ilk')).toEqual({ text: 'ilk ETH-A ready', fields: { ilk: 'ETH-A' }, decoder: 'ilk' });
+        expect(decodeArgs(ethers.zeroPadValue(OTHER_JOB, 32), 'address')).toEqual({ text: `target ${OTHER_JOB}`, fields: { target: OTHER_JOB }, decoder: 'address' });
+        expect(decodeArgs('0xa9059cbb0000000000000000000000000000000000000000000000000000000000000001', 'calldata').fields).toEqual({ selector: '0xa9059cbb' });
+        // A payload without the decoder's shape still gets the generic treatment
+        expect(decodeArgs(ethers.hexlify(ethers.toUtf8Bytes('No ilks ready')), 'ilk').text).toBe('No ilks ready');
+    });
+
+    it('should look decoders up by job address first, then by bytecode hash', async () => {
+        const code = '0x6080604052';
+        const provider = { getCode: jest.fn().mockResolvedValue(code) } as unknown as ethers.Provider;
+        registerArgsDecoder({ address: JOB }, 'ilk');
+        await expect(resolveArgsDecoder(OTHER_JOB, provider)).resolves.toBeNull();
+        expect(provider.getCode).not.toHaveBeenCalled(); // Nothing registered by hash yet
+
+        registerArgsDecoder({ codeHash: ethers.keccak256(code) }, 'address');
+        await expect(resolveArgsDecoder(JOB.toLowerCase(), provider)).resolves.toBe('ilk');
+        await expect(resolveArgsDecoder(OTHER_JOB, provider)).resolves.toBe('address');
+        await expect(resolveArgsDecoder(OTHER_JOB, provider)).resolves.toBe('address');
+        expect(provider.getCode).toHaveBeenCalledTimes(1);
+        expect(() => registerArgsDecoder({ address: JOB }, 'ilks')).toThrow('Unknown args decoder "ilks"');
+    });
+});
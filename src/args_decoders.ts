@@ -0,0 +1,143 @@
+import { ethers } from 'ethers';
+import { createLogger } from './logger';
+
+const logger = createLogger('args_decoders');
+
+// workable() args in readable form. `text` is what alerts show and ignored reasons are matched against.
+export interface DecodedArgs {
+    text: string;
+    fields: Record<string, string>; // Structured values, e.g. { ilk: 'ETH-A' }
+    decoder: string; // Name of the decoder that produced it
+}
+
+// Decodes one kind of payload, or returns null when the bytes do not have its shape
+type ArgsDecoder = (argsBytes: string) => Omit<DecodedArgs, 'decoder'> | null;
+
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/;
+
+function toReadableText(text: string): string | null {
+    const trimmed = text.replace(/\u0000+$/, '');
+    return CONTROL_CHARACTERS.test(trimmed) ? null : trimmed;
+}
+
+function decodeUtf8(argsBytes: string): string | null {
+    try {
+        return toReadableText(new TextDecoder('utf-8', { fatal: true }).decode(ethers.getBytes(argsBytes)));
+    } catch (e) {
+        return null;
+    }
+}
+
+function decodeAbiString(data: string): string | null {
+    try {
+        return toReadableText(ethers.AbiCoder.defaultAbiCoder().decode(['string'], data)[0]);
+    } catch (e) {
+        return null;
+    }
+}
+
+function isWord(argsBytes: string): boolean {
+    return ethers.isHexString(argsBytes, 32);
+}
+
+// Payloads of known jobs, selected per job or bytecode hash
+const JOB_DECODERS: Record<string, ArgsDecoder> = {
+    // bytes32 collateral type, e.g. AutoLine and D3M jobs
+    ilk: argsBytes => {
+        if (!isWord(argsBytes)) {
+            return null;
+        }
+        let ilk: string;
+        try {
+            ilk = ethers.decodeBytes32String(argsBytes);
+        } catch (e) {
+            return null;
+        }
+        return ilk && toReadableText(ilk) === ilk ? { text: `ilk ${ilk} ready`, fields: { ilk } } : null;
+    },
+    // A single ABI-encoded address, e.g. the contract a Lerp or ClipperMom job acts on
+    address: argsBytes => {
+        if (!isWord(argsBytes) || !/^0x0{24}/.test(argsBytes)) {
+            return null;
+        }
+        const target = ethers.getAddress(ethers.dataSlice(argsBytes, 12));
+        return { text: `target ${target}`, fields: { target } };
+    },
+    // Calldata the keeper is expected to pass on
+    calldata: argsBytes => {
+        if (!ethers.isHexString(argsBytes) || ethers.dataLength(argsBytes) < 4) {
+            return null;
+        }
+        const selector = ethers.dataSlice(argsBytes, 0, 4);
+        return { text: `call ${selector} with ${ethers.dataLength(argsBytes) - 4} bytes of arguments`, fields: { selector } };
+    },
+};
+
+// Tried for every job after its own decoder, in order
+const GENERIC_DECODERS: Array<[string, ArgsDecoder]> = [
+    ['error', argsBytes => {
+        const message = argsBytes.toLowerCase().startsWith(ERROR_STRING_SELECTOR) ? decodeAbiString(ethers.dataSlice(argsBytes, 4)) : null;
+        return message !== null ? { text: message, fields: { error: message } } : null;
+    }],
+    ['text', argsBytes => {
+        const text = decodeUtf8(argsBytes);
+        return text !== null ? { text, fields: {} } : null;
+    }],
+    ['string', argsBytes => {
+        const text = ethers.isHexString(argsBytes) && ethers.dataLength(argsBytes) >= 64 ? decodeAbiString(argsBytes) : null;
+        return text !== null ? { text, fields: {} } : null;
+    }],
+];
+
+export const ARGS_DECODER_NAMES = Object.keys(JOB_DECODERS);
+
+// Decoder names by lowercased job address and by keccak256 of the job's deployed bytecode
+const decodersByAddress: Map<string, string> = new Map();
+const decodersByCodeHash: Map<string, string> = new Map();
+// Bytecode hashes of jobs looked up so far; only fetched while decoders are registered by hash
+const jobCodeHashes: Map<string, string> = new Map();
+
+export function registerArgsDecoder(key: { address: string } | { codeHash: string }, name: string): void {
+    if (!JOB_DECODERS[name]) {
+        throw new Error(`Unknown args decoder "${name}" (expected ${ARGS_DECODER_NAMES.join(', ')})`);
+    }
+    if ('address' in key) {
+        decodersByAddress.set(key.address.toLowerCase(), name);
+    } else {
+        decodersByCodeHash.set(key.codeHash.toLowerCase(), name);
+    }
+}
+
+export function clearArgsDecoders(): void {
+    decodersByAddress.clear();
+    decodersByCodeHash.clear();
+}
+
+// Finds the decoder registered for the job, by address first, then by bytecode hash
+export async function resolveArgsDecoder(jobAddress: string, provider: ethers.Provider | null): Promise<string | null> {
+    const address = jobAddress.toLowerCase();
+    const byAddress = decodersByAddress.get(address);
+    if (byAddress || decodersByCodeHash.size === 0 || !provider) {
+        return byAddress ?? null;
+    }
+    let codeHash = jobCodeHashes.get(address);
+    if (!codeHash) {
+        codeHash = ethers.keccak256(await provider.getCode(jobAddress));
+        jobCodeHashes.set(address, codeHash);
+        logger.debug('Fetched job bytecode hash', { job: jobAddress, codeHash });
+    }
+    return decodersByCodeHash.get(codeHash) ?? null;
+}
+
+// Decodes workable() args with the job's decoder, then Error(string), UTF-8 text or an ABI string; anything else stays hex
+export function decodeArgs(argsBytes: string, decoderName: string | null = null): DecodedArgs {
+    const decoders: Array<[string, ArgsDecoder]> = decoderName && JOB_DECODERS[decoderName] ? [[decoderName, JOB_DECODERS[decoderName]], ...GENERIC_DECODERS] : GENERIC_DECODERS;
+    for (const [name, decoder] of decoders) {
+        const decoded = decoder(argsBytes);
+        if (decoded) {
+            return { ...decoded, decoder: name };
+        }
+    }
+    return { text: `Non-UTF8 args: ${argsBytes}`, fields: {}, decoder: 'hex' };
+}
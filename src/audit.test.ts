@@ -0,0 +1,121 @@
+import { parseAuditArgs, scanWorkEvents, buildJobAudit, formatAuditCsv, formatAuditJson, formatAuditTable, AuditReport, AuditUsageError } from './audit';
+import { buildWorkLogIndex, WorkRecord } from './job_manager';
+
+jest.mock('./logger');
+jest.mock('./ethereum', () => ({ provider: {} }));
+jest.mock('./alerting', () => ({ muteAlerts: jest.fn() }));
+jest.mock('./job_config', () => ({ loadJobConfig: jest.fn(), getJobConfig: jest.fn() }));
+jest.mock('./job_manager', () => ({
+    MAX_BLOCKS_PER_QUERY: 999,
+    getActiveJobs: jest.fn(),
+    buildWorkLogIndex: jest.fn(),
+}));
+
+const JOB = '0x1234567890123456789012345678901234567890';
+const KEEPER = '0x0000000000000000000000000000000000000001';
+const MAINNET = '0x6d61696e6e657400000000000000000000000000000000000000000000000000';
+
+function work(blockNumber: number): WorkRecord {
+    return { network: MAINNET, keeper: KEEPER, blockNumber: BigInt(blockNumber), transactionHash: `0x${blockNumber.toString(16)}` };
+}
+
+describe('audit', () => {
+    describe('parseAuditArgs', () => {
+        it('should parse the block range, jobs and format', () => {
+            const options = parseAuditArgs(['--from', '100', '--to', '200', '--job', JOB, '--format', 'csv']);
+
+            expect(options).toEqual({ fromBlock: BigInt(100), toBlock: BigInt(200), jobs: [JOB], format: 'csv', top: 5 });
+        });
+
+        it('should reject missing or invalid arguments', () => {
+            expect(() => parseAuditArgs(['--from', '100'])).toThrow(AuditUsageError);
+            expect(() => parseAuditArgs(['--from', '200', '--to', '100'])).toThrow('is after --to');
+            expect(() => parseAuditArgs(['--from', '100', '--to', '200', '--job', 'not-an-address'])).toThrow('--job expects a job address');
+            expect(() => parseAuditArgs(['--from', '100', '--to', '200', '--format', 'xml'])).toThrow('--format expects');
+        });
+    });
+
+    describe('buildJobAudit', () => {
+        it('should rebuild unworked streaks and threshold breaches between Work events', () => {
+            const audit = buildJobAudit(JOB, [work(150), work(120)], BigInt(100), BigInt(200), BigInt(25));
+
+            expect(audit.works.map(record => record.blockNumber)).toEqual([BigInt(120), BigInt(150)]);
+            expect(audit.streaks.map(streak => [streak.startBlock, streak.endBlock, streak.blocks])).toEqual([
+                [BigInt(151), BigInt(200), BigInt(50)],
+                [BigInt(121), BigInt(149), BigInt(29)],
+                [BigInt(100), BigInt(119), BigInt(20)],
+            ]);
+            expect(audit.streaks[0]).toEqual(expect.objectContaining({ endedBy: null, startsBeforeRange: false }));
+            expect(audit.streaks[2].startsBeforeRange).toBe(true);
+            expect(audit.breaches).toEqual([
+                { block: BigInt(145), lastWorkedBlock: BigInt(120), resolvedAtBlock: BigInt(150), unworkedBlocks: BigInt(29) },
+                { block: BigInt(175), lastWorkedBlock: BigInt(150), resolvedAtBlock: null, unworkedBlocks: BigInt(50) },
+            ]);
+        });
+
+        it('should count a range without Work as one open streak', () => {
+            const audit = buildJobAudit(JOB, [], BigInt(100), BigInt(109), BigInt(10));
+
+            expect(audit.streaks).toEqual([{ startBlock: BigInt(100), endBlock: BigInt(109), blocks: BigInt(10), endedBy: null, startsBeforeRange: true }]);
+            expect(audit.breaches).toEqual([{ block: BigInt(109), lastWorkedBlock: null, resolvedAtBlock: null, unworkedBlocks: BigInt(10) }]);
+        });
+
+        it('should not report a breach when Work resets the count in time', () => {
+            const audit = buildJobAudit(JOB, [work(109), work(110)], BigInt(100), BigInt(115), BigInt(10));
+
+            expect(audit.breaches).toEqual([]);
+            expect(audit.streaks.map(streak => streak.blocks)).toEqual([BigInt(9), BigInt(5)]);
+        });
+    });
+
+    describe('scanWorkEvents', () => {
+        it('should fetch Work events in chunks below 1000 blocks', async () => {
+            (buildWorkLogIndex as jest.Mock).mockImplementation(async (_jobs: string[], fromBlock: bigint, toBlock: bigint) => ({
+                fromBlock,
+                toBlock,
+                byJob: new Map(fromBlock === BigInt(1999) ? [[JOB.toLowerCase(), [work(2500)]]] : []),
+            }));
+
+            const works = await scanWorkEvents([JOB], BigInt(1000), BigInt(3000), {} as any);
+
+            expect((buildWorkLogIndex as jest.Mock).mock.calls.map(call => [call[1], call[2]])).toEqual([
+                [BigInt(1000), BigInt(1998)],
+                [BigInt(1999), BigInt(2997)],
+                [BigInt(2998), BigInt(3000)],
+            ]);
+            expect(works.get(JOB.toLowerCase())).toEqual([work(2500)]);
+        });
+    });
+
+    describe('formatters', () => {
+        const report: AuditReport = {
+            fromBlock: BigInt(100),
+            toBlock: BigInt(200),
+            jobs: [buildJobAudit(JOB, [work(150)], BigInt(100), BigInt(200), BigInt(25), 'Harvest, vault A')],
+        };
+
+        it('should list streaks, breaches and keepers in the table', () => {
+            const table = formatAuditTable(report);
+
+            expect(table).toContain('Harvest, vault A (0x1234567890123456789012345678901234567890)  threshold 25, 1 Work events, 2 threshold breaches');
+            expect(table).toMatch(/>=50\s+100\s+149\s+block 150 by 0x0+1 \(mainnet\)/);
+            expect(table).toMatch(/175\s+150\s+unresolved\s+50/);
+        });
+
+        it('should write one CSV row per Work event, streak and breach', () => {
+            const lines = formatAuditCsv(report).split('\n');
+
+            expect(lines[0]).toBe('job,label,kind,start_block,end_block,blocks,keeper,network,transaction_hash');
+            expect(lines).toHaveLength(6);
+            expect(lines[1]).toBe(`${JOB},"Harvest, vault A",work,150,150,,${KEEPER},mainnet,0x96`);
+            expect(lines).toContain(`${JOB},"Harvest, vault A",threshold_breach,124,150,50,,,`);
+        });
+
+        it('should render bigints as strings in JSON', () => {
+            const json = JSON.parse(formatAuditJson(report));
+
+            expect(json.fromBlock).toBe('100');
+            expect(json.jobs[0].breaches[0]).toEqual({ block: '124', lastWorkedBlock: null, resolvedAtBlock: '150', unworkedBlocks: '50' });
+        });
+    });
+});
@@ -0,0 +1,269 @@
+import { ethers } from 'ethers';
+import { initializeContracts, provider } from './ethereum';
+import { getActiveJobs, buildWorkLogIndex, WorkRecord, MAX_BLOCKS_PER_QUERY } from './job_manager';
+import { loadJobConfig, getJobConfig } from './job_config';
+import { muteAlerts } from './alerting';
+import { formatNetworkName } from './utils';
+import { createLogger } from './logger';
+
+const logger = createLogger('audit');
+
+export type AuditFormat = 'table' | 'json' | 'csv';
+
+export interface AuditOptions {
+    fromBlock: bigint;
+    toBlock: bigint;
+    jobs: string[]; // Empty audits every job the Sequencer currently lists
+    format: AuditFormat;
+    top: number; // Streaks listed per job in the table
+}
+
+// Blocks without a Work event between two Work events, or between one and the edge of the range
+export interface UnworkedStreak {
+    startBlock: bigint;
+    endBlock: bigint;
+    blocks: bigint;
+    endedBy: WorkRecord | null; // null when the streak was still open at the end of the range
+    startsBeforeRange: boolean; // No Work in the range before it, so it may have started earlier
+}
+
+// Where the monitor's consecutiveUnworkedBlocks would have reached the job's threshold
+export interface ThresholdBreach {
+    block: bigint;
+    lastWorkedBlock: bigint | null; // null when the job was not worked earlier in the range
+    resolvedAtBlock: bigint | null;
+    unworkedBlocks: bigint; // Length of the streak the breach belongs to
+}
+
+export interface JobAudit {
+    address: string;
+    label: string | null;
+    threshold: bigint;
+    works: WorkRecord[];
+    streaks: UnworkedStreak[]; // Longest first
+    breaches: ThresholdBreach[]; // In block order
+}
+
+export interface AuditReport {
+    fromBlock: bigint;
+    toBlock: bigint;
+    jobs: JobAudit[];
+}
+
+export class AuditUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuditUsageError';
+    }
+}
+
+export const AUDIT_USAGE = 'Usage: beep3r audit --from <block> --to <block> [--job <address>]... [--format table|json|csv] [--top <n>]';
+
+function parseBlock(flag: string, value: string | undefined): bigint {
+    if (value === undefined || !/^\d+$/.test(value)) {
+        throw new AuditUsageError(`${flag} expects a block number, got ${value ?? 'nothing'}`);
+    }
+    return BigInt(value);
+}
+
+export function parseAuditArgs(args: string[]): AuditOptions {
+    const options: Partial<AuditOptions> & { jobs: string[] } = { jobs: [], format: 'table', top: 5 };
+    for (let i = 0; i < args.length; i++) {
+        const flag = args[i];
+        const value = args[i + 1];
+        switch (flag) {
+            case '--from':
+                options.fromBlock = parseBlock(flag, value);
+                break;
+            case '--to':
+                options.toBlock = parseBlock(flag, value);
+                break;
+            case '--job':
+                if (value === undefined || !ethers.isAddress(value)) {
+                    throw new AuditUsageError(`--job expects a job address, got ${value ?? 'nothing'}`);
+                }
+                options.jobs.push(ethers.getAddress(value));
+                break;
+            case '--format':
+                if (value !== 'table' && value !== 'json' && value !== 'csv') {
+                    throw new AuditUsageError(`--format expects table, json or csv, got ${value ?? 'nothing'}`);
+                }
+                options.format = value;
+                break;
+            case '--top':
+                if (value === undefined || !/^[1-9]\d*$/.test(value)) {
+                    throw new AuditUsageError(`--top expects a positive number, got ${value ?? 'nothing'}`);
+                }
+                options.top = parseInt(value);
+                break;
+            default:
+                throw new AuditUsageError(`Unknown argument: ${flag}`);
+        }
+        i++;
+    }
+    if (options.fromBlock === undefined || options.toBlock === undefined) {
+        throw new AuditUsageError('--from and --to are required');
+    }
+    if (options.fromBlock > options.toBlock) {
+        throw new AuditUsageError(`--from (${options.fromBlock.toString()}) is after --to (${options.toBlock.toString()})`);
+    }
+    return options as AuditOptions;
+}
+
+// Work events of the given jobs over any range, fetched in getLogs chunks below 1000 blocks
+export async function scanWorkEvents(jobAddresses: string[], fromBlock: bigint, toBlock: bigint, provider: ethers.Provider): Promise<Map<string, WorkRecord[]>> {
+    const works: Map<string, WorkRecord[]> = new Map(jobAddresses.map(address => [address.toLowerCase(), [] as WorkRecord[]]));
+    for (let start = fromBlock; start <= toBlock; start += BigInt(MAX_BLOCKS_PER_QUERY)) {
+        const end = start + BigInt(MAX_BLOCKS_PER_QUERY) - BigInt(1) < toBlock ? start + BigInt(MAX_BLOCKS_PER_QUERY) - BigInt(1) : toBlock;
+        logger.info(`Scanning Work events in blocks ${start.toString()}-${end.toString()}`);
+        const index = await buildWorkLogIndex(jobAddresses, start, end, provider);
+        for (const [address, records] of index.byJob.entries()) {
+            works.set(address, [...(works.get(address) ?? []), ...records]);
+        }
+    }
+    return works;
+}
+
+// Rebuilds the unworked streaks and threshold breaches the monitor would have seen over the range
+export function buildJobAudit(address: string, works: WorkRecord[], fromBlock: bigint, toBlock: bigint, threshold: bigint, label: string | null = null): JobAudit {
+    const sortedWorks = [...works].sort((a, b) => (a.blockNumber < b.blockNumber ? -1 : a.blockNumber > b.blockNumber ? 1 : 0));
+    const streaks: UnworkedStreak[] = [];
+    const breaches: ThresholdBreach[] = [];
+
+    // Before the first Work in range, count from the block before the range, as a lower bound
+    let lastWorkedBlock: bigint | null = null;
+    const addStreak = (endBlock: bigint, endedBy: WorkRecord | null) => {
+        const anchor = lastWorkedBlock ?? fromBlock - BigInt(1);
+        const startBlock = anchor + BigInt(1);
+        if (endBlock < startBlock) {
+            return;
+        }
+        const streak: UnworkedStreak = { startBlock, endBlock, blocks: endBlock - startBlock + BigInt(1), endedBy, startsBeforeRange: lastWorkedBlock === null };
+        streaks.push(streak);
+        // consecutiveUnworkedBlocks reaches the threshold at anchor + threshold, unless Work resets it first
+        if (anchor + threshold <= endBlock) {
+            breaches.push({ block: anchor + threshold, lastWorkedBlock, resolvedAtBlock: endedBy ? endedBy.blockNumber : null, unworkedBlocks: streak.blocks });
+        }
+    };
+
+    for (const work of sortedWorks) {
+        addStreak(work.blockNumber - BigInt(1), work);
+        lastWorkedBlock = work.blockNumber;
+    }
+    addStreak(toBlock, null);
+
+    streaks.sort((a, b) => (a.blocks > b.blocks ? -1 : a.blocks < b.blocks ? 1 : 0));
+    return { address, label, threshold, works: sortedWorks, streaks, breaches };
+}
+
+export async function runAudit(options: AuditOptions): Promise<AuditReport> {
+    muteAlerts();
+    loadJobConfig();
+    initializeContracts();
+    const jobs = options.jobs.length > 0 ? options.jobs : await getActiveJobs();
+    logger.info(`Auditing ${jobs.length} jobs over blocks ${options.fromBlock.toString()}-${options.toBlock.toString()}`);
+
+    const works = await scanWorkEvents(jobs, options.fromBlock, options.toBlock, provider);
+    return {
+        fromBlock: options.fromBlock,
+        toBlock: options.toBlock,
+        jobs: jobs.map(address => {
+            const jobConfig = getJobConfig(address);
+            return buildJobAudit(address, works.get(address.toLowerCase()) ?? [], options.fromBlock, options.toBlock, jobConfig.threshold, jobConfig.label);
+        }),
+    };
+}
+
+function formatRows(rows: string[][]): string[] {
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    return rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+}
+
+function describeWork(work: WorkRecord): string {
+    return `block ${work.blockNumber.toString()} by ${work.keeper} (${formatNetworkName(work.network)})`;
+}
+
+export function formatAuditTable(report: AuditReport, top: number = 5): string {
+    const rangeBlocks = report.toBlock - report.fromBlock + BigInt(1);
+    const lines = [`Audit of blocks ${report.fromBlock.toString()}-${report.toBlock.toString()} (${rangeBlocks.toString()} blocks), ${report.jobs.length} jobs`];
+
+    for (const job of report.jobs) {
+        lines.push('', `${job.label ? `${job.label} (${job.address})` : job.address}  threshold ${job.threshold.toString()}, ${job.works.length} Work events, ${job.breaches.length} threshold breaches`);
+
+        if (job.streaks.length > 0) {
+            lines.push('  Longest unworked streaks:');
+            const rows = [['blocks', 'from', 'to', 'ended by']];
+            for (const streak of job.streaks.slice(0, top)) {
+                rows.push([
+                    `${streak.startsBeforeRange ? '>=' : ''}${streak.blocks.toString()}`,
+                    streak.startBlock.toString(),
+                    streak.endBlock.toString(),
+                    streak.endedBy ? describeWork(streak.endedBy) : 'still unworked at end of range',
+                ]);
+            }
+            lines.push(...formatRows(rows).map(row => `    ${row}`));
+        }
+
+        if (job.breaches.length > 0) {
+            lines.push('  Threshold breaches:');
+            const rows = [['at block', 'last worked', 'resolved at', 'unworked blocks']];
+            for (const breach of job.breaches) {
+                rows.push([
+                    breach.block.toString(),
+                    breach.lastWorkedBlock?.toString() ?? 'before range',
+                    breach.resolvedAtBlock?.toString() ?? 'unresolved',
+                    breach.unworkedBlocks.toString(),
+                ]);
+            }
+            lines.push(...formatRows(rows).map(row => `    ${row}`));
+        }
+
+        if (job.works.length > 0) {
+            lines.push('  Work:');
+            const rows = [['block', 'keeper', 'network', 'transaction']];
+            for (const work of job.works) {
+                rows.push([work.blockNumber.toString(), work.keeper, formatNetworkName(work.network), work.transactionHash]);
+            }
+            lines.push(...formatRows(rows).map(row => `    ${row}`));
+        }
+    }
+    return lines.join('\n');
+}
+
+export function formatAuditJson(report: AuditReport): string {
+    return JSON.stringify(report, (_key, value) => typeof value === 'bigint' ? value.toString() : value, 2);
+}
+
+function csvCell(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One row per Work event, unworked streak and threshold breach
+export function formatAuditCsv(report: AuditReport): string {
+    const rows = [['job', 'label', 'kind', 'start_block', 'end_block', 'blocks', 'keeper', 'network', 'transaction_hash']];
+    for (const job of report.jobs) {
+        const label = job.label ?? '';
+        for (const work of job.works) {
+            rows.push([job.address, label, 'work', work.blockNumber.toString(), work.blockNumber.toString(), '', work.keeper, formatNetworkName(work.network), work.transactionHash]);
+        }
+        for (const streak of job.streaks) {
+            rows.push([job.address, label, 'unworked_streak', streak.startBlock.toString(), streak.endBlock.toString(), streak.blocks.toString(),
+                streak.endedBy?.keeper ?? '', streak.endedBy ? formatNetworkName(streak.endedBy.network) : '', streak.endedBy?.transactionHash ?? '']);
+        }
+        for (const breach of job.breaches) {
+            rows.push([job.address, label, 'threshold_breach', breach.block.toString(), breach.resolvedAtBlock?.toString() ?? '', breach.unworkedBlocks.toString(), '', '', '']);
+        }
+    }
+    return rows.map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+export function formatAuditReport(report: AuditReport, format: AuditFormat, top: number = 5): string {
+    switch (format) {
+        case 'json':
+            return formatAuditJson(report);
+        case 'csv':
+            return formatAuditCsv(report);
+        default:
+            return formatAuditTable(report, top);
+    }
+}
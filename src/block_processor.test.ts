@@ -1,190 +1,380 @@
-import { processNewBlocks, processBlockNumber } from './block_processor';
-
-import { initializeJobStates, jobStates, JobState, checkIfJobWasWorked, jobContracts } from './job_manager';
-import { sequencerContract, multicallProvider, jobInterface } from './ethereum';
-import { sendDiscordAlert } from './alerting';
-import { ETHEREUM_RPC_URL, DISCORD_WEBHOOK_URL, BLOCK_CHECK_INTERVAL, BLOCK_BATCH_INTERVAL_MINUTES, UNWORKED_BLOCKS_THRESHOLD, MAX_JOB_AGE, IGNORED_ARGS_MESSAGES } from './config';
 import { ethers } from 'ethers';
-import * as jobManager from './job_manager';
-
-type MockJobContract = jest.Mocked<ethers.Contract>;
-
+import { processNewBlocks, processBlockNumber } from './block_processor';
+import { jobStates, jobContracts, JobState } from './job_manager';
+import { loadNetworks, networkStates, resetActiveWindow } from './network_manager';
+import { sequencerContract, provider, jobInterface } from './ethereum';
+import { callWorkable, simulateWork, WorkableOutcome } from './workable';
+import { sendJobAlert, sendJobRecoveryAlert, sendJobRevertingAlert, sendWorkMismatchAlert } from './alerting';
+import { persistState } from './state_store';
 
-// Mock modules and functions
 jest.mock('./ethereum', () => {
-    const originalModule = jest.requireActual('./ethereum');
+    const { ethers } = jest.requireActual('ethers');
     return {
-        ...originalModule,
+        SEQUENCER_ADDRESS: '0x238b4E35dAed6100C6162fAE4510261f88996EC9',
         sequencerContract: {
-            getMaster: jest.fn().mockResolvedValue('0xNetworkIdentifier'),
+            interface: new ethers.Interface(jest.requireActual('./abis/sequencerAbi.json')),
+            getMaster: jest.fn(),
+            numJobs: jest.fn(),
+            numNetworks: jest.fn(),
+            networkAt: jest.fn(),
+            windows: jest.fn(),
         },
-        multicallProvider: {
-            getBlockNumber: jest.fn().mockResolvedValue(21684850),
-            provider: {
-                getBlockNumber: jest.fn().mockResolvedValue(21684850),
-                getLogs: jest.fn().mockResolvedValue([]),
-            },
+        jobInterface: new ethers.Interface(jest.requireActual('./abis/IJobAbi.json')),
+        provider: {
+            getBlockNumber: jest.fn(),
+            getLogs: jest.fn(),
         },
-        jobInterface: {
-            getEvent: jest.fn().mockReturnValue({ topicHash: '0xWorkEventTopicHash' }),
-        },
-    };
-});
-jest.mock('./job_manager', () => {
-    const originalModule = jest.requireActual('./job_manager');
-    return {
-        ...originalModule,
-        jobContracts: new Map(),
-        checkIfJobWasWorked: jest.fn().mockResolvedValue(false), // Mock checkIfJobWasWorked here
-        jobStates: new Map(),
     };
 });
+jest.mock('./workable', () => ({
+    ...jest.requireActual('./workable'),
+    callWorkable: jest.fn(),
+    simulateWork: jest.fn(),
+}));
 jest.mock('./alerting', () => ({
-    sendDiscordAlert: jest.fn().mockResolvedValue(undefined),
+    sendJobAlert: jest.fn().mockResolvedValue(undefined),
+    sendJobRecoveryAlert: jest.fn().mockResolvedValue(undefined),
+    sendJobRevertingAlert: jest.fn().mockResolvedValue(undefined),
+    sendJobRevertRecoveredAlert: jest.fn().mockResolvedValue(undefined),
+    sendWorkMismatchAlert: jest.fn().mockResolvedValue(undefined),
+    sendWorkMismatchResolvedAlert: jest.fn().mockResolvedValue(undefined),
+    sendNetworkWindowAlert: jest.fn().mockResolvedValue(undefined),
 }));
 jest.mock('./config', () => ({
-    UNWORKED_BLOCKS_THRESHOLD: BigInt(10), // Mock threshold
-    IGNORED_ARGS_MESSAGES: ["No ilks ready", "shouldUpdate is false"] // Mock ignored messages
+    UNWORKED_BLOCKS_THRESHOLD: BigInt(10),
+    ALERT_REMINDER_INTERVAL_BLOCKS: BigInt(10),
+    ALERT_REMINDER_BACKOFF: 2,
+    ALERT_REMINDER_MAX_INTERVAL_BLOCKS: BigInt(100),
+    ALERT_ESCALATION_THRESHOLD: BigInt(30),
+    STUCK_WORKABLE_THRESHOLD: null,
+    NEVER_WORKABLE_THRESHOLD: null,
+    IGNORED_ARGS_MESSAGES: ['No ilks ready', 'No work to do'],
+    JOB_CONFIG_PATH: '',
+    JOB_RECONCILE_INTERVAL_BLOCKS: BigInt(1000),
+    NETWORK_MISSED_WINDOWS_THRESHOLD: 3,
+    WORKABLE_FAILURE_ALERT_THRESHOLD: 2,
+    REORG_RING_SIZE: 0,
+    CONFIRMATION_BLOCK_TAG: 'latest',
+    CONFIRMATION_DEPTH: BigInt(0),
+    CATCHUP_SAMPLE_STRIDE: 2,
+    WORK_SIMULATION_ENABLED: true,
+    WORK_SIMULATION_SAMPLE_BLOCKS: BigInt(0),
+    WORK_SIMULATION_FROM: '0x0000000000000000000000000000000000000001',
+    DIGEST_SCHEDULE: [],
+    DIGEST_HOUR_UTC: 0,
+    DIGEST_WEEKDAY: 1,
 }));
-jest.mock('./utils', () => ({
-    logWithTimestamp: jest.fn() // mock logWithTimestamp
+jest.mock('./state_store', () => ({
+    persistState: jest.fn().mockResolvedValue(undefined),
 }));
+jest.mock('./logger');
+
+const IDLE_JOB = '0x67AD4000e73579B9725eE3A149F85C4Af0A61361';
+const WORKABLE_JOB = '0xc32506E9bB590971671b649d9B8e18CB6260559F';
+const KEEPER = '0x000000000000000000000000000000000000bEEF';
+const MAKER = ethers.encodeBytes32String('MAKER');
+const GELATO = ethers.encodeBytes32String('GELATO');
+const FROM = '0x0000000000000000000000000000000000000001';
+
+const mocked = {
+    getMaster: sequencerContract.getMaster as unknown as jest.Mock,
+    numJobs: sequencerContract.numJobs as unknown as jest.Mock,
+    numNetworks: sequencerContract.numNetworks as unknown as jest.Mock,
+    networkAt: sequencerContract.networkAt as unknown as jest.Mock,
+    windows: sequencerContract.windows as unknown as jest.Mock,
+    getBlockNumber: provider.getBlockNumber as jest.Mock,
+    getLogs: provider.getLogs as jest.Mock,
+    callWorkable: callWorkable as jest.Mock,
+    simulateWork: simulateWork as jest.Mock,
+};
+
+const notWorkable = (reason: string): WorkableOutcome => ({ ok: true, canWork: false, args: reason, argsFields: {} });
+const workable = (): WorkableOutcome => ({ ok: true, canWork: true, args: '', argsFields: {} });
+
+// Work and Sequencer events served by getLogs, filtered like a node would
+let workLogs: ethers.Log[] = [];
+
+function workLog(jobAddress: string, blockNumber: number): ethers.Log {
+    const { topics, data } = jobInterface.encodeEventLog('Work', [MAKER, KEEPER]);
+    return { address: jobAddress, topics, data, blockNumber, transactionHash: ethers.id(`${jobAddress}:${blockNumber}`), index: 0 } as unknown as ethers.Log;
+}
+
+function seedJob(address: string, lastCheckedBlock: number, unworkedBlocks: number, workableUnworkedBlocks = 0): JobState {
+    const state: JobState = {
+        address,
+        lastWorkedBlock: BigInt(lastCheckedBlock - unworkedBlocks),
+        lastCheckedBlock: BigInt(lastCheckedBlock),
+        consecutiveUnworkedBlocks: BigInt(unworkedBlocks),
+        workableUnworkedBlocks: BigInt(workableUnworkedBlocks),
+        lastUpdateTime: Date.now(),
+        recentWork: [],
+        incident: null,
+        workableError: null,
+        workMismatch: null,
+    };
+    jobStates.set(address, state);
+    jobContracts.set(address, new ethers.Contract(address, jobInterface));
+    return state;
+}
 
+// The workable() outcome of each job in order, at every block
+function answerWorkable(idleJob: WorkableOutcome, workableJob: WorkableOutcome): void {
+    mocked.callWorkable.mockResolvedValue([idleJob, workableJob]);
+}
 
 describe('block_processor', () => {
-    const jobs = ['0xJobAddress1', '0xJobAddress2'];
-    let mockContract1: MockJobContract;
-    let mockContract2: MockJobContract;
-    let workableSpy1: jest.SpyInstance;
-    let workableSpy2: jest.SpyInstance;
-    let checkIfJobWasWorkedMock: jest.MockedFunction<typeof jobManager.checkIfJobWasWorked>;
-
-
-    beforeEach(async () => {
+    beforeEach(() => {
         jest.clearAllMocks();
         jobStates.clear();
         jobContracts.clear();
-
-        // Initialize job states before each test
-        await initializeJobStates(jobs);
-
-        mockContract1 = new ethers.Contract(jobs[0], [], multicallProvider) as MockJobContract;
-        mockContract2 = new ethers.Contract(jobs[1], [], multicallProvider) as MockJobContract;
-        jobContracts.set(jobs[0], mockContract1);
-        jobContracts.set(jobs[1], mockContract2);
-
-        workableSpy1 = jest.spyOn(mockContract1, 'workable');
-        workableSpy2 = jest.spyOn(mockContract2, 'workable');
-        workableSpy1.mockResolvedValue([false, '0x']); // default mock for job1
-        workableSpy2.mockResolvedValue([true, '0x']);  // default mock for job2
-
-        checkIfJobWasWorkedMock = jobManager.checkIfJobWasWorked as jest.MockedFunction<typeof jobManager.checkIfJobWasWorked>;
-        checkIfJobWasWorkedMock.mockResolvedValue(false); // default mock for checkIfJobWasWorked
-
-        // Mock getMaster, getBlockNumber already in module mock
+        workLogs = [];
+        networkStates.length = 0;
+        resetActiveWindow();
+        mocked.getMaster.mockResolvedValue(MAKER);
+        mocked.numJobs.mockResolvedValue(BigInt(2));
+        mocked.numNetworks.mockResolvedValue(BigInt(0));
+        mocked.simulateWork.mockResolvedValue({ ok: true });
+        mocked.getLogs.mockImplementation(async (filter: ethers.Filter) => {
+            const addresses = ([] as string[]).concat(filter.address as string | string[]).map(address => address.toLowerCase());
+            const topics = ([] as string[]).concat((filter.topics?.[0] ?? []) as string | string[]);
+            return workLogs.filter(log => addresses.includes(log.address.toLowerCase())
+                && (topics.length === 0 || topics.includes(log.topics[0]))
+                && log.blockNumber >= Number(filter.fromBlock) && log.blockNumber <= Number(filter.toBlock));
+        });
     });
 
-
     describe('processBlockNumber', () => {
-        it('should call workable for each job and update job state when workable is false and job was not worked', async () => {
-            workableSpy1.mockResolvedValueOnce([false, '0x']); // workable returns false for job1
-            workableSpy2.mockResolvedValueOnce([true, '0x']);  // workable returns true for job2
-            checkIfJobWasWorkedMock.mockResolvedValueOnce(false); // No Work event
+        it('should evaluate workable() of every job at the processed block and extend the unworked streaks', async () => {
+            seedJob(IDLE_JOB, 1999, 5);
+            seedJob(WORKABLE_JOB, 1999, 5);
+            answerWorkable(notWorkable('No work to do'), workable());
+
+            await processBlockNumber(BigInt(2000));
+
+            expect(mocked.getMaster).toHaveBeenCalledWith({ blockTag: BigInt(2000) });
+            expect(mocked.callWorkable).toHaveBeenCalledWith([jobContracts.get(IDLE_JOB), jobContracts.get(WORKABLE_JOB)], MAKER, BigInt(2000));
+            expect(jobStates.get(IDLE_JOB)).toEqual(expect.objectContaining({ lastCheckedBlock: BigInt(2000), consecutiveUnworkedBlocks: BigInt(6), workableUnworkedBlocks: BigInt(0) }));
+            expect(jobStates.get(WORKABLE_JOB)).toEqual(expect.objectContaining({ lastCheckedBlock: BigInt(2000), consecutiveUnworkedBlocks: BigInt(6), workableUnworkedBlocks: BigInt(1) }));
+            expect(sendJobAlert).not.toHaveBeenCalled();
+        });
 
-            await processBlockNumber(BigInt(21684851));
+        it('should open a stuck-workable incident once a job has been left workable for the threshold', async () => {
+            seedJob(IDLE_JOB, 1999, 5);
+            seedJob(WORKABLE_JOB, 1999, 9, 9);
+            answerWorkable(notWorkable('No work to do'), workable());
 
-            expect(workableSpy1).toHaveBeenCalledTimes(1);
-            expect(workableSpy2).toHaveBeenCalledTimes(1);
+            await processBlockNumber(BigInt(2000));
 
-            expect(jobStates.get(jobs[0])!.consecutiveUnworkedBlocks).toBe(BigInt(1001)); // Incremented for job1
-            expect(jobStates.get(jobs[1])!.consecutiveUnworkedBlocks).toBe(BigInt(1));     // Incremented for job2
-            expect(jobStates.get(jobs[0])!.lastCheckedBlock).toEqual(BigInt(21684851));
-            expect(jobStates.get(jobs[1])!.lastCheckedBlock).toEqual(BigInt(21684851));
+            expect(sendJobAlert).toHaveBeenCalledTimes(1);
+            expect(sendJobAlert).toHaveBeenCalledWith(WORKABLE_JOB, BigInt(10), BigInt(2000), '', null,
+                expect.objectContaining({ transition: 'opened', alertType: 'stuck_workable', severity: 'critical', alertNumber: 1 }), BigInt(10));
+            expect(jobStates.get(WORKABLE_JOB)!.incident).toEqual(expect.objectContaining({ openedAtBlock: BigInt(2000), alertsSent: 1, escalated: true }));
         });
 
+        it('should alert about a job that is not workable for a reason that is not ignored, and not for an ignored one', async () => {
+            seedJob(IDLE_JOB, 1999, 9);
+            seedJob(WORKABLE_JOB, 1999, 9);
+            answerWorkable(notWorkable('Oracle stale'), notWorkable('No work to do'));
 
-        it('should call sendDiscordAlert when consecutiveUnworkedBlocks exceeds threshold and reason is not ignored', async () => {
-            jobStates.get(jobs[0])!.consecutiveUnworkedBlocks = UNWORKED_BLOCKS_THRESHOLD; // Set consecutiveUnworkedBlocks to threshold
-            workableSpy1.mockResolvedValueOnce([false, ethers.toUtf8Bytes('SomeReason')]); // workable returns false with reason
-            checkIfJobWasWorkedMock.mockResolvedValueOnce(false);
+            await processBlockNumber(BigInt(2000));
 
-            await processBlockNumber(BigInt(21684852));
+            expect(sendJobAlert).toHaveBeenCalledTimes(1);
+            expect(sendJobAlert).toHaveBeenCalledWith(IDLE_JOB, BigInt(10), BigInt(2000), 'Oracle stale', null,
+                expect.objectContaining({ transition: 'opened', alertType: 'never_workable', severity: 'warning' }), BigInt(0));
+            expect(jobStates.get(WORKABLE_JOB)!.consecutiveUnworkedBlocks).toBe(BigInt(10)); // Streak still counts
+            expect(jobStates.get(WORKABLE_JOB)!.incident).toBeNull();
+        });
+
+        it('should reset the streak and attribute the Work event when the job was worked', async () => {
+            seedJob(IDLE_JOB, 1999, 9);
+            seedJob(WORKABLE_JOB, 1999, 5);
+            answerWorkable(notWorkable('No work to do'), notWorkable('No work to do'));
+            workLogs = [workLog(IDLE_JOB, 2000)];
 
-            expect(sendDiscordAlert).toHaveBeenCalledTimes(1);
-            expect(sendDiscordAlert).toHaveBeenCalledWith(jobs[0], UNWORKED_BLOCKS_THRESHOLD + BigInt(1), BigInt(21684852), 'SomeReason');
-            expect(jobStates.get(jobs[0])!.consecutiveUnworkedBlocks).toBe(BigInt(0)); // Reset after alert
+            await processBlockNumber(BigInt(2000));
+
+            expect(jobStates.get(IDLE_JOB)).toEqual(expect.objectContaining({ lastWorkedBlock: BigInt(2000), consecutiveUnworkedBlocks: BigInt(0) }));
+            expect(jobStates.get(IDLE_JOB)!.recentWork).toEqual([expect.objectContaining({ network: MAKER, keeper: KEEPER, blockNumber: BigInt(2000) })]);
+            expect(jobStates.get(WORKABLE_JOB)!.consecutiveUnworkedBlocks).toBe(BigInt(6));
         });
 
-        it('should suppress Discord alert when reason is in IGNORED_ARGS_MESSAGES', async () => {
-            jobStates.get(jobs[0])!.consecutiveUnworkedBlocks = UNWORKED_BLOCKS_THRESHOLD;
-            workableSpy1.mockResolvedValueOnce([false, ethers.toUtf8Bytes('No ilks ready')]); // Reason is ignored
-            checkIfJobWasWorkedMock.mockResolvedValueOnce(false);
+        it('should track a reverting workable() per job and alert once it keeps failing', async () => {
+            seedJob(IDLE_JOB, 1999, 50);
+            seedJob(WORKABLE_JOB, 1999, 5);
+            answerWorkable({ ok: false, reason: 'Job/oracle-down' }, workable());
 
-            await processBlockNumber(BigInt(21684853));
+            await processBlockNumber(BigInt(2000));
+            expect(sendJobRevertingAlert).not.toHaveBeenCalled();
+            await processBlockNumber(BigInt(2001));
 
-            expect(sendDiscordAlert).not.toHaveBeenCalled(); // Alert should be suppressed
-            expect(jobStates.get(jobs[0])!.consecutiveUnworkedBlocks).toBe(UNWORKED_BLOCKS_THRESHOLD + BigInt(1)); // Counter still increments
+            expect(sendJobRevertingAlert).toHaveBeenCalledTimes(1);
+            expect(sendJobRevertingAlert).toHaveBeenCalledWith(IDLE_JOB, expect.objectContaining({ reason: 'Job/oracle-down', consecutiveFailures: 2, firstFailedBlock: BigInt(2000) }), BigInt(2001));
+            // The reverting alert covers the job; it gets no unworked alert while workable() fails
+            expect(sendJobAlert).not.toHaveBeenCalled();
+            expect(jobStates.get(WORKABLE_JOB)!.workableUnworkedBlocks).toBe(BigInt(2));
         });
 
-        it('should reset consecutiveUnworkedBlocks to 0 if job was worked', async () => {
-            workableSpy1.mockResolvedValueOnce([false, '0x']); // Not workable
-            checkIfJobWasWorkedMock.mockResolvedValueOnce(true); // Job was worked
+        it('should simulate work() of workable jobs and alert when it reverts', async () => {
+            seedJob(IDLE_JOB, 1999, 5);
+            seedJob(WORKABLE_JOB, 1999, 5);
+            answerWorkable(notWorkable('No work to do'), workable());
+            mocked.simulateWork.mockResolvedValue({ ok: false, reason: 'Job/stale-price', revertData: '0x08c379a0' });
 
-            await processBlockNumber(BigInt(21684854));
+            await processBlockNumber(BigInt(2000));
 
-            expect(jobStates.get(jobs[0])!.consecutiveUnworkedBlocks).toBe(BigInt(0)); // Reset to 0
-            expect(jobStates.get(jobs[0])!.lastWorkedBlock).toEqual(BigInt(21684854)); // lastWorkedBlock updated
+            expect(mocked.simulateWork).toHaveBeenCalledTimes(1);
+            expect(mocked.simulateWork).toHaveBeenCalledWith(jobContracts.get(WORKABLE_JOB), expect.anything(), MAKER, BigInt(2000), FROM);
+            expect(sendWorkMismatchAlert).toHaveBeenCalledWith(WORKABLE_JOB, expect.objectContaining({ type: 'work_reverts_while_workable', reason: 'Job/stale-price' }), BigInt(2000), FROM);
         });
+    });
 
-        it('should handle non-utf8 args gracefully', async () => {
-            workableSpy1.mockResolvedValueOnce([false, ethers.getBytes(Uint8Array.from([0x80]))]); // Invalid UTF-8 byte
-            checkIfJobWasWorkedMock.mockResolvedValueOnce(false);
-            jobStates.get(jobs[0])!.consecutiveUnworkedBlocks = UNWORKED_BLOCKS_THRESHOLD;
+    describe('incidents', () => {
+        it('should remind about an open incident with a growing delay and escalate it past the escalation threshold', async () => {
+            seedJob(IDLE_JOB, 1999, 9);
+            seedJob(WORKABLE_JOB, 1999, 0);
+            answerWorkable(notWorkable('Oracle stale'), notWorkable('No work to do'));
+            const transitions = async (fromBlock: number, toBlock: number) => {
+                const sent: Array<[number, string]> = [];
+                for (let block = fromBlock; block <= toBlock; block++) {
+                    (sendJobAlert as jest.Mock).mockClear();
+                    await processBlockNumber(BigInt(block));
+                    (sendJobAlert as jest.Mock).mock.calls.forEach(call => sent.push([block, call[5].transition]));
+                }
+                return sent;
+            };
+
+            // Opened at 10 unworked blocks, reminded 10 blocks later, escalated at 30 ahead of the next reminder
+            expect(await transitions(2000, 2019)).toEqual([[2000, 'opened'], [2010, 'reminder']]);
+            expect(await transitions(2020, 2059)).toEqual([[2020, 'escalated']]);
+            expect(await transitions(2060, 2060)).toEqual([[2060, 'reminder']]);
+            expect(sendJobAlert).toHaveBeenCalledWith(IDLE_JOB, BigInt(70), BigInt(2060), 'Oracle stale', null,
+                expect.objectContaining({ severity: 'critical', alertNumber: 4 }), BigInt(0));
+            expect(jobStates.get(IDLE_JOB)!.incident).toEqual(expect.objectContaining({ openedAtBlock: BigInt(2000), alertsSent: 4, escalated: true }));
+            expect(sendJobAlert).not.toHaveBeenCalledWith(WORKABLE_JOB, expect.anything(), expect.anything(), expect.anything(), expect.anything(), expect.anything(), expect.anything());
+        });
 
+        it('should resolve the incident with the length of the streak once the job is worked', async () => {
+            seedJob(IDLE_JOB, 1999, 9);
+            seedJob(WORKABLE_JOB, 1999, 0);
+            answerWorkable(notWorkable('Oracle stale'), notWorkable('No work to do'));
+            await processBlockNumber(BigInt(2000));
+            const incident = jobStates.get(IDLE_JOB)!.incident;
+            expect(incident).toEqual(expect.objectContaining({ alertsSent: 1 }));
 
-            await processBlockNumber(BigInt(21684855));
+            workLogs = [workLog(IDLE_JOB, 2005)];
+            await processBlockNumber(BigInt(2005));
 
-            expect(sendDiscordAlert).toHaveBeenCalledTimes(1);
-            const alertArgs = (sendDiscordAlert as jest.Mock).mock.calls[0];
-            expect(alertArgs[3]).toContain('Non-UTF8 args:'); // Alert sent with non-UTF8 message
-            expect(jobStates.get(jobs[0])!.consecutiveUnworkedBlocks).toBe(BigInt(0)); // Reset after alert
+            expect(sendJobRecoveryAlert).toHaveBeenCalledWith(IDLE_JOB, incident, BigInt(15), BigInt(2005), expect.objectContaining({ blockNumber: BigInt(2005), keeper: KEEPER }));
+            expect(jobStates.get(IDLE_JOB)).toEqual(expect.objectContaining({ incident: null, consecutiveUnworkedBlocks: BigInt(0) }));
         });
     });
 
     describe('processNewBlocks', () => {
-        it('should process blocks in batches and update lastProcessedBlock', async () => {
-            jest.spyOn(multicallProvider.provider, 'getBlockNumber').mockResolvedValue(21684860); // Mock later block number
+        it('should process every block up to the head and serve Work events from one index per batch', async () => {
+            // Within one batch of the head, so every block is evaluated despite CATCHUP_SAMPLE_STRIDE
+            seedJob(IDLE_JOB, 1999, 9);
+            seedJob(WORKABLE_JOB, 1999, 5);
+            answerWorkable(notWorkable('No work to do'), notWorkable('No work to do'));
+            mocked.getBlockNumber.mockResolvedValue(2005);
+            workLogs = [workLog(IDLE_JOB, 2003)];
+
+            await expect(processNewBlocks(BigInt(1999), 5, 15000)).resolves.toEqual({ lastProcessedBlock: BigInt(2005), caughtUp: true });
+
+            expect(mocked.callWorkable).toHaveBeenCalledTimes(6);
+            expect(jobStates.get(IDLE_JOB)).toEqual(expect.objectContaining({ lastCheckedBlock: BigInt(2005), lastWorkedBlock: BigInt(2003), consecutiveUnworkedBlocks: BigInt(2) }));
+            expect(jobStates.get(WORKABLE_JOB)!.consecutiveUnworkedBlocks).toBe(BigInt(11));
+            // Work logs come from one query for every job; no per-job queries
+            const workQueries = mocked.getLogs.mock.calls.filter(([filter]) => filter.address !== '0x238b4E35dAed6100C6162fAE4510261f88996EC9');
+            expect(workQueries).toEqual([[expect.objectContaining({ address: [IDLE_JOB, WORKABLE_JOB], fromBlock: 2000, toBlock: 2005 })]]);
+            expect(persistState).toHaveBeenCalledWith(BigInt(2005));
+        });
 
-            let lastBlock = BigInt(21684850); // Initial lastProcessedBlock
+        it('should only sample blocks while catching up on more blocks than one batch holds', async () => {
+            seedJob(IDLE_JOB, 1999, 5);
+            seedJob(WORKABLE_JOB, 1999, 5);
+            answerWorkable(notWorkable('No work to do'), notWorkable('No work to do'));
+            mocked.getBlockNumber.mockResolvedValue(2005);
 
-            const result = await processNewBlocks(lastBlock, 5, BLOCK_CHECK_INTERVAL); // 5 minute batch interval
+            // One-minute batches of 4 blocks, 6 blocks behind
+            await expect(processNewBlocks(BigInt(1999), 1, 15000)).resolves.toEqual({ lastProcessedBlock: BigInt(2005), caughtUp: true });
+
+            expect(mocked.callWorkable.mock.calls.map(([, , blockNumber]) => Number(blockNumber))).toEqual([2000, 2002, 2003, 2004, 2005]);
+            expect(jobStates.get(IDLE_JOB)).toEqual(expect.objectContaining({ lastCheckedBlock: BigInt(2005), consecutiveUnworkedBlocks: BigInt(11) }));
+        });
 
-            expect(multicallProvider.provider.getBlockNumber).toHaveBeenCalled();
-            expect(result.lastProcessedBlock).toBeGreaterThan(lastBlock); // lastProcessedBlock should be updated
+        it('should derive the master from the schedule in force at each block when a network is removed mid-batch', async () => {
+            seedJob(IDLE_JOB, 1999, 5);
+            seedJob(WORKABLE_JOB, 1999, 5);
+            answerWorkable(notWorkable('No work to do'), notWorkable('No work to do'));
+            mocked.getBlockNumber.mockResolvedValue(2005);
+            // MAKER [0, 10) and GELATO [10, 20) until MAKER is removed at 2003, then GELATO [0, 10)
+            const removedAt = 2003;
+            const scheduleAt = (blockTag: bigint) => (blockTag < BigInt(removedAt) ? [MAKER, GELATO] : [GELATO]);
+            mocked.numNetworks.mockImplementation(async ({ blockTag }) => BigInt(scheduleAt(blockTag).length));
+            mocked.networkAt.mockImplementation(async (i: bigint, { blockTag }) => scheduleAt(blockTag)[Number(i)]);
+            mocked.windows.mockImplementation(async (id: string, { blockTag }) => [BigInt(scheduleAt(blockTag).indexOf(id) * 10), BigInt(10)]);
+            const { topics, data } = sequencerContract.interface.encodeEventLog('RemoveNetwork', [MAKER]);
+            workLogs = [{ address: '0x238b4E35dAed6100C6162fAE4510261f88996EC9', topics, data, blockNumber: removedAt, transactionHash: ethers.id('remove'), index: 0 } as unknown as ethers.Log];
+            // Read at startup, past the blocks still to process
+            await loadNetworks(BigInt(2005));
+
+            await expect(processNewBlocks(BigInt(1999), 5, 15000)).resolves.toEqual({ lastProcessedBlock: BigInt(2005), caughtUp: true });
+
+            expect(mocked.numNetworks.mock.calls.map(([overrides]) => overrides.blockTag)).toEqual([BigInt(2005), BigInt(2000), BigInt(2003)]);
+            expect(mocked.callWorkable.mock.calls.map(([, network, blockNumber]) => [Number(blockNumber), network])).toEqual([
+                [2000, MAKER], [2001, MAKER], [2002, MAKER], [2003, GELATO], [2004, GELATO], [2005, GELATO],
+            ]);
+            expect(mocked.getMaster).not.toHaveBeenCalled();
         });
 
-        it('should not process blocks if already processing', async () => {
-            let processingBlocks = false;
-            const originalProcessingBlocksDescriptor = Object.getOwnPropertyDescriptor(global, 'processingBlocks');
-            Object.defineProperty(global, 'processingBlocks', {
-                value: processingBlocks,
-                writable: true,
-            });
+        it('should keep evaluating a job removed mid-batch on the blocks before its removal', async () => {
+            seedJob(IDLE_JOB, 1999, 5);
+            seedJob(WORKABLE_JOB, 1999, 5);
+            mocked.callWorkable.mockImplementation(async (contracts: ethers.Contract[]) => contracts.map(() => notWorkable('No work to do')));
+            mocked.getBlockNumber.mockResolvedValue(2005);
+            const { topics, data } = sequencerContract.interface.encodeEventLog('RemoveJob', [WORKABLE_JOB]);
+            workLogs = [{ address: '0x238b4E35dAed6100C6162fAE4510261f88996EC9', topics, data, blockNumber: 2003, transactionHash: ethers.id('remove'), index: 0 } as unknown as ethers.Log];
 
-            processingBlocks = true; // Simulate already processing
+            await expect(processNewBlocks(BigInt(1999), 5, 15000)).resolves.toEqual({ lastProcessedBlock: BigInt(2005), caughtUp: true });
+
+            expect(mocked.callWorkable.mock.calls.map(([contracts, , blockNumber]) => [Number(blockNumber), contracts.length])).toEqual([
+                [2000, 2], [2001, 2], [2002, 2], [2003, 1], [2004, 1], [2005, 1],
+            ]);
+            expect(jobStates.has(WORKABLE_JOB)).toBe(false);
+        });
+
+        it('should keep the incident open and deliver the recovery on the next run when it could not be delivered', async () => {
+            seedJob(IDLE_JOB, 1999, 9);
+            seedJob(WORKABLE_JOB, 1999, 0);
+            answerWorkable(notWorkable('Oracle stale'), notWorkable('No work to do'));
+            await processBlockNumber(BigInt(2000));
+            const incident = jobStates.get(IDLE_JOB)!.incident;
+            workLogs = [workLog(IDLE_JOB, 2003)];
+            mocked.getBlockNumber.mockResolvedValue(2005);
+            (sendJobRecoveryAlert as jest.Mock).mockRejectedValueOnce(new Error('Status: 503'));
+
+            await expect(processNewBlocks(BigInt(2000), 5, 15000)).resolves.toEqual({ lastProcessedBlock: BigInt(2002), caughtUp: false });
+            expect(jobStates.get(IDLE_JOB)).toEqual(expect.objectContaining({ incident, lastCheckedBlock: BigInt(2002) }));
+
+            await expect(processNewBlocks(BigInt(2002), 5, 15000)).resolves.toEqual({ lastProcessedBlock: BigInt(2005), caughtUp: true });
+            expect(sendJobRecoveryAlert).toHaveBeenCalledTimes(2);
+            expect(sendJobRecoveryAlert).toHaveBeenLastCalledWith(IDLE_JOB, incident, BigInt(13), BigInt(2003), expect.objectContaining({ blockNumber: BigInt(2003) }));
+            expect(jobStates.get(IDLE_JOB)).toEqual(expect.objectContaining({ incident: null, lastWorkedBlock: BigInt(2003), consecutiveUnworkedBlocks: BigInt(2) }));
+            expect(jobStates.get(IDLE_JOB)!.recentWork).toHaveLength(1);
+        });
 
-            const initialLastProcessedBlock = BigInt(21684850);
-            const result = await processNewBlocks(initialLastProcessedBlock, 5, BLOCK_CHECK_INTERVAL);
+        it('should skip a run while another one is still processing', async () => {
+            seedJob(IDLE_JOB, 1999, 5);
+            seedJob(WORKABLE_JOB, 1999, 5);
+            answerWorkable(notWorkable('No work to do'), notWorkable('No work to do'));
+            let releaseHead!: (head: number) => void;
+            mocked.getBlockNumber.mockReturnValueOnce(new Promise(resolve => { releaseHead = resolve; }));
 
-            expect(multicallProvider.provider.getBlockNumber).not.toHaveBeenCalled(); // Should not process new blocks
-            expect(result.lastProcessedBlock).toEqual(initialLastProcessedBlock); // lastProcessedBlock should not be updated
+            const running = processNewBlocks(BigInt(1999), 5, 15000);
+            await expect(processNewBlocks(BigInt(1999), 5, 15000)).resolves.toEqual({ lastProcessedBlock: BigInt(1999), caughtUp: false });
 
-            // Restore original descriptor if it existed
-            if (originalProcessingBlocksDescriptor) {
-                Object.defineProperty(global, 'processingBlocks', originalProcessingBlocksDescriptor);
-            } else {
-                delete (global as any).processingBlocks;
-            }
+            releaseHead(2000);
+            await expect(running).resolves.toEqual({ lastProcessedBlock: BigInt(2000), caughtUp: true });
         });
     });
 });
@@ -1,136 +1,353 @@
 import { ethers } from 'ethers';
-import { multicallProvider, sequencerContract, jobInterface } from './ethereum';
-import { jobStates, jobContracts, checkIfJobWasWorked, IGNORED_ARGS_MESSAGES, JobState } from './job_manager';
-import { sendDiscordAlert } from './alerting';
-import { logWithTimestamp } from './utils';
-import { UNWORKED_BLOCKS_THRESHOLD } from './config';
+import { provider, sequencerContract, jobInterface } from './ethereum';
+import { jobStates, jobContracts, fetchWorkEvents, recordJobWork, getLastWork, recordWorkableFailure, clearWorkableFailure, recordWorkMismatch, clearWorkMismatch, JobState, WorkRecord, syncJobRegistry, applyJobRegistryChanges, reconcileActiveJobs, WorkLogIndex, buildWorkLogIndex, getIndexedWorkEvents, MAX_BLOCKS_PER_QUERY } from './job_manager';
+import { sendJobAlert, sendJobRecoveryAlert, sendJobRevertingAlert, sendJobRevertRecoveredAlert, sendWorkMismatchAlert, sendWorkMismatchResolvedAlert, sendNetworkWindowAlert } from './alerting';
+import { classifyJobAlert, getIncidentUpdate, markIncidentAlerted, reachesAlertThreshold, resolveIncident } from './incidents';
+import { getJobConfig, findIgnoredReason, formatReasonPattern, formatJobName } from './job_config';
+import { findMatchingSilence, formatSilence, pruneExpiredSilences } from './silences';
+import { timeRpc, observeJob, observeWorkMismatch, recordAlertSuppressed, recordJobAlert, batchDuration, setHeadLag } from './metrics';
+import { formatNetworkName } from './utils';
+import { recordDigestAlert, recordDigestBlock, recordDigestJob, recordDigestWork } from './digest';
+import { callWorkable, simulateWork, findWorkMismatch, WorkableOutcome, WorkSimulationOutcome } from './workable';
+import { createLogger, Logger } from './logger';
+import { persistState } from './state_store';
+import { fetchBlockHeader, detectAndRewindReorg, recordCheckpoint } from './reorg';
+import { findNetworkChanges, getExpectedMaster, getScheduleBlock, loadNetworks, recordNetworkObservation, resetActiveWindow } from './network_manager';
+import { JOB_RECONCILE_INTERVAL_BLOCKS, NETWORK_MISSED_WINDOWS_THRESHOLD, WORKABLE_FAILURE_ALERT_THRESHOLD, REORG_RING_SIZE, CONFIRMATION_BLOCK_TAG, CONFIRMATION_DEPTH, CATCHUP_SAMPLE_STRIDE, WORK_SIMULATION_ENABLED, WORK_SIMULATION_SAMPLE_BLOCKS, WORK_SIMULATION_FROM } from './config';
 
-const MAX_BLOCKS_PER_QUERY = 999; // Ensure we never query 1000 or more blocks
+const logger = createLogger('block_processor');
 
 // Global processing flag
 let processingBlocks = false;
+// Block at which the monitored job set was last reconciled against numJobs()
+let lastReconcileBlock: bigint | null = null;
+// Work events for the range currently being processed, shared by every job and block in it
+let workLogIndex: WorkLogIndex | null = null;
+
+async function getJobWorkEvents(jobAddress: string, fromBlock: bigint, toBlock: bigint): Promise<WorkRecord[]> {
+    const indexed = workLogIndex ? getIndexedWorkEvents(workLogIndex, jobAddress, fromBlock, toBlock) : null;
+    if (indexed !== null) {
+        return indexed;
+    }
+    // Outside the indexed range (e.g. processBlockNumber called on its own); fall back to a per-job query
+    return fetchWorkEvents(jobAddress, fromBlock, toBlock, provider);
+}
+
+// Range covering every block the jobs still need Work events for up to toBlock, capped at MAX_BLOCKS_PER_QUERY
+function workLogIndexStart(rangeStart: bigint, toBlock: bigint): bigint {
+    let start = rangeStart;
+    for (const jobState of jobStates.values()) {
+        if (jobState.lastCheckedBlock + BigInt(1) < start) {
+            start = jobState.lastCheckedBlock + BigInt(1);
+        }
+    }
+    const earliestAllowed = toBlock - BigInt(MAX_BLOCKS_PER_QUERY) + BigInt(1);
+    return start < earliestAllowed ? earliestAllowed : start;
+}
+
+// While catching up with CATCHUP_SAMPLE_STRIDE > 1 only every Nth block of a range, and always its last, is evaluated.
+// processBlockNumber accounts for the blocks in between from Work events.
+function isSampledBlock(blockNumber: bigint, rangeStart: bigint, rangeEnd: bigint, catchingUp: boolean): boolean {
+    return !catchingUp || blockNumber === rangeEnd || (blockNumber - rangeStart) % BigInt(CATCHUP_SAMPLE_STRIDE) === BigInt(0);
+}
+
+// A revert will not go away by asking again, so the block is skipped. Anything else (the RPC pool has
+// already retried every provider) is rethrown so processNewBlocks stops and retries the block later.
+function skipOnRevert(error: unknown): void {
+    if (!ethers.isError(error, 'CALL_EXCEPTION')) {
+        throw error;
+    }
+}
+
+// Compares the simulated work() with workable(). A mismatch is alerted once, and resolved once the two agree again.
+async function checkWorkConsistency(jobState: JobState, canWork: boolean, simulation: WorkSimulationOutcome, blockNumber: bigint, masterNetwork: { id: string; name: string }, jobLog: Logger): Promise<void> {
+    const mismatchType = findWorkMismatch(canWork, simulation);
+    if (!mismatchType) {
+        const endedMismatch = clearWorkMismatch(jobState);
+        if (endedMismatch) {
+            jobLog.info(`work() agrees with workable() again after ${endedMismatch.occurrences} mismatched checks`);
+            if (endedMismatch.alerted) {
+                await sendWorkMismatchResolvedAlert(jobState.address, endedMismatch, blockNumber);
+            }
+        }
+        return;
+    }
+
+    const reason = simulation.ok ? null : simulation.reason;
+    const mismatch = recordWorkMismatch(jobState, mismatchType, reason, simulation.ok ? null : simulation.revertData, blockNumber);
+    observeWorkMismatch(mismatchType);
+    (mismatch.occurrences === 1 ? jobLog.warn : jobLog.debug)(`work() disagrees with workable(): ${mismatchType}`, { reason, revertData: mismatch.revertData, occurrences: mismatch.occurrences });
+    if (mismatch.alerted) {
+        return;
+    }
+    const silence = findMatchingSilence({ jobAddress: jobState.address, network: masterNetwork, reason }, blockNumber);
+    if (silence) {
+        recordAlertSuppressed('silence');
+        recordDigestAlert(jobState.address, 'suppressed');
+        jobLog.info(`[Alert silenced] work() of job ${formatJobName(jobState.address)} disagrees with workable()`, { mismatch: mismatchType, silence: formatSilence(silence) });
+    } else {
+        await sendWorkMismatchAlert(jobState.address, mismatch, blockNumber, WORK_SIMULATION_FROM);
+        mismatch.alerted = true;
+        recordDigestAlert(jobState.address, 'fired');
+    }
+}
 
 export async function processBlockNumber(blockNumber: bigint): Promise<void> {
-    logWithTimestamp(`[Block ${blockNumber.toString()}] Starting processBlockNumber`);
+    const blockLog = logger.child({ block: blockNumber });
+    blockLog.debug("Starting processBlockNumber");
     let networkIdentifier: string | null = null; // Initialize to null
+    let networkName: string | null = null;
     try {
-        networkIdentifier = await sequencerContract.getMaster();
-        logWithTimestamp(`[Block ${blockNumber.toString()}] Network Identifier: ${networkIdentifier}`);
+        // Work out the master for this block from the loaded schedule, as Sequencer.getMaster() does on-chain
+        const expectedMaster = getExpectedMaster(blockNumber);
+        networkIdentifier = expectedMaster ? expectedMaster.id : await timeRpc('getMaster', () => sequencerContract.getMaster({ blockTag: blockNumber }));
+        networkName = expectedMaster ? expectedMaster.name : formatNetworkName(networkIdentifier!);
+        blockLog.debug("Resolved master network", { network: networkName, networkId: networkIdentifier });
     } catch (error) {
-        console.error(`[Block ${blockNumber.toString()}] Error fetching Network Identifier:`, error); // Enhanced logging
-        logWithTimestamp(`[Block ${blockNumber.toString()}] Error details: ${error}`); // Include error details in log
-        return; // Skip job processing for this block if network identifier fetch fails
+        blockLog.error("Error fetching network identifier", { error });
+        return skipOnRevert(error); // Skip job processing for this block if getMaster() reverts
     }
 
 
     if (networkIdentifier === null || networkIdentifier === ethers.ZeroHash) { // Check for null as well
-        logWithTimestamp(`[Block ${blockNumber.toString()}] No active master network (or error fetching). Skipping job processing.`); // More informative log
+        blockLog.info("No active master network, skipping job processing");
         return;
     }
 
-    const jobStatesArray = Array.from(jobStates.values());
+    pruneExpiredSilences(blockNumber);
+    recordDigestBlock(blockNumber);
+    const masterNetwork = { id: networkIdentifier, name: networkName! };
 
-    logWithTimestamp(`[Block ${blockNumber.toString()}] Fetching workable() results for ${jobStatesArray.length} jobs using Multicall...`);
-    const workableCalls = jobStatesArray.map(jobState => {
-        const jobContract = jobContracts.get(jobState.address)!;
-        return jobContract.workable(networkIdentifier!, { provider: multicallProvider }); // Non-null assertion because of null check above
-    });
+    // Jobs bootstrapped mid-batch have already been checked up to the block they were added at
+    const jobStatesArray = Array.from(jobStates.values()).filter(jobState => jobState.lastCheckedBlock < blockNumber);
 
-    let workableResults: any[] | null = null; // Initialize to null
+    blockLog.debug(`Fetching workable() results for ${jobStatesArray.length} jobs using Multicall`);
+    let workableResults: WorkableOutcome[];
     try {
-        workableResults = await Promise.all(workableCalls); // Execute all workable calls in parallel
+        // Evaluated at the processed block, not the chain head. Each job's call succeeds or fails on its own;
+        // only a failed RPC request lands here.
+        workableResults = await timeRpc('workable', () => callWorkable(jobStatesArray.map(jobState => jobContracts.get(jobState.address)!), networkIdentifier!, blockNumber));
     } catch (error) {
-        console.error(`[Block ${blockNumber.toString()}] Error in multicall workable() calls:`, error); // Enhanced logging
-        logWithTimestamp(`[Block ${blockNumber.toString()}] Error details: ${error}`); // Include error details in log
-        return; // Skip job processing for this block if workable calls fail
+        blockLog.error("Error in multicall workable() calls", { error });
+        throw error; // The RPC pool has already retried every provider; retry the block later
     }
 
-    if (workableResults === null) { // Check for null workableResults
-        logWithTimestamp(`[Block ${blockNumber.toString()}] workableResults is null, skipping job processing.`); // Added log for null workableResults
-        return;
+    // work() is simulated against the same block for every workable job, and for the others on sampled blocks
+    const simulateUnworkable = WORK_SIMULATION_SAMPLE_BLOCKS > BigInt(0) && blockNumber % WORK_SIMULATION_SAMPLE_BLOCKS === BigInt(0);
+    let simulations: Array<WorkSimulationOutcome | null>;
+    try {
+        simulations = await Promise.all(jobStatesArray.map((jobState, i) => {
+            const result = workableResults[i];
+            if (!WORK_SIMULATION_ENABLED || !result.ok || !(result.canWork || simulateUnworkable)) {
+                return null;
+            }
+            return timeRpc('simulateWork', () => simulateWork(jobContracts.get(jobState.address)!, provider, networkIdentifier!, blockNumber, WORK_SIMULATION_FROM));
+        }));
+    } catch (error) {
+        blockLog.error("Error simulating work() calls", { error });
+        throw error; // Only RPC failures end up here; reverts are outcomes
     }
 
-
-    logWithTimestamp(`[Block ${blockNumber.toString()}] Received workable() results.`);
+    const workableJobs: string[] = [];
+    const workedJobs: string[] = [];
 
     for (let i = 0; i < jobStatesArray.length; i++) {
         const jobState = jobStatesArray[i];
         const result = workableResults[i];
-        if (!result) { // Check if result is undefined or null
-            logWithTimestamp(`[Block ${blockNumber.toString()}] No workable result for job ${jobState.address} at index ${i}. Skipping.`);
-            continue; // Skip to the next job if result is missing
-        }
-        const canWork: boolean = result[0];
-        const argsBytes: string = result[1];
-        let argsString: string | null = null;
-
-        try {
-            argsString = new TextDecoder().decode(ethers.getBytes(argsBytes));
-        } catch (e) {
-            argsString = `Non-UTF8 args: ${argsBytes}`;
+        const jobLog = blockLog.child({ job: jobState.address });
+        // A reverting workable() counts as not workable; Work events are still tracked below
+        const canWork = result.ok && result.canWork;
+        const argsString: string | null = result.ok ? result.args : null;
+
+        if (result.ok) {
+            jobLog.debug("workable() result", { canWork, args: argsString, argsFields: result.argsFields });
+            const endedError = clearWorkableFailure(jobState);
+            if (endedError) {
+                jobLog.info(`workable() succeeds again after ${endedError.consecutiveFailures} failed checks`);
+                if (endedError.alerted) {
+                    await sendJobRevertRecoveredAlert(jobState.address, endedError, blockNumber);
+                }
+            }
+        } else {
+            const workableError = recordWorkableFailure(jobState, result.reason, blockNumber);
+            // Warn when the job starts failing, not on every block it keeps failing
+            (workableError.consecutiveFailures === 1 ? jobLog.warn : jobLog.debug)(`workable() reverted: ${result.reason}`, { consecutiveFailures: workableError.consecutiveFailures });
+            if (workableError.consecutiveFailures >= WORKABLE_FAILURE_ALERT_THRESHOLD && !workableError.alerted) {
+                const silence = findMatchingSilence({ jobAddress: jobState.address, network: masterNetwork, reason: result.reason }, blockNumber);
+                if (silence) {
+                    recordAlertSuppressed('silence');
+                    recordDigestAlert(jobState.address, 'suppressed');
+                    jobLog.info(`[Alert silenced] workable() of job ${formatJobName(jobState.address)} reverting`, { silence: formatSilence(silence) });
+                } else {
+                    await sendJobRevertingAlert(jobState.address, workableError, blockNumber);
+                    workableError.alerted = true;
+                    recordDigestAlert(jobState.address, 'fired');
+                }
+            }
         }
 
-        logWithTimestamp(`[Block ${blockNumber.toString()}] workable() result for job ${jobState.address}: ${JSON.stringify({ canWork: canWork, args: argsString })}`);
+        const simulation = simulations[i];
+        if (simulation) {
+            await checkWorkConsistency(jobState, canWork, simulation, blockNumber, masterNetwork, jobLog);
+        }
 
         const previousCheckedBlock = jobState.lastCheckedBlock;
-        jobState.lastCheckedBlock = blockNumber;
 
+        // A workable job was not worked at this block, but blocks skipped since the last check (catch-up
+        // sampling) may still hold Work; a job that is not workable was either worked in the range or unworked
+        const workEvents = !canWork
+            ? await getJobWorkEvents(jobState.address, previousCheckedBlock + BigInt(1), blockNumber)
+            : previousCheckedBlock + BigInt(1) < blockNumber
+                ? await getJobWorkEvents(jobState.address, previousCheckedBlock + BigInt(1), blockNumber - BigInt(1))
+                : [];
         if (canWork) {
-            jobState.consecutiveUnworkedBlocks += BigInt(1);
+            workableJobs.push(jobState.address);
+        }
+
+        // For the digest: blocks this check added to the workable-but-unworked count, and the longest streak it saw
+        let workableUnworkedDelta = BigInt(0);
+        let observedStreak: bigint;
+        if (workEvents.length > 0) {
+            // Workable jobs are workable again since the last Work in the skipped blocks
+            const workedAtBlock = canWork ? workEvents[workEvents.length - 1].blockNumber : blockNumber;
+            const unworkedBlocks = jobState.consecutiveUnworkedBlocks + (workedAtBlock - previousCheckedBlock);
+            recordDigestWork(jobState.address, recordJobWork(jobState, workEvents));
+
+            // Closed only once the notice is delivered. The job is not marked checked yet, so a failed delivery
+            // re-evaluates it at this block on the retry; Work already recorded is skipped then.
+            const incident = jobState.incident;
+            if (incident) {
+                jobLog.info(`Job worked again, resolving incident opened at block ${incident.openedAtBlock.toString()}`);
+                await sendJobRecoveryAlert(jobState.address, incident, unworkedBlocks, blockNumber, getLastWork(jobState));
+                resolveIncident(jobState);
+            }
+            observedStreak = unworkedBlocks;
+            workedJobs.push(jobState.address);
+            jobState.lastWorkedBlock = workedAtBlock;
+            jobState.consecutiveUnworkedBlocks = blockNumber - workedAtBlock;
+            jobState.workableUnworkedBlocks = canWork ? blockNumber - workedAtBlock : BigInt(0);
+            workableUnworkedDelta = jobState.workableUnworkedBlocks;
         } else {
-            const wasWorked = await checkIfJobWasWorked(
-                jobState.address,
-                previousCheckedBlock + BigInt(1),
-                blockNumber,
-                multicallProvider.provider // Use underlying provider for event logs
-            );
+            jobState.consecutiveUnworkedBlocks += blockNumber - previousCheckedBlock;
+            observedStreak = jobState.consecutiveUnworkedBlocks;
+            if (canWork) {
+                // Sampled-over blocks are assumed to share the workable() result of the block that was checked
+                workableUnworkedDelta = blockNumber - previousCheckedBlock;
+                jobState.workableUnworkedBlocks += workableUnworkedDelta;
+            }
+        }
+
+        jobState.lastCheckedBlock = blockNumber;
+        jobState.lastUpdateTime = Date.now();
+        recordDigestJob(jobState.address, observedStreak, workableUnworkedDelta);
 
-            if (wasWorked) {
-                jobState.lastWorkedBlock = blockNumber;
-                jobState.consecutiveUnworkedBlocks = BigInt(0);
+        const jobConfig = getJobConfig(jobState.address);
+        const alertType = classifyJobAlert(jobState, canWork);
+        // While workable() reverts there is no reason to judge the streak by; the reverting alert covers it
+        if ((jobState.incident || reachesAlertThreshold(jobState, alertType, jobConfig)) && !jobState.workableError) {
+            // An ignored reason explains why a job is not workable; it never excuses a workable job left unworked
+            const ignoredReason = alertType !== 'stuck_workable' ? findIgnoredReason(jobConfig, argsString) : null;
+            if (ignoredReason) {
+                recordAlertSuppressed('ignored_reason');
+                recordDigestAlert(jobState.address, 'suppressed');
+                jobLog.info(`[Alert suppressed] Job ${formatJobName(jobState.address)} unworked for ${jobState.consecutiveUnworkedBlocks.toString()} blocks due to ignored reason`, { reason: argsString, matched: formatReasonPattern(ignoredReason) });
             } else {
-                jobState.consecutiveUnworkedBlocks += blockNumber - previousCheckedBlock;
+                // The streak keeps counting; the incident decides whether this block warrants an alert
+                const update = getIncidentUpdate(jobState, blockNumber, jobConfig, alertType);
+                const silence = update ? findMatchingSilence({ jobAddress: jobState.address, network: masterNetwork, reason: argsString }, blockNumber) : null;
+                if (update && silence) {
+                    // Left unmarked, so the alert goes out once the silence is gone
+                    recordAlertSuppressed('silence');
+                    recordDigestAlert(jobState.address, 'suppressed');
+                    jobLog.info(`[Alert silenced] Job ${formatJobName(jobState.address)} unworked for ${jobState.consecutiveUnworkedBlocks.toString()} blocks`, { alertType, silence: formatSilence(silence) });
+                } else if (update) {
+                    await sendJobAlert(
+                        jobState.address,
+                        jobState.consecutiveUnworkedBlocks,
+                        blockNumber,
+                        argsString,
+                        getLastWork(jobState),
+                        update,
+                        jobState.workableUnworkedBlocks
+                    );
+                    markIncidentAlerted(jobState, update, blockNumber);
+                    recordJobAlert(update);
+                    recordDigestAlert(jobState.address, 'fired');
+                }
             }
         }
 
-        jobState.lastUpdateTime = Date.now();
+        observeJob(jobState, canWork, jobConfig.label);
+
+        jobLog.debug("Job state updated", { lastWorkedBlock: jobState.lastWorkedBlock, consecutiveUnworkedBlocks: jobState.consecutiveUnworkedBlocks, workableUnworkedBlocks: jobState.workableUnworkedBlocks });
+    }
 
-        if (jobState.consecutiveUnworkedBlocks >= UNWORKED_BLOCKS_THRESHOLD) {
-            if (argsString && IGNORED_ARGS_MESSAGES.includes(argsString)) {
-                logWithTimestamp(`[Alert suppressed] Job ${jobState.address} unworked for ${jobState.consecutiveUnworkedBlocks.toString()} blocks due to ignored reason: ${argsString}`);
+    const windowOutcome = recordNetworkObservation(blockNumber, workableJobs, workedJobs);
+    if (windowOutcome && windowOutcome.unworkedJobs.length > 0) {
+        const { network } = windowOutcome;
+        blockLog.warn(`Network ${network.name} left ${windowOutcome.unworkedJobs.length} workable jobs unworked in window ${windowOutcome.startBlock.toString()}-${windowOutcome.endBlock.toString()} (${network.consecutiveMissedWindows} consecutive)`, { network: network.name });
+        if (network.consecutiveMissedWindows % NETWORK_MISSED_WINDOWS_THRESHOLD === 0) {
+            const silence = findMatchingSilence({ network: { id: network.id, name: network.name } }, blockNumber);
+            if (silence) {
+                recordAlertSuppressed('silence');
+                blockLog.info(`[Alert silenced] Network ${network.name} missed ${network.consecutiveMissedWindows} consecutive windows`, { network: network.name, silence: formatSilence(silence) });
             } else {
-                await sendDiscordAlert(
-                    jobState.address,
-                    jobState.consecutiveUnworkedBlocks,
-                    blockNumber,
-                    argsString
+                await sendNetworkWindowAlert(
+                    network.name,
+                    network.id,
+                    windowOutcome.startBlock,
+                    windowOutcome.endBlock,
+                    windowOutcome.unworkedJobs,
+                    network.consecutiveMissedWindows
                 );
-                jobState.consecutiveUnworkedBlocks = BigInt(0);
             }
         }
+    }
+
+    blockLog.debug("Finished processBlockNumber");
+}
 
-        // Modified log line to convert BigInts to strings
-        logWithTimestamp(`[Block ${blockNumber.toString()}] Job ${jobState.address} state updated: ${JSON.stringify({ lastWorkedBlock: jobState.lastWorkedBlock.toString(), consecutiveUnworkedBlocks: jobState.consecutiveUnworkedBlocks.toString(), lastCheckedBlock: jobState.lastCheckedBlock.toString() })}`);
+// Highest block considered settled enough to evaluate, per CONFIRMATION_BLOCK_TAG and CONFIRMATION_DEPTH
+export async function getSettledBlockNumber(): Promise<bigint> {
+    let head: bigint;
+    if (CONFIRMATION_BLOCK_TAG === 'latest') {
+        head = BigInt(await timeRpc('getBlockNumber', () => provider.getBlockNumber()));
+    } else {
+        const taggedBlock = await provider.getBlock(CONFIRMATION_BLOCK_TAG);
+        if (!taggedBlock) {
+            throw new Error(`RPC returned no '${CONFIRMATION_BLOCK_TAG}' block`);
+        }
+        head = BigInt(taggedBlock.number);
     }
+    return head - CONFIRMATION_DEPTH;
+}
 
-    logWithTimestamp(`[Block ${blockNumber.toString()}] Finished processBlockNumber`);
+// Re-reads the network schedule at blockNumber when it was read at a later block (at startup, or before a reorg)
+// or when AddNetwork/RemoveNetwork changed it at blockNumber
+async function syncNetworkSchedule(blockNumber: bigint, changed: boolean): Promise<void> {
+    const scheduleBlock = getScheduleBlock();
+    if (scheduleBlock !== null && scheduleBlock !== blockNumber && (changed || scheduleBlock > blockNumber)) {
+        await loadNetworks(blockNumber);
+    }
 }
 
-export async function processNewBlocks(lastProcessedBlock: bigint, blockBatchIntervalMinutes: number, blockCheckInterval: number): Promise<{ lastProcessedBlock: bigint }> {
+// Processes every settled block after lastProcessedBlock. Errors are logged, not thrown: processing stops at the
+// last completed batch and caughtUp stays false, so the caller retries from the returned block.
+export async function processNewBlocks(lastProcessedBlock: bigint, blockBatchIntervalMinutes: number, blockCheckInterval: number): Promise<{ lastProcessedBlock: bigint; caughtUp: boolean }> {
     if (processingBlocks) {
-        logWithTimestamp("[processNewBlocks] Already processing blocks, skipping this interval.");
-        return { lastProcessedBlock };
+        logger.warn("Already processing blocks, skipping this interval");
+        return { lastProcessedBlock, caughtUp: false };
     }
+    let caughtUp = false;
     processingBlocks = true;
-    logWithTimestamp(`[processNewBlocks] Starting processNewBlocks. Interval: ${blockBatchIntervalMinutes} minutes`); // Added interval log here
+    logger.debug(`Starting processNewBlocks. Interval: ${blockBatchIntervalMinutes} minute(s)`);
     try {
-        const currentBlock = BigInt(await multicallProvider.provider.getBlockNumber());
-        logWithTimestamp(`[processNewBlocks] Current block: ${currentBlock.toString()}`);
-        logWithTimestamp(`[processNewBlocks] Last processed block: ${lastProcessedBlock ? lastProcessedBlock.toString() : 'N/A'}`);
+        const currentBlock = await getSettledBlockNumber();
+        logger.info(`Settled head is ${currentBlock.toString()} (${CONFIRMATION_BLOCK_TAG}, depth ${CONFIRMATION_DEPTH.toString()})`, { block: currentBlock, lastProcessedBlock });
 
         if (!lastProcessedBlock) {
             lastProcessedBlock = currentBlock - BigInt(1);
-            logWithTimestamp(`[processNewBlocks] Initializing lastProcessedBlock to: ${lastProcessedBlock.toString()}`);
+            logger.info("Initializing lastProcessedBlock", { lastProcessedBlock });
         }
 
         const blockBatchIntervalBlocks = Math.min(
@@ -138,25 +355,67 @@ export async function processNewBlocks(lastProcessedBlock: bigint, blockBatchInt
             Math.max(1, Math.floor((blockBatchIntervalMinutes * 60 * 1000) / blockCheckInterval))
         );
 
-        for (let block = lastProcessedBlock + BigInt(1); block <= currentBlock; block = block + BigInt(blockBatchIntervalBlocks)) {
+        setHeadLag(currentBlock, lastProcessedBlock);
+        // More blocks than one regular batch means the monitor fell behind (downtime, a scheduled run); live runs check every block
+        const catchingUp = currentBlock - lastProcessedBlock > BigInt(blockBatchIntervalBlocks);
+        if (catchingUp && CATCHUP_SAMPLE_STRIDE > 1) {
+            logger.info(`Catching up ${(currentBlock - lastProcessedBlock).toString()} blocks, evaluating every ${CATCHUP_SAMPLE_STRIDE}th block`, { lastProcessedBlock, currentBlock });
+        }
+        let block = lastProcessedBlock + BigInt(1);
+        while (block <= currentBlock) {
+            const endBatchTimer = batchDuration.startTimer();
             const toBlock = block + BigInt(blockBatchIntervalBlocks) - BigInt(1) > currentBlock ? currentBlock : block + BigInt(blockBatchIntervalBlocks) - BigInt(1);
-            logWithTimestamp(`[processNewBlocks] Processing blocks from: ${block.toString()} to ${toBlock.toString()}`);
+            logger.info(`Processing blocks ${block.toString()}-${toBlock.toString()}`, { fromBlock: block, toBlock });
+            if (lastReconcileBlock === null || block - lastReconcileBlock >= JOB_RECONCILE_INTERVAL_BLOCKS) {
+                // Against the registry as of the last processed block, before this batch's events are applied
+                await reconcileActiveJobs(block - BigInt(1));
+                lastReconcileBlock = block;
+            }
+            const jobChanges = await syncJobRegistry(block, toBlock);
+            const networkChanges = await findNetworkChanges(block, toBlock);
+            workLogIndex = await buildWorkLogIndex(
+                Array.from(jobStates.keys()),
+                workLogIndexStart(block, toBlock),
+                toBlock,
+                provider
+            );
             for (let b = block; b <= toBlock; b = b + BigInt(1)) {
-                await processBlockNumber(b);
+                const header = REORG_RING_SIZE > 0 ? await fetchBlockHeader(b) : null;
+                if (header) {
+                    const ancestor = await detectAndRewindReorg(header);
+                    if (ancestor !== null) {
+                        // Job states are back at the ancestor checkpoint; reprocess the canonical range from there
+                        resetActiveWindow();
+                        lastProcessedBlock = ancestor;
+                        break;
+                    }
+                }
+                await applyJobRegistryChanges(jobChanges, b);
+                await syncNetworkSchedule(b, networkChanges.includes(b));
+                if (isSampledBlock(b, block, toBlock, catchingUp)) {
+                    await processBlockNumber(b);
+                }
+                if (header) {
+                    recordCheckpoint(header);
+                }
                 lastProcessedBlock = b;
             }
+            workLogIndex = null;
+            await persistState(lastProcessedBlock);
+            endBatchTimer();
+            setHeadLag(currentBlock, lastProcessedBlock);
+            block = lastProcessedBlock + BigInt(1);
         }
 
-
-        logWithTimestamp(`[processNewBlocks] lastProcessedBlock updated to: ${lastProcessedBlock.toString()}`);
-        logWithTimestamp(`[processNewBlocks] Waiting for next interval. Interval: ${blockBatchIntervalMinutes} minute(s)`);
+        caughtUp = true;
+        logger.info("Caught up with the settled head", { lastProcessedBlock });
 
     } catch (error) {
-        console.error("Error processing new blocks:", error);
-        logWithTimestamp(`[processNewBlocks] Error details: ${error}`); // Include error details in log
+        logger.error("Error processing new blocks", { error, lastProcessedBlock });
     } finally {
+        workLogIndex = null;
         processingBlocks = false;
-        logWithTimestamp("[processNewBlocks] Finished processNewBlocks");
+        logger.debug("Finished processNewBlocks");
     }
-    return { lastProcessedBlock };
+    return { lastProcessedBlock, caughtUp };
 }
@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+import { configureLogger, createLogger } from './logger';
+
+const logger = createLogger('cli');
+
+const USAGE = [
+    'Usage: beep3r <command> [options]',
+    '',
+    'Commands:',
+    '  monitor   Watch the Sequencer jobs and send alerts (default)',
+    '  run-once  Process the blocks since the previous run, send their alerts and exit (for cron and other schedulers)',
+    '            Exit status: 0 caught up, 1 stopped early or failed (the next run resumes from the saved state)',
+    '  audit     Rebuild job work timelines for a past block range, without alerting or touching monitor state',
+    '            beep3r audit --from <block> --to <block> [--job <address>]... [--format table|json|csv] [--top <n>]',
+].join('\n');
+
+async function audit(args: string[]): Promise<void> {
+    // The report goes to stdout, so logs (including those emitted while modules load) go to stderr
+    configureLogger({ stderrOnly: true });
+    const { parseAuditArgs, runAudit, formatAuditReport, AuditUsageError, AUDIT_USAGE } = await import('./audit');
+
+    let options;
+    try {
+        options = parseAuditArgs(args);
+    } catch (error) {
+        if (error instanceof AuditUsageError) {
+            console.error(`${error.message}\n${AUDIT_USAGE}`);
+            process.exit(2);
+        }
+        throw error;
+    }
+
+    const report = await runAudit(options);
+    process.stdout.write(`${formatAuditReport(report, options.format, options.top)}\n`, () => process.exit(0));
+}
+
+async function runOnce(): Promise<void> {
+    const { runOnce } = await import('./app');
+    const { updateAlertSource } = await import('./alerting');
+    const { TARGET_NAME, SEQUENCER_ADDRESS } = await import('./config');
+    updateAlertSource({ target: TARGET_NAME || null, sequencer: SEQUENCER_ADDRESS });
+    const caughtUp = await runOnce();
+    process.exit(caughtUp ? 0 : 1);
+}
+
+const [command = 'monitor', ...args] = process.argv.slice(2);
+switch (command) {
+    case 'monitor':
+        require('./index');
+        break;
+    case 'audit':
+        audit(args).catch(error => {
+            logger.fatal('Audit failed', { error });
+            process.exit(1);
+        });
+        break;
+    case 'run-once':
+        runOnce().catch(error => {
+            logger.fatal('Scheduled run failed', { error });
+            process.exit(1);
+        });
+        break;
+    case 'help':
+    case '--help':
+    case '-h':
+        console.log(USAGE);
+        break;
+    default:
+        console.error(`Unknown command: ${command}\n${USAGE}`);
+        process.exit(2);
+}
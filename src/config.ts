@@ -1,20 +1,95 @@
 import * as dotenv from 'dotenv';
+import { configureLogger, isLogLevel } from './logger';
 
 dotenv.config();
 
-const requiredEnvVars = ['ETHEREUM_RPC_URL', 'DISCORD_WEBHOOK_URL'] as const;
+const requiredEnvVars = ['ETHEREUM_RPC_URL'] as const;
 for (const envVar of requiredEnvVars) {
     if (!process.env[envVar]) {
         throw new Error(`Missing ${envVar} in environment variables.`);
     }
 }
 
+const alertSinkEnvVars = ['DISCORD_WEBHOOK_URL', 'SLACK_WEBHOOK_URL', 'TELEGRAM_BOT_TOKEN', 'PAGERDUTY_ROUTING_KEY', 'ALERT_WEBHOOK_URL'] as const;
+if (!alertSinkEnvVars.some(envVar => process.env[envVar])) {
+    throw new Error(`Missing alert destination: set at least one of ${alertSinkEnvVars.join(', ')} in environment variables.`);
+}
+if (process.env.TELEGRAM_BOT_TOKEN && !process.env.TELEGRAM_CHAT_ID) {
+    throw new Error('Missing TELEGRAM_CHAT_ID in environment variables (required with TELEGRAM_BOT_TOKEN).');
+}
+
 export const ETHEREUM_RPC_URL = process.env.ETHEREUM_RPC_URL!;
-export const DISCORD_WEBHOOK_URL = process.env.DISCORD_WEBHOOK_URL!;
+// ETHEREUM_RPC_URL may list several comma-separated endpoints; requests fail over between them
+export const ETHEREUM_RPC_URLS = ETHEREUM_RPC_URL.split(',').map(url => url.trim()).filter(url => url.length > 0);
+for (const url of ETHEREUM_RPC_URLS) {
+    if (!/^https?:\/\//i.test(url)) {
+        throw new Error(`Invalid RPC URL in ETHEREUM_RPC_URL: ${url} (expected http:// or https://)`);
+    }
+}
+// Optional WebSocket endpoint; when set, blocks are processed as new heads arrive instead of on the batch timer
+export const ETHEREUM_WS_URL = (process.env.ETHEREUM_WS_URL || '').trim();
+if (ETHEREUM_WS_URL && !/^wss?:\/\//i.test(ETHEREUM_WS_URL)) {
+    throw new Error(`Invalid ETHEREUM_WS_URL: ${ETHEREUM_WS_URL} (expected ws:// or wss://)`);
+}
+export const WS_STALL_TIMEOUT_MS = parseInt(process.env.WS_STALL_TIMEOUT_MS || '60000');
+export const WS_RECONNECT_DELAY_MS = parseInt(process.env.WS_RECONNECT_DELAY_MS || '5000');
+export const RPC_TIMEOUT_MS = parseInt(process.env.RPC_TIMEOUT_MS || '10000');
+export const RPC_MAX_RETRIES = parseInt(process.env.RPC_MAX_RETRIES || '3');
+export const RPC_RETRY_BASE_DELAY_MS = parseInt(process.env.RPC_RETRY_BASE_DELAY_MS || '500');
+export const RPC_HEALTH_CHECK_INTERVAL_MS = parseInt(process.env.RPC_HEALTH_CHECK_INTERVAL_MS || '30000');
+export const RPC_MAX_ERROR_RATE = parseFloat(process.env.RPC_MAX_ERROR_RATE || '0.5');
+export const RPC_MAX_HEAD_LAG_BLOCKS = BigInt(process.env.RPC_MAX_HEAD_LAG_BLOCKS || '5');
+export const DISCORD_WEBHOOK_URL = process.env.DISCORD_WEBHOOK_URL || '';
+export const SLACK_WEBHOOK_URL = process.env.SLACK_WEBHOOK_URL || '';
+export const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || '';
+export const TELEGRAM_CHAT_ID = process.env.TELEGRAM_CHAT_ID || '';
+export const TELEGRAM_API_URL = process.env.TELEGRAM_API_URL || 'https://api.telegram.org';
+export const PAGERDUTY_ROUTING_KEY = process.env.PAGERDUTY_ROUTING_KEY || '';
+export const PAGERDUTY_EVENTS_URL = process.env.PAGERDUTY_EVENTS_URL || 'https://events.pagerduty.com/v2/enqueue';
+export const PAGERDUTY_MIN_SEVERITY = (process.env.PAGERDUTY_MIN_SEVERITY || 'warning').toLowerCase();
+export const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL || '';
+export const ALERT_WEBHOOK_AUTH_HEADER = process.env.ALERT_WEBHOOK_AUTH_HEADER || '';
+if (!['info', 'warning', 'critical'].includes(PAGERDUTY_MIN_SEVERITY)) {
+    throw new Error(`Invalid PAGERDUTY_MIN_SEVERITY: ${PAGERDUTY_MIN_SEVERITY} (expected info, warning or critical)`);
+}
+export const LOG_LEVEL = (process.env.LOG_LEVEL || 'info').toLowerCase();
+export const LOG_FORMAT = (process.env.LOG_FORMAT || 'text').toLowerCase();
+if (!isLogLevel(LOG_LEVEL)) {
+    throw new Error(`Invalid LOG_LEVEL: ${LOG_LEVEL} (expected debug, info, warn, error or fatal)`);
+}
+if (LOG_FORMAT !== 'text' && LOG_FORMAT !== 'json') {
+    throw new Error(`Invalid LOG_FORMAT: ${LOG_FORMAT} (expected text or json)`);
+}
+// Name of the monitored target (set for each target of TARGETS_CONFIG_PATH); shown in logs and alerts
+export const TARGET_NAME = (process.env.TARGET_NAME || '').trim();
+// Applied here so modules that log while being loaded already honour it
+configureLogger({ level: LOG_LEVEL, format: LOG_FORMAT, fields: TARGET_NAME ? { target: TARGET_NAME } : {} });
+export const SEQUENCER_ADDRESS = (process.env.SEQUENCER_ADDRESS || '0x238b4E35dAed6100C6162fAE4510261f88996EC9').trim();
+if (!/^0x[0-9a-fA-F]{40}$/.test(SEQUENCER_ADDRESS)) {
+    throw new Error(`Invalid SEQUENCER_ADDRESS: ${SEQUENCER_ADDRESS} (expected a 0x-prefixed 20-byte address)`);
+}
+// Chain the RPC endpoints must serve; startup fails on a mismatch. Unset accepts any chain.
+export const CHAIN_ID = process.env.CHAIN_ID ? BigInt(process.env.CHAIN_ID) : null;
 export const BLOCK_CHECK_INTERVAL = parseInt(process.env.BLOCK_CHECK_INTERVAL || '15000');
 export const BLOCK_BATCH_INTERVAL_MINUTES = parseInt(process.env.BLOCK_BATCH_INTERVAL || '5');
+// /readyz reports not ready once lastProcessedBlock has not advanced for this long (default: three batch intervals)
+export const READINESS_STALE_AFTER_MS = parseInt(process.env.READINESS_STALE_AFTER_MS || String(BLOCK_BATCH_INTERVAL_MINUTES * 60 * 1000 * 3));
 export const UNWORKED_BLOCKS_THRESHOLD = BigInt(process.env.UNWORKED_BLOCKS_THRESHOLD || '1000');
+export const ALERT_REMINDER_INTERVAL_BLOCKS = BigInt(process.env.ALERT_REMINDER_INTERVAL_BLOCKS || process.env.UNWORKED_BLOCKS_THRESHOLD || '1000');
+export const ALERT_REMINDER_BACKOFF = parseFloat(process.env.ALERT_REMINDER_BACKOFF || '2');
+export const ALERT_REMINDER_MAX_INTERVAL_BLOCKS = BigInt(process.env.ALERT_REMINDER_MAX_INTERVAL_BLOCKS || '14400');
+export const ALERT_ESCALATION_THRESHOLD = BigInt(process.env.ALERT_ESCALATION_THRESHOLD || (UNWORKED_BLOCKS_THRESHOLD * BigInt(3)).toString());
+// Thresholds of the stuck-workable and never-workable alert types; unset means the job's unworked threshold
+export const STUCK_WORKABLE_THRESHOLD = process.env.STUCK_WORKABLE_THRESHOLD ? BigInt(process.env.STUCK_WORKABLE_THRESHOLD) : null;
+export const NEVER_WORKABLE_THRESHOLD = process.env.NEVER_WORKABLE_THRESHOLD ? BigInt(process.env.NEVER_WORKABLE_THRESHOLD) : null;
+if (!(ALERT_REMINDER_BACKOFF >= 1)) {
+    throw new Error(`Invalid ALERT_REMINDER_BACKOFF: ${process.env.ALERT_REMINDER_BACKOFF} (expected a number >= 1)`);
+}
 export const MAX_JOB_AGE = parseInt(process.env.MAX_JOB_AGE || '86400000');
+export const HTTP_PORT = parseInt(process.env.HTTP_PORT || '3000');
+export const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN || '';
+export const JOB_CONFIG_PATH = process.env.JOB_CONFIG_PATH || '';
+// Built-in ignored workable() reasons, used unless the job config file sets defaults.ignoredReasons
 export const IGNORED_ARGS_MESSAGES = [
     "No ilks ready",
     "Flap not possible",
@@ -22,3 +97,45 @@ export const IGNORED_ARGS_MESSAGES = [
     "No work to do",
     "shouldUpdate is false"
 ];
+export const STATE_STORE = (process.env.STATE_STORE || 'json').toLowerCase();
+// Each target keeps its own state file by default
+export const STATE_STORE_PATH = process.env.STATE_STORE_PATH || `./data/beep3r-state${TARGET_NAME ? `-${TARGET_NAME}` : ''}.${STATE_STORE === 'sqlite' ? 'sqlite' : 'json'}`;
+export const STATE_MAX_AGE_BLOCKS = BigInt(process.env.STATE_MAX_AGE_BLOCKS || '1000');
+export const JOB_RECONCILE_INTERVAL_BLOCKS = BigInt(process.env.JOB_RECONCILE_INTERVAL_BLOCKS || '1000');
+export const NETWORK_MISSED_WINDOWS_THRESHOLD = parseInt(process.env.NETWORK_MISSED_WINDOWS_THRESHOLD || '3');
+if (!(NETWORK_MISSED_WINDOWS_THRESHOLD >= 1)) {
+    throw new Error(`Invalid NETWORK_MISSED_WINDOWS_THRESHOLD: ${process.env.NETWORK_MISSED_WINDOWS_THRESHOLD} (expected a whole number >= 1)`);
+}
+// Consecutive failed workable() checks before a job's reverting alert is sent
+export const WORKABLE_FAILURE_ALERT_THRESHOLD = parseInt(process.env.WORKABLE_FAILURE_ALERT_THRESHOLD || '3');
+export const REORG_RING_SIZE = parseInt(process.env.REORG_RING_SIZE || '64');
+export const CONFIRMATION_BLOCK_TAG = (process.env.CONFIRMATION_BLOCK_TAG || 'latest').toLowerCase();
+export const CONFIRMATION_DEPTH = BigInt(process.env.CONFIRMATION_DEPTH || '0');
+// While catching up on more blocks than one batch holds, workable() is only evaluated on every Nth block and on each batch's last block
+export const CATCHUP_SAMPLE_STRIDE = parseInt(process.env.CATCHUP_SAMPLE_STRIDE || '1');
+if (!(CATCHUP_SAMPLE_STRIDE >= 1)) {
+    throw new Error(`Invalid CATCHUP_SAMPLE_STRIDE: ${process.env.CATCHUP_SAMPLE_STRIDE} (expected a whole number >= 1)`);
+}
+// work() is simulated for every workable job, and for jobs that are not workable on every Nth block (0 = never)
+export const WORK_SIMULATION_ENABLED = (process.env.WORK_SIMULATION_ENABLED || 'true').toLowerCase() === 'true';
+export const WORK_SIMULATION_SAMPLE_BLOCKS = BigInt(process.env.WORK_SIMULATION_SAMPLE_BLOCKS || '100');
+// Caller of the simulated work(); a neutral address, so no keeper's permissions or bonds come into play
+export const WORK_SIMULATION_FROM = process.env.WORK_SIMULATION_FROM || '0x0000000000000000000000000000000000000001';
+// Activity digests posted through the alert sinks: daily and/or weekly (or none), at DIGEST_HOUR_UTC, weekly ones on DIGEST_WEEKDAY
+const DIGEST_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const digestSchedule = (process.env.DIGEST_SCHEDULE ?? 'daily,weekly').toLowerCase().split(',').map(period => period.trim()).filter(period => period.length > 0 && period !== 'none');
+if (!digestSchedule.every(period => period === 'daily' || period === 'weekly')) {
+    throw new Error(`Invalid DIGEST_SCHEDULE: ${process.env.DIGEST_SCHEDULE} (expected daily, weekly, both separated by a comma, or none)`);
+}
+export const DIGEST_SCHEDULE = Array.from(new Set(digestSchedule)) as Array<'daily' | 'weekly'>;
+export const DIGEST_HOUR_UTC = parseInt(process.env.DIGEST_HOUR_UTC || '0');
+if (!(DIGEST_HOUR_UTC >= 0 && DIGEST_HOUR_UTC <= 23)) {
+    throw new Error(`Invalid DIGEST_HOUR_UTC: ${process.env.DIGEST_HOUR_UTC} (expected a whole hour from 0 to 23)`);
+}
+export const DIGEST_WEEKDAY = DIGEST_WEEKDAYS.indexOf((process.env.DIGEST_WEEKDAY || 'monday').toLowerCase());
+if (DIGEST_WEEKDAY < 0) {
+    throw new Error(`Invalid DIGEST_WEEKDAY: ${process.env.DIGEST_WEEKDAY} (expected a day of the week, e.g. monday)`);
+}
+if (!['latest', 'safe', 'finalized'].includes(CONFIRMATION_BLOCK_TAG)) {
+    throw new Error(`Invalid CONFIRMATION_BLOCK_TAG: ${CONFIRMATION_BLOCK_TAG} (expected latest, safe or finalized)`);
+}
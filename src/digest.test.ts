@@ -0,0 +1,94 @@
+import { buildDigestReport, digestPeriods, DigestPeriodState, nextDigestTime, recordDigestAlert, recordDigestBlock, recordDigestJob, recordDigestWork, restoreDigests, sendDueDigests } from './digest';
+import { sendDigestReport } from './alerting';
+
+jest.mock('./alerting', () => ({
+    sendDigestReport: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('./config', () => ({
+    DIGEST_SCHEDULE: ['daily', 'weekly'],
+    DIGEST_HOUR_UTC: 9,
+    DIGEST_WEEKDAY: 1,
+}));
+jest.mock('./logger');
+
+const JOB = '0x67AD4000e73579B9725eE3A149F85C4Af0A61361';
+const OTHER_JOB = '0xc32506E9bB590971671b649d9B8e18CB6260559F';
+const KEEPER = '0x1111111111111111111111111111111111111111';
+const MAKER = '0x4d414b4552000000000000000000000000000000000000000000000000000000';
+// A Wednesday, noon UTC
+const STARTED_AT = Date.UTC(2024, 0, 3, 12);
+const HOUR = 60 * 60 * 1000;
+
+function emptyPeriod(period: 'daily' | 'weekly'): DigestPeriodState {
+    return { period, startedAt: STARTED_AT, fromBlock: null, toBlock: null, jobs: {}, keepers: {}, networks: {} };
+}
+
+describe('digest', () => {
+    beforeEach(() => {
+        restoreDigests([emptyPeriod('daily'), emptyPeriod('weekly')]);
+        (sendDigestReport as jest.Mock).mockReset().mockResolvedValue(undefined);
+    });
+
+    it('should schedule daily digests at the configured hour and weekly ones on the configured weekday', () => {
+        expect(nextDigestTime('daily', STARTED_AT)).toBe(Date.UTC(2024, 0, 4, 9));
+        expect(nextDigestTime('daily', Date.UTC(2024, 0, 3, 8))).toBe(Date.UTC(2024, 0, 3, 9));
+        expect(nextDigestTime('weekly', STARTED_AT)).toBe(Date.UTC(2024, 0, 8, 9));
+        expect(nextDigestTime('weekly', Date.UTC(2024, 0, 8, 8))).toBe(Date.UTC(2024, 0, 8, 9));
+        expect(nextDigestTime('weekly', Date.UTC(2024, 0, 8, 9))).toBe(Date.UTC(2024, 0, 15, 9));
+    });
+
+    it('should gather work, streaks and alerts per job and rank the most troubled jobs first', () => {
+        recordDigestBlock(BigInt(1001));
+        recordDigestJob(JOB, BigInt(1), BigInt(0));
+        recordDigestJob(OTHER_JOB, BigInt(40), BigInt(1));
+        recordDigestBlock(BigInt(1002));
+        recordDigestJob(JOB, BigInt(2), BigInt(0));
+        recordDigestWork(JOB, [{ network: MAKER, keeper: KEEPER, blockNumber: BigInt(1002), transactionHash: '0xabc' }]);
+        recordDigestJob(OTHER_JOB, BigInt(41), BigInt(1));
+        recordDigestAlert(OTHER_JOB, 'fired');
+        recordDigestAlert(OTHER_JOB, 'suppressed');
+
+        const report = buildDigestReport(digestPeriods.get('daily')!, STARTED_AT + HOUR);
+
+        expect(report).toEqual(expect.objectContaining({ fromBlock: BigInt(1001), toBlock: BigInt(1002) }));
+        expect(report.jobs).toEqual([
+            { address: OTHER_JOB, workCount: 0, longestUnworkedStreak: BigInt(41), workableUnworkedBlocks: BigInt(2), alertsFired: 1, alertsSuppressed: 1 },
+            { address: JOB, workCount: 1, longestUnworkedStreak: BigInt(2), workableUnworkedBlocks: BigInt(0), alertsFired: 0, alertsSuppressed: 0 },
+        ]);
+        expect(report.keepers).toEqual([{ id: KEEPER, workCount: 1 }]);
+        expect(report.networks).toEqual([{ id: MAKER, workCount: 1 }]);
+        expect(buildDigestReport(digestPeriods.get('weekly')!, STARTED_AT + HOUR).jobs).toHaveLength(2);
+    });
+
+    it('should send a digest once it is due and start the next period', async () => {
+        recordDigestBlock(BigInt(1001));
+        recordDigestJob(JOB, BigInt(5), BigInt(0));
+
+        await expect(sendDueDigests(Date.UTC(2024, 0, 4, 8))).resolves.toBe(false);
+        expect(sendDigestReport).not.toHaveBeenCalled();
+
+        const due = Date.UTC(2024, 0, 4, 9);
+        await expect(sendDueDigests(due)).resolves.toBe(true);
+        expect(sendDigestReport).toHaveBeenCalledTimes(1);
+        expect(sendDigestReport).toHaveBeenCalledWith(expect.objectContaining({ period: 'daily', startedAt: STARTED_AT, endedAt: due, fromBlock: BigInt(1001) }));
+        expect(digestPeriods.get('daily')).toEqual({ ...emptyPeriod('daily'), startedAt: due });
+        expect(digestPeriods.get('weekly')!.fromBlock).toBe(BigInt(1001));
+    });
+
+    it('should keep the data of a digest that could not be delivered', async () => {
+        recordDigestJob(JOB, BigInt(5), BigInt(0));
+        (sendDigestReport as jest.Mock).mockRejectedValueOnce(new Error('Status: 503'));
+
+        await expect(sendDueDigests(Date.UTC(2024, 0, 4, 9))).resolves.toBe(false);
+        expect(digestPeriods.get('daily')!.startedAt).toBe(STARTED_AT);
+
+        await expect(sendDueDigests(Date.UTC(2024, 0, 4, 10))).resolves.toBe(true);
+        expect(sendDigestReport).toHaveBeenLastCalledWith(expect.objectContaining({ jobs: [expect.objectContaining({ address: JOB, longestUnworkedStreak: BigInt(5) })] }));
+    });
+
+    it('should drop restored periods that are no longer configured', () => {
+        restoreDigests([emptyPeriod('daily'), { ...emptyPeriod('monthly' as 'daily') }]);
+
+        expect(Array.from(digestPeriods.keys())).toEqual(['daily']);
+    });
+});
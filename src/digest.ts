@@ -0,0 +1,169 @@
+import type { WorkRecord } from './job_manager';
+import { sendDigestReport } from './alerting';
+import { createLogger } from './logger';
+import { DIGEST_SCHEDULE, DIGEST_HOUR_UTC, DIGEST_WEEKDAY } from './config';
+
+const logger = createLogger('digest');
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+// Activity of one job during a digest period, as observed by block processing
+export interface JobDigestStats {
+    address: string;
+    workCount: number;
+    longestUnworkedStreak: bigint;
+    workableUnworkedBlocks: bigint; // Blocks the job could have been worked but was not
+    alertsFired: number;
+    alertsSuppressed: number; // By an ignored reason or a silence
+}
+
+// Everything gathered for one digest since it was last sent; persisted with the rest of the state
+export interface DigestPeriodState {
+    period: DigestPeriod;
+    startedAt: number;
+    fromBlock: bigint | null;
+    toBlock: bigint | null;
+    jobs: Record<string, JobDigestStats>; // Keyed by lowercased job address
+    keepers: Record<string, number>; // Work events by lowercased keeper address
+    networks: Record<string, number>; // Work events by bytes32 network identifier
+}
+
+export interface DigestReport {
+    period: DigestPeriod;
+    startedAt: number;
+    endedAt: number;
+    fromBlock: bigint | null;
+    toBlock: bigint | null;
+    jobs: JobDigestStats[]; // Most alerted first, then longest streak
+    keepers: Array<{ id: string; workCount: number }>;
+    networks: Array<{ id: string; workCount: number }>;
+}
+
+const PERIOD_DAYS: Record<DigestPeriod, number> = { daily: 1, weekly: 7 };
+
+export const digestPeriods: Map<DigestPeriod, DigestPeriodState> = new Map();
+
+function startPeriod(period: DigestPeriod, now: number): DigestPeriodState {
+    const state: DigestPeriodState = { period, startedAt: now, fromBlock: null, toBlock: null, jobs: {}, keepers: {}, networks: {} };
+    digestPeriods.set(period, state);
+    return state;
+}
+
+// The configured periods, started on first use
+function activePeriods(): DigestPeriodState[] {
+    return DIGEST_SCHEDULE.map(period => digestPeriods.get(period) ?? startPeriod(period, Date.now()));
+}
+
+function jobStats(state: DigestPeriodState, jobAddress: string): JobDigestStats {
+    const key = jobAddress.toLowerCase();
+    if (!state.jobs[key]) {
+        state.jobs[key] = { address: jobAddress, workCount: 0, longestUnworkedStreak: BigInt(0), workableUnworkedBlocks: BigInt(0), alertsFired: 0, alertsSuppressed: 0 };
+    }
+    return state.jobs[key];
+}
+
+// First scheduled send time after `after`: DIGEST_HOUR_UTC every day, or on DIGEST_WEEKDAY for the weekly digest
+export function nextDigestTime(period: DigestPeriod, after: number, hourUtc: number = DIGEST_HOUR_UTC, weekday: number = DIGEST_WEEKDAY): number {
+    const next = new Date(after);
+    next.setUTCHours(hourUtc, 0, 0, 0);
+    if (period === 'weekly') {
+        next.setUTCDate(next.getUTCDate() + (weekday - next.getUTCDay() + 7) % 7);
+    }
+    while (next.getTime() <= after) {
+        next.setUTCDate(next.getUTCDate() + PERIOD_DAYS[period]);
+    }
+    return next.getTime();
+}
+
+export function recordDigestBlock(blockNumber: bigint): void {
+    for (const state of activePeriods()) {
+        if (state.fromBlock === null || blockNumber < state.fromBlock) {
+            state.fromBlock = blockNumber;
+        }
+        if (state.toBlock === null || blockNumber > state.toBlock) {
+            state.toBlock = blockNumber;
+        }
+    }
+}
+
+// Called for each job at every processed block with its streak and the workable-but-unworked blocks added by the block
+export function recordDigestJob(jobAddress: string, consecutiveUnworkedBlocks: bigint, workableUnworkedDelta: bigint): void {
+    for (const state of activePeriods()) {
+        const stats = jobStats(state, jobAddress);
+        if (consecutiveUnworkedBlocks > stats.longestUnworkedStreak) {
+            stats.longestUnworkedStreak = consecutiveUnworkedBlocks;
+        }
+        stats.workableUnworkedBlocks += workableUnworkedDelta;
+    }
+}
+
+export function recordDigestWork(jobAddress: string, records: WorkRecord[]): void {
+    for (const state of activePeriods()) {
+        jobStats(state, jobAddress).workCount += records.length;
+        for (const record of records) {
+            const keeper = record.keeper.toLowerCase();
+            state.keepers[keeper] = (state.keepers[keeper] ?? 0) + 1;
+            state.networks[record.network] = (state.networks[record.network] ?? 0) + 1;
+        }
+    }
+}
+
+export function recordDigestAlert(jobAddress: string, outcome: 'fired' | 'suppressed'): void {
+    for (const state of activePeriods()) {
+        const stats = jobStats(state, jobAddress);
+        if (outcome === 'fired') {
+            stats.alertsFired += 1;
+        } else {
+            stats.alertsSuppressed += 1;
+        }
+    }
+}
+
+function byWorkCount(counts: Record<string, number>): Array<{ id: string; workCount: number }> {
+    return Object.entries(counts).map(([id, workCount]) => ({ id, workCount })).sort((a, b) => b.workCount - a.workCount);
+}
+
+export function buildDigestReport(state: DigestPeriodState, endedAt: number): DigestReport {
+    const jobs = Object.values(state.jobs).map(stats => ({ ...stats })).sort((a, b) =>
+        b.alertsFired - a.alertsFired || (b.longestUnworkedStreak > a.longestUnworkedStreak ? 1 : b.longestUnworkedStreak < a.longestUnworkedStreak ? -1 : 0));
+    return {
+        period: state.period,
+        startedAt: state.startedAt,
+        endedAt,
+        fromBlock: state.fromBlock,
+        toBlock: state.toBlock,
+        jobs,
+        keepers: byWorkCount(state.keepers),
+        networks: byWorkCount(state.networks),
+    };
+}
+
+// Sends every digest whose scheduled time has passed and starts its next period. A digest that cannot be
+// delivered keeps its data and is tried again on the next call. Returns whether any digest was sent.
+export async function sendDueDigests(now: number = Date.now()): Promise<boolean> {
+    let sent = false;
+    for (const state of activePeriods()) {
+        if (now < nextDigestTime(state.period, state.startedAt)) {
+            continue;
+        }
+        try {
+            await sendDigestReport(buildDigestReport(state, now));
+            logger.info(`Sent ${state.period} digest`, { fromBlock: state.fromBlock, toBlock: state.toBlock, jobs: Object.keys(state.jobs).length });
+            startPeriod(state.period, now);
+            sent = true;
+        } catch (error) {
+            logger.error(`Failed to send ${state.period} digest, retrying after the next batch`, { error });
+        }
+    }
+    return sent;
+}
+
+// Periods that are no longer configured are dropped; new ones start now
+export function restoreDigests(states: DigestPeriodState[]): void {
+    digestPeriods.clear();
+    for (const state of states) {
+        if (DIGEST_SCHEDULE.includes(state.period)) {
+            digestPeriods.set(state.period, { ...state, jobs: { ...state.jobs }, keepers: { ...state.keepers }, networks: { ...state.networks } });
+        }
+    }
+}
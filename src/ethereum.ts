@@ -1,8 +1,10 @@
-import { ethers, getDefaultProvider } from 'ethers';
+import { ethers } from 'ethers';
 import sequencerAbi from './abis/sequencerAbi.json';
 import jobAbi from './abis/IJobAbi.json';
-import { ETHEREUM_RPC_URL } from './config';
-import { logWithTimestamp } from './utils'; // Import logWithTimestamp
+import { ETHEREUM_RPC_URLS, SEQUENCER_ADDRESS, RPC_TIMEOUT_MS, RPC_MAX_RETRIES, RPC_RETRY_BASE_DELAY_MS, RPC_MAX_ERROR_RATE, RPC_MAX_HEAD_LAG_BLOCKS } from './config';
+import { createLogger } from './logger';
+import { createRpcPool, createFailoverProvider, RpcPool, RpcEndpointStatus } from './rpc_pool';
+import { sendSystemMessage } from './alerting';
 
 // Import MulticallWrapper using require
 const multicallProviderLib = require('ethers-multicall-provider');
@@ -10,49 +12,60 @@ const MulticallWrapper = multicallProviderLib.MulticallWrapper; // Use Multicall
 import { MulticallProvider } from 'ethers-multicall-provider'; // Import MulticallProvider type
 
 
-export const SEQUENCER_ADDRESS = '0x238b4E35dAed6100C6162fAE4510261f88996EC9';
+const logger = createLogger('ethereum');
+
+let rpcPool: RpcPool;
+// Plain provider for job calls (callWorkable batches them itself), caller-sensitive calls, logs and blocks
+let provider: ethers.JsonRpcProvider;
+// Batches contract calls through the multicall contract. It wraps its own provider instance, since the
+// wrapper patches the provider in place and its .provider is that same, patched object.
+let multicallProvider: MulticallProvider;
 let sequencerContract: ethers.Contract;
 let jobInterface: ethers.Interface;
 
-let provider;
-export let multicallProvider: MulticallProvider; // Export multicallProvider with type annotation
-
-try {
-    provider = getDefaultProvider(ETHEREUM_RPC_URL);
-    multicallProvider = MulticallWrapper.wrap(provider) as MulticallProvider; // Type assertion here as well
-    logWithTimestamp("Successfully connected to Ethereum provider."); // Log successful connection
-    // Initialize contracts after multicallProvider is ready
-    initializeContracts();
-} catch (error) {
-    logWithTimestamp(`Error connecting to Ethereum provider: ${error}`); // Log connection error
-    console.error("Fatal error connecting to Ethereum provider:", error);
-    process.exit(1); // Exit if provider connection fails
-    logWithTimestamp('Contracts initialized successfully.');
+function describeEndpoint(endpoint: RpcEndpointStatus): string {
+    const lag = endpoint.headLag !== null ? `, ${endpoint.headLag.toString()} blocks behind` : '';
+    return `${endpoint.name} (error rate ${Math.round(endpoint.errorRate * 100)}%${lag}${endpoint.lastError ? `, last error: ${endpoint.lastError}` : ''})`;
+}
+
+function notifyRpcAvailability(allUnhealthy: boolean, endpoints: RpcEndpointStatus[]): void {
+    const message = allUnhealthy
+        ? `All RPC providers are unhealthy, block processing is stalled: ${endpoints.map(describeEndpoint).join('; ')}`
+        : `RPC providers recovered: ${endpoints.filter(endpoint => endpoint.healthy).map(endpoint => endpoint.name).join(', ')}`;
+    sendSystemMessage(message, allUnhealthy).catch(error => logger.error('Failed to send RPC availability message', { error }));
 }
 
 export function initializeContracts() {
-    logWithTimestamp(`Initializing contracts...`);
+    logger.debug("Initializing contracts", { sequencer: SEQUENCER_ADDRESS });
 
-    logWithTimestamp(`SEQUENCER_ADDRESS: ${SEQUENCER_ADDRESS}`);
     if (!SEQUENCER_ADDRESS) {
         throw new Error('SEQUENCER_ADDRESS is undefined');
     }
 
-    logWithTimestamp(`sequencerAbi: ${JSON.stringify(sequencerAbi)}`);
     if (!sequencerAbi) {
         throw new Error('sequencerAbi is undefined');
     }
 
-    logWithTimestamp(`multicallProvider is ${multicallProvider ? 'initialized' : 'not initialized'}`);
-    if (!multicallProvider) {
-        throw new Error('multicallProvider is undefined');
+    // Created on first use rather than at import, so modules load without RPC settings (e.g. under partial test mocks)
+    if (!rpcPool) {
+        rpcPool = createRpcPool(ETHEREUM_RPC_URLS, {
+            timeoutMs: RPC_TIMEOUT_MS,
+            maxRetries: RPC_MAX_RETRIES,
+            retryBaseDelayMs: RPC_RETRY_BASE_DELAY_MS,
+            maxErrorRate: RPC_MAX_ERROR_RATE,
+            maxHeadLagBlocks: RPC_MAX_HEAD_LAG_BLOCKS,
+            onAvailabilityChange: notifyRpcAvailability,
+        });
+        provider = createFailoverProvider(rpcPool);
+        multicallProvider = MulticallWrapper.wrap(createFailoverProvider(rpcPool)) as MulticallProvider;
+        logger.info(`Using ${ETHEREUM_RPC_URLS.length} RPC provider(s): ${rpcPool.getStatus().map(endpoint => endpoint.name).join(', ')}`);
     }
 
     // Now initialize the contracts
     sequencerContract = new ethers.Contract(SEQUENCER_ADDRESS, sequencerAbi, multicallProvider);
     jobInterface = new ethers.Interface(jobAbi);
 
-    logWithTimestamp('Contracts initialized successfully.');
+    logger.info('Contracts initialized successfully.');
 }
 
-export { sequencerContract, jobInterface };
+export { rpcPool, provider, multicallProvider, sequencerContract, jobInterface, SEQUENCER_ADDRESS };
@@ -0,0 +1,107 @@
+import { startHeadSubscription, HeadSource, HeadSubscriptionOptions } from './head_subscription';
+
+jest.mock('./logger');
+
+interface FakeSource extends HeadSource {
+    emitHead(blockNumber: number): void;
+    disconnect(error?: unknown): void;
+    closed: boolean;
+}
+
+function createFakeSource(): FakeSource {
+    let headListener: (blockNumber: number) => void = () => {};
+    let disconnectListener: (error?: unknown) => void = () => {};
+    const source: FakeSource = {
+        closed: false,
+        onHead: listener => { headListener = listener; },
+        onDisconnect: listener => { disconnectListener = listener; },
+        close: async () => { source.closed = true; },
+        emitHead: blockNumber => headListener(blockNumber),
+        disconnect: error => disconnectListener(error),
+    };
+    return source;
+}
+
+describe('head_subscription', () => {
+    let sources: FakeSource[];
+    let connect: jest.Mock;
+    let options: HeadSubscriptionOptions;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        sources = [];
+        connect = jest.fn(() => {
+            const source = createFakeSource();
+            sources.push(source);
+            return source;
+        });
+        options = {
+            url: 'wss://mainnet.example/ws/secret',
+            stallTimeoutMs: 60000,
+            reconnectDelayMs: 5000,
+            onHead: jest.fn(),
+            onLiveChange: jest.fn(),
+        };
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should forward new heads and go live on the first one', async () => {
+        const subscription = startHeadSubscription(options, connect);
+        expect(subscription.isLive()).toBe(false);
+
+        sources[0].emitHead(21684850);
+        sources[0].emitHead(21684851);
+
+        expect(subscription.isLive()).toBe(true);
+        expect(options.onHead).toHaveBeenCalledWith(BigInt(21684851));
+        expect(options.onLiveChange).toHaveBeenCalledTimes(1);
+        await subscription.stop();
+    });
+
+    it('should fall back and reconnect after the socket drops', async () => {
+        const subscription = startHeadSubscription(options, connect);
+        sources[0].emitHead(21684850);
+
+        sources[0].disconnect(new Error('socket hang up'));
+        expect(subscription.isLive()).toBe(false);
+        expect(options.onLiveChange).toHaveBeenLastCalledWith(false);
+        expect(sources[0].closed).toBe(true);
+
+        // Late events from the dropped connection are ignored
+        sources[0].emitHead(21684851);
+        expect(options.onHead).toHaveBeenCalledTimes(1);
+
+        jest.advanceTimersByTime(5000);
+        expect(connect).toHaveBeenCalledTimes(2);
+        sources[1].emitHead(21684860);
+        expect(subscription.isLive()).toBe(true);
+        expect(options.onHead).toHaveBeenLastCalledWith(BigInt(21684860));
+        await subscription.stop();
+    });
+
+    it('should treat a subscription without heads as dropped', async () => {
+        const subscription = startHeadSubscription(options, connect);
+        sources[0].emitHead(21684850);
+
+        jest.advanceTimersByTime(60000);
+
+        expect(subscription.isLive()).toBe(false);
+        expect(sources[0].closed).toBe(true);
+        jest.advanceTimersByTime(5000);
+        expect(connect).toHaveBeenCalledTimes(2);
+        await subscription.stop();
+    });
+
+    it('should stop reconnecting once stopped', async () => {
+        const subscription = startHeadSubscription(options, connect);
+        sources[0].disconnect();
+
+        await subscription.stop();
+        jest.advanceTimersByTime(60000);
+
+        expect(connect).toHaveBeenCalledTimes(1);
+    });
+});
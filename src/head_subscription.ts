@@ -0,0 +1,134 @@
+import { ethers, WebSocketLike } from 'ethers';
+import { createLogger } from './logger';
+import { redactRpcUrl } from './rpc_pool';
+
+const logger = createLogger('head_subscription');
+
+// New-head feed behind the subscription; connectWebSocketHeads is the real one, tests pass a fake
+export interface HeadSource {
+    onHead(listener: (blockNumber: number) => void): void;
+    onDisconnect(listener: (error?: unknown) => void): void;
+    close(): Promise<void>;
+}
+
+export interface HeadSubscriptionOptions {
+    url: string;
+    stallTimeoutMs: number; // No new head for this long counts as a dropped subscription
+    reconnectDelayMs: number;
+    onHead: (blockNumber: bigint) => void;
+    onLiveChange?: (live: boolean) => void;
+}
+
+export interface HeadSubscription {
+    // True once a head has arrived on the current connection and it has not dropped since
+    isLive(): boolean;
+    stop(): Promise<void>;
+}
+
+// ethers does not watch the socket itself; the ws implementation it uses also supports onclose
+type ClosableWebSocket = WebSocketLike & { onclose: ((...args: unknown[]) => unknown) | null };
+
+export function connectWebSocketHeads(url: string): HeadSource {
+    const provider = new ethers.WebSocketProvider(url);
+    const socket = provider.websocket as ClosableWebSocket;
+    return {
+        onHead: listener => {
+            provider.on('block', listener).catch(error => logger.warn('Failed to subscribe to new heads', { error }));
+        },
+        onDisconnect: listener => {
+            socket.onerror = (error: unknown) => listener(error);
+            socket.onclose = () => listener();
+        },
+        close: () => provider.destroy(),
+    };
+}
+
+export function startHeadSubscription(options: HeadSubscriptionOptions, connect: (url: string) => HeadSource = connectWebSocketHeads): HeadSubscription {
+    const name = redactRpcUrl(options.url);
+    let source: HeadSource | null = null;
+    let live = false;
+    let stopped = false;
+    let stallTimer: NodeJS.Timeout | null = null;
+    let reconnectTimer: NodeJS.Timeout | null = null;
+
+    const setLive = (value: boolean) => {
+        if (live === value) {
+            return;
+        }
+        live = value;
+        options.onLiveChange?.(value);
+    };
+
+    const closeSource = () => {
+        if (stallTimer) {
+            clearTimeout(stallTimer);
+            stallTimer = null;
+        }
+        const current = source;
+        source = null;
+        current?.close().catch(error => logger.debug('Error closing WebSocket provider', { error }));
+    };
+
+    const drop = (error: unknown) => {
+        logger.warn(`Head subscription on ${name} dropped, falling back to polling`, { error, retryInMs: options.reconnectDelayMs });
+        closeSource();
+        setLive(false);
+        reconnectTimer = setTimeout(open, options.reconnectDelayMs);
+    };
+
+    const armStallTimer = () => {
+        if (stallTimer) {
+            clearTimeout(stallTimer);
+        }
+        stallTimer = setTimeout(() => drop(new Error(`no new head for ${options.stallTimeoutMs} ms`)), options.stallTimeoutMs);
+    };
+
+    function open() {
+        reconnectTimer = null;
+        if (stopped) {
+            return;
+        }
+        let current: HeadSource;
+        try {
+            current = connect(options.url);
+        } catch (error) {
+            reconnectTimer = setTimeout(open, options.reconnectDelayMs);
+            logger.warn(`Cannot connect head subscription to ${name}`, { error, retryInMs: options.reconnectDelayMs });
+            return;
+        }
+        source = current;
+        // Events from a connection that has since been replaced are ignored
+        current.onDisconnect(error => {
+            if (source === current) {
+                drop(error ?? new Error('WebSocket closed'));
+            }
+        });
+        current.onHead(blockNumber => {
+            if (source !== current) {
+                return;
+            }
+            armStallTimer();
+            if (!live) {
+                logger.info(`Head subscription on ${name} is live`, { block: blockNumber });
+            }
+            setLive(true);
+            options.onHead(BigInt(blockNumber));
+        });
+        armStallTimer();
+    }
+
+    open();
+
+    return {
+        isLive: () => live,
+        stop: async () => {
+            stopped = true;
+            if (reconnectTimer) {
+                clearTimeout(reconnectTimer);
+                reconnectTimer = null;
+            }
+            closeSource();
+            setLive(false);
+        },
+    };
+}
@@ -0,0 +1,125 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import fetch from 'node-fetch';
+import { registerStatusRoutes, markProviderConnected, markJobsInitialized, recordBatchProgress, getReadiness, resetHealth } from './health';
+import { startHttpServer } from './http_server';
+import { jobStates } from './job_manager';
+import { recordWorkStats, restoreWorkStats } from './work_stats';
+
+jest.mock('./job_manager', () => ({
+    jobStates: new Map(),
+}));
+jest.mock('./config', () => ({
+    READINESS_STALE_AFTER_MS: 60000,
+    UNWORKED_BLOCKS_THRESHOLD: BigInt(1000),
+    ALERT_ESCALATION_THRESHOLD: BigInt(3000),
+    IGNORED_ARGS_MESSAGES: [],
+}));
+jest.mock('./logger');
+
+const JOB = '0x67AD4000e73579B9725eE3A149F85C4Af0A61361';
+
+describe('health', () => {
+    beforeEach(() => {
+        resetHealth();
+        jobStates.clear();
+        restoreWorkStats([], []);
+    });
+
+    describe('getReadiness', () => {
+        it('should not be ready before the provider is connected and jobs are initialized', () => {
+            expect(getReadiness().ready).toBe(false);
+
+            markProviderConnected();
+            expect(getReadiness().checks).toEqual({ providerConnected: true, jobsInitialized: false, processingRecent: false });
+
+            markJobsInitialized(BigInt(100), 1000);
+            expect(getReadiness(2000).ready).toBe(true);
+        });
+
+        it('should go stale when lastProcessedBlock stops moving forward', () => {
+            markProviderConnected();
+            markJobsInitialized(BigInt(100), 0);
+
+            recordBatchProgress(BigInt(125), 50000);
+            recordBatchProgress(BigInt(125), 100000); // Same block again: not progress
+
+            expect(getReadiness(110000).ready).toBe(true);
+            expect(getReadiness(110001).checks.processingRecent).toBe(false);
+            expect(getReadiness(110001).ready).toBe(false);
+
+            recordBatchProgress(BigInt(130), 120000);
+            expect(getReadiness(120000)).toEqual(expect.objectContaining({ ready: true, lastProcessedBlock: BigInt(130) }));
+        });
+    });
+
+    describe('routes', () => {
+        let server: http.Server;
+        let baseUrl: string;
+
+        beforeAll(async () => {
+            registerStatusRoutes();
+            server = await startHttpServer(0);
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        afterAll(async () => {
+            await new Promise<void>(done => server.close(() => done()));
+        });
+
+        it('should report liveness and readiness', async () => {
+            expect((await fetch(`${baseUrl}/healthz`)).status).toBe(200);
+
+            const notReady = await fetch(`${baseUrl}/readyz`);
+            expect(notReady.status).toBe(503);
+
+            markProviderConnected();
+            markJobsInitialized(BigInt(21684850));
+            const ready = await fetch(`${baseUrl}/readyz`);
+            expect(ready.status).toBe(200);
+            expect(await ready.json()).toEqual(expect.objectContaining({ ready: true, lastProcessedBlock: '21684850' }));
+        });
+
+        it('should list job states with bigints as strings', async () => {
+            jobStates.set(JOB, {
+                address: JOB,
+                lastWorkedBlock: BigInt(21684000),
+                lastCheckedBlock: BigInt(21684850),
+                consecutiveUnworkedBlocks: BigInt(850),
+                workableUnworkedBlocks: BigInt(0),
+                lastUpdateTime: 1700000000000,
+                recentWork: [],
+                incident: null,
+                workableError: null,
+                workMismatch: null,
+            });
+
+            const jobs = await (await fetch(`${baseUrl}/jobs`)).json();
+            expect(jobs).toEqual([expect.objectContaining({ address: JOB, consecutiveUnworkedBlocks: '850', threshold: '1000', label: null })]);
+
+            const job = await fetch(`${baseUrl}/jobs/${JOB.toLowerCase()}`);
+            expect(job.status).toBe(200);
+            expect((await job.json()).lastCheckedBlock).toBe('21684850');
+
+            expect((await fetch(`${baseUrl}/jobs/0x0000000000000000000000000000000000000001`)).status).toBe(404);
+        });
+
+        it('should report the share of work, last block seen and jobs served per keeper and per network', async () => {
+            const keeper = '0x9999999999999999999999999999999999999999';
+            const otherKeeper = '0x8888888888888888888888888888888888888888';
+            const maker = '0x4d414b4552000000000000000000000000000000000000000000000000000000';
+            recordWorkStats(JOB, { network: maker, keeper, blockNumber: BigInt(100), transactionHash: '0x01' });
+            recordWorkStats(JOB, { network: maker, keeper, blockNumber: BigInt(120), transactionHash: '0x02' });
+            recordWorkStats('0xc32506E9bB590971671b649d9B8e18CB6260559F', { network: maker, keeper: otherKeeper, blockNumber: BigInt(110), transactionHash: '0x03' });
+
+            const keepers = await (await fetch(`${baseUrl}/keepers`)).json();
+            expect(keepers).toEqual([
+                expect.objectContaining({ id: keeper, workCount: 2, share: 2 / 3, lastSeenBlock: '120', jobsServed: [JOB] }),
+                expect.objectContaining({ id: otherKeeper, workCount: 1, share: 1 / 3, lastSeenBlock: '110' }),
+            ]);
+
+            const networks = await (await fetch(`${baseUrl}/networks`)).json();
+            expect(networks).toEqual([expect.objectContaining({ id: maker, name: 'MAKER', workCount: 3, share: 1, jobsServed: [JOB, '0xc32506E9bB590971671b649d9B8e18CB6260559F'] })]);
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import { jobStates, JobState } from './job_manager';
+import { getJobConfig } from './job_config';
+import { addRoute, HttpError } from './http_server';
+import { keeperStats, networkWorkStats, summarizeWorkStats } from './work_stats';
+import { formatNetworkName } from './utils';
+import { READINESS_STALE_AFTER_MS } from './config';
+
+interface HealthState {
+    startedAt: number;
+    providerConnected: boolean;
+    jobsInitializedAt: number | null;
+    lastProcessedBlock: bigint | null;
+    lastProgressAt: number | null; // When lastProcessedBlock last moved forward
+}
+
+export interface Readiness {
+    ready: boolean;
+    checks: {
+        providerConnected: boolean;
+        jobsInitialized: boolean;
+        processingRecent: boolean;
+    };
+    lastProcessedBlock: bigint | null;
+    lastProgressAt: string | null;
+    staleAfterMs: number;
+}
+
+const health: HealthState = {
+    startedAt: Date.now(),
+    providerConnected: false,
+    jobsInitializedAt: null,
+    lastProcessedBlock: null,
+    lastProgressAt: null,
+};
+
+export function markProviderConnected(): void {
+    health.providerConnected = true;
+}
+
+export function markJobsInitialized(lastProcessedBlock: bigint, now: number = Date.now()): void {
+    health.jobsInitializedAt = now;
+    health.lastProcessedBlock = lastProcessedBlock;
+    health.lastProgressAt = now;
+}
+
+// Called after every processNewBlocks run; only forward movement counts as progress
+export function recordBatchProgress(lastProcessedBlock: bigint, now: number = Date.now()): void {
+    if (health.lastProcessedBlock === null || lastProcessedBlock > health.lastProcessedBlock) {
+        health.lastProcessedBlock = lastProcessedBlock;
+        health.lastProgressAt = now;
+    }
+}
+
+export function resetHealth(): void {
+    health.startedAt = Date.now();
+    health.providerConnected = false;
+    health.jobsInitializedAt = null;
+    health.lastProcessedBlock = null;
+    health.lastProgressAt = null;
+}
+
+export function getReadiness(now: number = Date.now()): Readiness {
+    const checks = {
+        providerConnected: health.providerConnected,
+        jobsInitialized: health.jobsInitializedAt !== null,
+        processingRecent: health.lastProgressAt !== null && now - health.lastProgressAt <= READINESS_STALE_AFTER_MS,
+    };
+    return {
+        ready: checks.providerConnected && checks.jobsInitialized && checks.processingRecent,
+        checks,
+        lastProcessedBlock: health.lastProcessedBlock,
+        lastProgressAt: health.lastProgressAt !== null ? new Date(health.lastProgressAt).toISOString() : null,
+        staleAfterMs: READINESS_STALE_AFTER_MS,
+    };
+}
+
+function describeJob(jobState: JobState) {
+    const config = getJobConfig(jobState.address);
+    return { ...jobState, label: config.label, threshold: config.threshold };
+}
+
+export function registerStatusRoutes(): void {
+    addRoute('GET', '/healthz', () => ({
+        status: 200,
+        body: { status: 'ok', uptimeSeconds: Math.floor((Date.now() - health.startedAt) / 1000) },
+    }));
+
+    addRoute('GET', '/readyz', () => {
+        const readiness = getReadiness();
+        return { status: readiness.ready ? 200 : 503, body: readiness };
+    });
+
+    addRoute('GET', '/jobs', () => ({
+        status: 200,
+        body: Array.from(jobStates.values()).map(describeJob),
+    }));
+
+    addRoute('GET', '/jobs/:address', (_req, params) => {
+        const jobState = Array.from(jobStates.values()).find(state => state.address.toLowerCase() === params.address.toLowerCase());
+        if (!jobState) {
+            throw new HttpError(404, `Job ${params.address} is not monitored`);
+        }
+        return { status: 200, body: describeJob(jobState) };
+    });
+
+    // Who does the work: share of all recorded Work events, last block seen and jobs served, busiest first
+    addRoute('GET', '/keepers', () => ({
+        status: 200,
+        body: summarizeWorkStats(keeperStats),
+    }));
+
+    addRoute('GET', '/networks', () => ({
+        status: 200,
+        body: summarizeWorkStats(networkWorkStats).map(entry => ({ ...entry, name: formatNetworkName(entry.id) })),
+    }));
+}
@@ -0,0 +1,125 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createLogger } from './logger';
+
+const logger = createLogger('http_server');
+
+export interface HttpResponse {
+    status: number;
+    body?: unknown;
+    contentType?: string; // Defaults to text/plain for strings and application/json otherwise
+}
+
+export type RouteHandler = (req: http.IncomingMessage, params: Record<string, string>) => HttpResponse | Promise<HttpResponse>;
+
+// Thrown by handlers to answer with an error status and a JSON { error } body
+export class HttpError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+interface Route {
+    method: string;
+    segments: string[]; // ':name' segments capture a path parameter
+    handler: RouteHandler;
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+const routes: Route[] = [];
+
+export function addRoute(method: string, path: string, handler: RouteHandler): void {
+    routes.push({ method: method.toUpperCase(), segments: path.split('/').filter(Boolean), handler });
+}
+
+function matchRoute(route: Route, segments: string[]): Record<string, string> | null {
+    if (route.segments.length !== segments.length) {
+        return null;
+    }
+    const params: Record<string, string> = {};
+    for (let i = 0; i < segments.length; i++) {
+        if (route.segments[i].startsWith(':')) {
+            params[route.segments[i].slice(1)] = decodeURIComponent(segments[i]);
+        } else if (route.segments[i] !== segments[i]) {
+            return null;
+        }
+    }
+    return params;
+}
+
+// JSON has no bigint type, so bigints are rendered as decimal strings
+export function toJson(body: unknown): string {
+    return JSON.stringify(body, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+}
+
+export function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        let raw = '';
+        req.setEncoding('utf8');
+        req.on('data', (chunk: string) => {
+            raw += chunk;
+            if (raw.length > MAX_BODY_BYTES) {
+                reject(new HttpError(413, 'Request body too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => {
+            try {
+                resolve(raw.length > 0 ? JSON.parse(raw) : undefined);
+            } catch (error) {
+                reject(new HttpError(400, `Invalid JSON body: ${(error as Error).message}`));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+export async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const segments = new URL(req.url ?? '/', 'http://localhost').pathname.split('/').filter(Boolean);
+    let response: HttpResponse;
+
+    try {
+        const matching = routes
+            .map(route => ({ route, params: matchRoute(route, segments) }))
+            .filter(({ params }) => params !== null);
+        const match = matching.find(({ route }) => route.method === req.method);
+        if (match) {
+            response = await match.route.handler(req, match.params!);
+        } else {
+            response = matching.length > 0 ? { status: 405, body: { error: 'Method not allowed' } } : { status: 404, body: { error: 'Not found' } };
+        }
+    } catch (error) {
+        if (error instanceof HttpError) {
+            response = { status: error.status, body: { error: error.message } };
+        } else {
+            logger.error(`Error handling ${req.method} ${req.url}`, { error });
+            response = { status: 500, body: { error: 'Internal server error' } };
+        }
+    }
+
+    res.statusCode = response.status;
+    if (response.body === undefined) {
+        res.end();
+    } else if (typeof response.body === 'string') {
+        res.setHeader('Content-Type', response.contentType ?? 'text/plain; charset=utf-8');
+        res.end(response.body);
+    } else {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(toJson(response.body));
+    }
+}
+
+export function startHttpServer(port: number): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+        handleRequest(req, res).catch(error => logger.error('Unhandled error', { error }));
+    });
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => {
+            logger.info(`Listening on port ${(server.address() as AddressInfo).port}`);
+            resolve(server);
+        });
+    });
+}
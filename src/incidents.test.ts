@@ -0,0 +1,98 @@
+import { classifyJobAlert, getIncidentUpdate, markIncidentAlerted, reminderDelay, resolveIncident } from './incidents';
+import { JobState } from './job_manager';
+
+jest.mock('./config', () => ({
+    ALERT_REMINDER_INTERVAL_BLOCKS: BigInt(100),
+    ALERT_REMINDER_BACKOFF: 2,
+    ALERT_REMINDER_MAX_INTERVAL_BLOCKS: BigInt(300),
+}));
+
+const thresholds = { threshold: BigInt(100), escalationThreshold: BigInt(500), stuckWorkableThreshold: BigInt(20), neverWorkableThreshold: BigInt(300) };
+
+function jobWithStreak(unworkedBlocks: number): JobState {
+    return {
+        address: '0xJob',
+        lastWorkedBlock: BigInt(0),
+        lastCheckedBlock: BigInt(0),
+        consecutiveUnworkedBlocks: BigInt(unworkedBlocks),
+        workableUnworkedBlocks: BigInt(0),
+        lastUpdateTime: 0,
+        recentWork: [],
+        incident: null,
+        workableError: null,
+        workMismatch: null,
+    };
+}
+
+// Simulates processBlockNumber: one block at a time, alerting whenever an update is due
+function runBlocks(jobState: JobState, fromBlock: number, toBlock: number): Array<{ block: number; transition: string; severity: string }> {
+    const alerts: Array<{ block: number; transition: string; severity: string }> = [];
+    for (let block = fromBlock; block <= toBlock; block++) {
+        jobState.consecutiveUnworkedBlocks += BigInt(1);
+        const update = getIncidentUpdate(jobState, BigInt(block), thresholds);
+        if (update) {
+            alerts.push({ block, transition: update.transition, severity: update.severity });
+            markIncidentAlerted(jobState, update, BigInt(block));
+        }
+    }
+    return alerts;
+}
+
+describe('incidents', () => {
+    it('should grow the reminder delay by the backoff up to the maximum', () => {
+        expect([1, 2, 3, 4].map(reminderDelay)).toEqual([BigInt(100), BigInt(200), BigInt(300), BigInt(300)]);
+    });
+
+    it('should stay quiet below the threshold', () => {
+        expect(getIncidentUpdate(jobWithStreak(99), BigInt(1000), thresholds)).toBeNull();
+    });
+
+    it('should open once, remind on backoff and escalate past the second threshold', () => {
+        const jobState = jobWithStreak(99);
+
+        const alerts = runBlocks(jobState, 1001, 1701);
+
+        expect(alerts).toEqual([
+            { block: 1001, transition: 'opened', severity: 'warning' },
+            { block: 1101, transition: 'reminder', severity: 'warning' },
+            { block: 1301, transition: 'reminder', severity: 'warning' },
+            { block: 1401, transition: 'escalated', severity: 'critical' },
+            { block: 1701, transition: 'reminder', severity: 'critical' },
+        ]);
+        expect(jobState.consecutiveUnworkedBlocks).toBe(BigInt(800));
+        expect(jobState.incident).toEqual(expect.objectContaining({ openedAtBlock: BigInt(1001), alertsSent: 5, escalated: true }));
+    });
+
+    it('should open directly as critical when the streak is already past escalation', () => {
+        const update = getIncidentUpdate(jobWithStreak(600), BigInt(1000), thresholds);
+        expect(update).toEqual({ transition: 'opened', alertType: 'unknown_reason', severity: 'critical', alertNumber: 1, openedAtBlock: BigInt(1000) });
+    });
+
+    it('should classify the streak by how much of it the job was workable', () => {
+        const jobState = jobWithStreak(150);
+        expect(classifyJobAlert(jobState, false)).toBe('never_workable');
+        expect(classifyJobAlert(jobState, true)).toBe('stuck_workable');
+        jobState.workableUnworkedBlocks = BigInt(10);
+        expect(classifyJobAlert(jobState, false)).toBe('unknown_reason');
+    });
+
+    it('should judge each alert type by its own counter and threshold', () => {
+        const jobState = jobWithStreak(150);
+        jobState.workableUnworkedBlocks = BigInt(19);
+        expect(getIncidentUpdate(jobState, BigInt(1000), thresholds, 'stuck_workable')).toBeNull();
+        expect(getIncidentUpdate(jobState, BigInt(1000), thresholds, 'never_workable')).toBeNull();
+
+        jobState.workableUnworkedBlocks = BigInt(20);
+        expect(getIncidentUpdate(jobState, BigInt(1000), thresholds, 'stuck_workable')).toEqual({ transition: 'opened', alertType: 'stuck_workable', severity: 'critical', alertNumber: 1, openedAtBlock: BigInt(1000) });
+        expect(getIncidentUpdate(jobState, BigInt(1000), thresholds, 'unknown_reason')).toEqual(expect.objectContaining({ alertType: 'unknown_reason', severity: 'warning' }));
+    });
+
+    it('should hand back the open incident when resolving', () => {
+        const jobState = jobWithStreak(99);
+        runBlocks(jobState, 1001, 1001);
+
+        expect(resolveIncident(jobState)).toEqual(expect.objectContaining({ openedAtBlock: BigInt(1001), alertsSent: 1 }));
+        expect(jobState.incident).toBeNull();
+        expect(resolveIncident(jobState)).toBeNull();
+    });
+});
@@ -0,0 +1,103 @@
+import type { JobIncident, JobState } from './job_manager';
+import type { AlertSeverity } from './alert_sinks';
+import type { ResolvedJobConfig } from './job_config';
+import { ALERT_REMINDER_INTERVAL_BLOCKS, ALERT_REMINDER_BACKOFF, ALERT_REMINDER_MAX_INTERVAL_BLOCKS } from './config';
+
+export type IncidentTransition = 'opened' | 'reminder' | 'escalated';
+
+// Why a job is unworked: workable but left alone by the keepers, never workable during the streak,
+// or workable at times and not now, which points at neither side in particular
+export type JobAlertType = 'stuck_workable' | 'never_workable' | 'unknown_reason';
+
+type AlertThresholds = Pick<ResolvedJobConfig, 'threshold' | 'escalationThreshold' | 'stuckWorkableThreshold' | 'neverWorkableThreshold'>;
+
+interface JobAlertRule {
+    severity: AlertSeverity;
+    streak: (jobState: JobState) => bigint; // The counter compared against the threshold
+    threshold: (thresholds: AlertThresholds) => bigint;
+}
+
+export const JOB_ALERT_RULES: Record<JobAlertType, JobAlertRule> = {
+    stuck_workable: { severity: 'critical', streak: jobState => jobState.workableUnworkedBlocks, threshold: thresholds => thresholds.stuckWorkableThreshold },
+    never_workable: { severity: 'warning', streak: jobState => jobState.consecutiveUnworkedBlocks, threshold: thresholds => thresholds.neverWorkableThreshold },
+    unknown_reason: { severity: 'warning', streak: jobState => jobState.consecutiveUnworkedBlocks, threshold: thresholds => thresholds.threshold },
+};
+
+export function classifyJobAlert(jobState: JobState, canWork: boolean): JobAlertType {
+    if (canWork) {
+        return 'stuck_workable';
+    }
+    return jobState.workableUnworkedBlocks === BigInt(0) ? 'never_workable' : 'unknown_reason';
+}
+
+export function reachesAlertThreshold(jobState: JobState, alertType: JobAlertType, thresholds: AlertThresholds): boolean {
+    const rule = JOB_ALERT_RULES[alertType];
+    return rule.streak(jobState) >= rule.threshold(thresholds);
+}
+
+export interface IncidentUpdate {
+    transition: IncidentTransition;
+    alertType: JobAlertType;
+    severity: AlertSeverity;
+    alertNumber: number; // 1 for the alert that opens the incident
+    openedAtBlock: bigint;
+}
+
+// Blocks to wait before the next reminder once `alertsSent` alerts went out, growing by ALERT_REMINDER_BACKOFF
+export function reminderDelay(alertsSent: number): bigint {
+    const delay = Number(ALERT_REMINDER_INTERVAL_BLOCKS) * Math.pow(ALERT_REMINDER_BACKOFF, Math.max(alertsSent - 1, 0));
+    const capped = BigInt(Math.round(Math.min(delay, Number(ALERT_REMINDER_MAX_INTERVAL_BLOCKS))));
+    return capped > BigInt(0) ? capped : BigInt(1);
+}
+
+// Works out whether the job's current streak should produce an alert at this block, without changing its state.
+// The alert type's own counter and threshold decide when an incident opens; once open, it follows the whole
+// unworked streak until the job is worked. Call markIncidentAlerted once the alert has been delivered.
+export function getIncidentUpdate(
+    jobState: JobState,
+    blockNumber: bigint,
+    thresholds: AlertThresholds,
+    alertType: JobAlertType = 'unknown_reason'
+): IncidentUpdate | null {
+    const incident = jobState.incident;
+    if (!incident && !reachesAlertThreshold(jobState, alertType, thresholds)) {
+        return null;
+    }
+
+    const { severity } = JOB_ALERT_RULES[alertType];
+    const pastEscalation = jobState.consecutiveUnworkedBlocks >= thresholds.escalationThreshold;
+    if (!incident) {
+        return { transition: 'opened', alertType, severity: pastEscalation ? 'critical' : severity, alertNumber: 1, openedAtBlock: blockNumber };
+    }
+
+    const alertNumber = incident.alertsSent + 1;
+    if (pastEscalation && !incident.escalated) {
+        return { transition: 'escalated', alertType, severity: 'critical', alertNumber, openedAtBlock: incident.openedAtBlock };
+    }
+    if (blockNumber >= incident.nextReminderBlock) {
+        return { transition: 'reminder', alertType, severity: incident.escalated ? 'critical' : severity, alertNumber, openedAtBlock: incident.openedAtBlock };
+    }
+    return null;
+}
+
+export function markIncidentAlerted(jobState: JobState, update: IncidentUpdate, blockNumber: bigint): void {
+    const incident: JobIncident = jobState.incident ?? {
+        openedAtBlock: update.openedAtBlock,
+        lastAlertBlock: blockNumber,
+        nextReminderBlock: blockNumber,
+        alertsSent: 0,
+        escalated: false
+    };
+    incident.alertsSent = update.alertNumber;
+    incident.lastAlertBlock = blockNumber;
+    incident.nextReminderBlock = blockNumber + reminderDelay(incident.alertsSent);
+    incident.escalated = incident.escalated || update.severity === 'critical';
+    jobState.incident = incident;
+}
+
+// Closes the job's incident, returning it if one was open. Call it once the recovery notice has been delivered.
+export function resolveIncident(jobState: JobState): JobIncident | null {
+    const incident = jobState.incident;
+    jobState.incident = null;
+    return incident;
+}
@@ -1,5 +0,0 @@
-import { sendDiscordAlert } from './alerting';
-
-test('sendDiscordAlert should be a function', () => {
-  expect(typeof sendDiscordAlert).toBe('function');
-});
@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadJobConfig, parseJobConfig, getJobConfig, findIgnoredReason, formatJobName, setJobConfig, JobConfigError } from './job_config';
+import { resolveArgsDecoder } from './args_decoders';
+
+jest.mock('./config', () => ({
+    JOB_CONFIG_PATH: '',
+    UNWORKED_BLOCKS_THRESHOLD: BigInt(1000),
+    ALERT_ESCALATION_THRESHOLD: BigInt(3000),
+    IGNORED_ARGS_MESSAGES: ["No ilks ready"],
+}));
+jest.mock('./logger');
+
+const AUTOLINE_JOB = '0x67AD4000e73579B9725eE3A149F85C4Af0A61361';
+const FLAP_JOB = '0xc32506E9bB590971671b649d9B8e18CB6260559F';
+const UNLISTED_JOB = '0x5E2C7d6C8fD4A8e5d1DfE2c0A2E7bB7d4bE3A4C1';
+
+describe('job_config', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beep3r-jobs-'));
+    });
+
+    afterEach(() => {
+        setJobConfig(parseJobConfig(null, 'reset'));
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should fall back to the environment defaults without a config file', () => {
+        loadJobConfig('');
+
+        const config = getJobConfig(UNLISTED_JOB);
+        expect(config).toEqual(expect.objectContaining({ label: null, threshold: BigInt(1000), escalationThreshold: BigInt(3000) }));
+        expect(findIgnoredReason(config, 'No ilks ready')).toEqual({ exact: 'No ilks ready' });
+        expect(formatJobName(UNLISTED_JOB)).toBe(UNLISTED_JOB);
+    });
+
+    it('should resolve job, type and global settings from a YAML file', () => {
+        const filePath = path.join(tmpDir, 'jobs.yaml');
+        fs.writeFileSync(filePath, [
+            'defaults:',
+            '  threshold: 2000',
+            '  ignoredReasons: ["No work to do"]',
+            'types:',
+            '  autoline:',
+            '    threshold: 300',
+            '    ignoredReasons:',
+            '      - regex: "^No ilks? ready"',
+            '        flags: i',
+            'jobs:',
+            `  "${AUTOLINE_JOB.toLowerCase()}":`,
+            '    label: AutoLine',
+            '    type: autoline',
+            `  "${FLAP_JOB}":`,
+            '    label: Flap',
+            '    escalationThreshold: 10000',
+        ].join('\n'));
+
+        loadJobConfig(filePath);
+
+        const autoline = getJobConfig(AUTOLINE_JOB);
+        expect(autoline).toEqual(expect.objectContaining({ label: 'AutoLine', type: 'autoline', threshold: BigInt(300), escalationThreshold: BigInt(900) }));
+        expect(findIgnoredReason(autoline, 'no ilk ready yet')).not.toBeNull();
+        expect(findIgnoredReason(autoline, 'No work to do')).toEqual({ exact: 'No work to do' });
+        // defaults.ignoredReasons replaces the built-in list
+        expect(findIgnoredReason(getJobConfig(UNLISTED_JOB), 'No ilks ready')).toBeNull();
+
+        expect(getJobConfig(FLAP_JOB)).toEqual(expect.objectContaining({ threshold: BigInt(2000), escalationThreshold: BigInt(10000) }));
+        expect(getJobConfig(UNLISTED_JOB).threshold).toBe(BigInt(2000));
+        expect(formatJobName(AUTOLINE_JOB)).toBe(`AutoLine (${AUTOLINE_JOB})`);
+    });
+
+    it('should read JSON files', () => {
+        const filePath = path.join(tmpDir, 'jobs.json');
+        fs.writeFileSync(filePath, JSON.stringify({ jobs: { [FLAP_JOB]: { threshold: '50' } } }));
+
+        loadJobConfig(filePath);
+
+        expect(getJobConfig(FLAP_JOB).threshold).toBe(BigInt(50));
+    });
+
+    it.each([
+        [{ jobs: { '0x1234': {} } }, 'jobs.0x1234: "0x1234" is not a valid address'],
+        [{ jobs: { [FLAP_JOB]: { threshold: -5 } } }, `jobs.${FLAP_JOB}.threshold must be a positive whole number of blocks`],
+        [{ jobs: { [FLAP_JOB]: { type: 'missing' } } }, `jobs.${FLAP_JOB}.type "missing" is not defined under types`],
+        [{ jobs: { [FLAP_JOB]: { treshold: 5 } } }, `jobs.${FLAP_JOB}: unknown key "treshold"`],
+        [{ types: { d3m: { ignoredReasons: [{ regex: '(' }] } } }, 'types.d3m.ignoredReasons[0].regex is not a valid regular expression'],
+        [{ defaults: { ignoredReasons: 'No work to do' } }, 'defaults.ignoredReasons must be a list'],
+        [{ defaults: { threshold: 500, escalationThreshold: 100 } }, 'defaults.escalationThreshold must not be below defaults.threshold'],
+        [[], 'top level must be an object'],
+    ])('should reject invalid config %#', (raw, message) => {
+        expect(() => parseJobConfig(raw, 'jobs.yaml')).toThrow(JobConfigError);
+        expect(() => parseJobConfig(raw, 'jobs.yaml')).toThrow(`Invalid job config jobs.yaml: ${message}`);
+    });
+
+    it('should register args decoders by job, type and bytecode hash', async () => {
+        const codeHash = '0x' + 'ab'.repeat(32);
+        setJobConfig(parseJobConfig({
+            types: { autoline: { argsDecoder: 'ilk' } },
+            jobs: { [AUTOLINE_JOB]: { type: 'autoline' }, [FLAP_JOB]: { argsDecoder: 'calldata' } },
+            argsDecoders: { [codeHash]: 'address' },
+        }, 'inline'));
+
+        await expect(resolveArgsDecoder(AUTOLINE_JOB, null)).resolves.toBe('ilk');
+        await expect(resolveArgsDecoder(FLAP_JOB, null)).resolves.toBe('calldata');
+        expect(() => parseJobConfig({ jobs: { [FLAP_JOB]: { argsDecoder: 'utf16' } } }, 'inline')).toThrow(`jobs.${FLAP_JOB}.argsDecoder must be one of ilk, address, calldata`);
+        expect(() => parseJobConfig({ argsDecoders: { '0x1234': 'ilk' } }, 'inline')).toThrow('is not a 32-byte bytecode hash');
+    });
+
+    it('should fail clearly when the file cannot be read or parsed', () => {
+        const filePath = path.join(tmpDir, 'broken.json');
+        fs.writeFileSync(filePath, '{ "jobs": ');
+
+        expect(() => loadJobConfig(filePath)).toThrow(`Invalid job config ${filePath}: cannot parse file`);
+        expect(() => loadJobConfig(path.join(tmpDir, 'missing.yaml'))).toThrow('cannot read file');
+    });
+});
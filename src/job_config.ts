@@ -0,0 +1,310 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { parse as parseYaml } from 'yaml';
+import { JOB_CONFIG_PATH, UNWORKED_BLOCKS_THRESHOLD, ALERT_ESCALATION_THRESHOLD, STUCK_WORKABLE_THRESHOLD, NEVER_WORKABLE_THRESHOLD, IGNORED_ARGS_MESSAGES } from './config';
+import { createLogger } from './logger';
+import { ARGS_DECODER_NAMES, registerArgsDecoder, clearArgsDecoders } from './args_decoders';
+
+const logger = createLogger('job_config');
+
+// An ignored workable() reason: exact text, or a regular expression
+export type ReasonPattern = { exact: string } | { regex: RegExp };
+
+interface RuleSettings {
+    threshold?: bigint;
+    escalationThreshold?: bigint;
+    stuckWorkableThreshold?: bigint;
+    neverWorkableThreshold?: bigint;
+    ignoredReasons?: ReasonPattern[];
+}
+
+interface TypeSettings extends RuleSettings {
+    argsDecoder?: string; // Name of the decoder for the job's workable() args
+}
+
+interface JobEntry extends TypeSettings {
+    label?: string;
+    type?: string;
+}
+
+export interface JobConfigFile {
+    defaults: RuleSettings;
+    types: Map<string, TypeSettings>;
+    jobs: Map<string, JobEntry>; // Keyed by lowercased job address
+    argsDecoders: Map<string, string>; // Decoder names keyed by lowercased bytecode hash
+}
+
+// Effective settings for one job after applying job, type, file default and environment fallbacks
+export interface ResolvedJobConfig {
+    label: string | null;
+    type: string | null;
+    threshold: bigint; // Unworked blocks before an unknown-reason alert
+    escalationThreshold: bigint;
+    stuckWorkableThreshold: bigint; // Workable but unworked blocks before a stuck-workable alert
+    neverWorkableThreshold: bigint; // Unworked blocks, none of them workable, before a never-workable alert
+    ignoredReasons: ReasonPattern[];
+}
+
+export class JobConfigError extends Error {
+    constructor(source: string, message: string) {
+        super(`Invalid job config ${source}: ${message}`);
+        this.name = 'JobConfigError';
+    }
+}
+
+const EMPTY_CONFIG: JobConfigFile = { defaults: {}, types: new Map(), jobs: new Map(), argsDecoders: new Map() };
+
+let jobConfig: JobConfigFile = EMPTY_CONFIG;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(source: string, where: string, value: Record<string, unknown>, allowed: string[]): void {
+    for (const key of Object.keys(value)) {
+        if (!allowed.includes(key)) {
+            throw new JobConfigError(source, `${where}: unknown key "${key}" (expected ${allowed.join(', ')})`);
+        }
+    }
+}
+
+function parseBlocks(source: string, where: string, value: unknown): bigint | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if ((typeof value === 'number' && Number.isInteger(value) && value > 0) || (typeof value === 'string' && /^[1-9][0-9]*$/.test(value))) {
+        return BigInt(value);
+    }
+    throw new JobConfigError(source, `${where} must be a positive whole number of blocks, got ${JSON.stringify(value)}`);
+}
+
+// Compiles a reason pattern spec: a string for an exact match, or { regex, flags? }. `where` names the spec in errors.
+export function compileReasonPattern(value: unknown, where: string): ReasonPattern {
+    if (typeof value === 'string') {
+        return { exact: value };
+    }
+    if (isPlainObject(value) && typeof value.regex === 'string') {
+        const unknownKey = Object.keys(value).find(key => key !== 'regex' && key !== 'flags');
+        if (unknownKey) {
+            throw new Error(`${where}: unknown key "${unknownKey}" (expected regex, flags)`);
+        }
+        // Stateful g/y flags would make repeated matches alternate between true and false
+        if (value.flags !== undefined && (typeof value.flags !== 'string' || /[gy]/.test(value.flags))) {
+            throw new Error(`${where}.flags must be a string of regex flags other than g and y`);
+        }
+        try {
+            return { regex: new RegExp(value.regex, value.flags as string | undefined) };
+        } catch (error) {
+            throw new Error(`${where}.regex is not a valid regular expression: ${(error as Error).message}`);
+        }
+    }
+    throw new Error(`${where} must be a string (exact match) or { regex, flags? }`);
+}
+
+function parseArgsDecoder(source: string, where: string, value: unknown): string | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (typeof value !== 'string' || !ARGS_DECODER_NAMES.includes(value)) {
+        throw new JobConfigError(source, `${where} must be one of ${ARGS_DECODER_NAMES.join(', ')}, got ${JSON.stringify(value)}`);
+    }
+    return value;
+}
+
+function parseReasonPattern(source: string, where: string, value: unknown): ReasonPattern {
+    try {
+        return compileReasonPattern(value, where);
+    } catch (error) {
+        throw new JobConfigError(source, (error as Error).message);
+    }
+}
+
+function parseRuleSettings(source: string, where: string, value: unknown, extraKeys: string[] = []): RuleSettings {
+    if (!isPlainObject(value)) {
+        throw new JobConfigError(source, `${where} must be an object`);
+    }
+    checkKeys(source, where, value, ['threshold', 'escalationThreshold', 'stuckWorkableThreshold', 'neverWorkableThreshold', 'ignoredReasons', ...extraKeys]);
+    if (value.ignoredReasons !== undefined && !Array.isArray(value.ignoredReasons)) {
+        throw new JobConfigError(source, `${where}.ignoredReasons must be a list`);
+    }
+    const settings = {
+        threshold: parseBlocks(source, `${where}.threshold`, value.threshold),
+        escalationThreshold: parseBlocks(source, `${where}.escalationThreshold`, value.escalationThreshold),
+        stuckWorkableThreshold: parseBlocks(source, `${where}.stuckWorkableThreshold`, value.stuckWorkableThreshold),
+        neverWorkableThreshold: parseBlocks(source, `${where}.neverWorkableThreshold`, value.neverWorkableThreshold),
+        ignoredReasons: (value.ignoredReasons as unknown[] | undefined)?.map((pattern, i) => parseReasonPattern(source, `${where}.ignoredReasons[${i}]`, pattern)),
+    };
+    if (settings.threshold !== undefined && settings.escalationThreshold !== undefined && settings.escalationThreshold < settings.threshold) {
+        throw new JobConfigError(source, `${where}.escalationThreshold must not be below ${where}.threshold`);
+    }
+    return settings;
+}
+
+// Validates the parsed contents of a job config file. `source` is only used in error messages.
+export function parseJobConfig(raw: unknown, source: string): JobConfigFile {
+    if (raw === null || raw === undefined) {
+        return EMPTY_CONFIG;
+    }
+    if (!isPlainObject(raw)) {
+        throw new JobConfigError(source, 'top level must be an object with defaults, types, jobs and/or argsDecoders');
+    }
+    checkKeys(source, 'top level', raw, ['defaults', 'types', 'jobs', 'argsDecoders']);
+
+    const defaults = raw.defaults === undefined ? {} : parseRuleSettings(source, 'defaults', raw.defaults);
+
+    const types = new Map<string, TypeSettings>();
+    if (raw.types !== undefined) {
+        if (!isPlainObject(raw.types)) {
+            throw new JobConfigError(source, 'types must be an object keyed by type name');
+        }
+        for (const [name, settings] of Object.entries(raw.types)) {
+            types.set(name, {
+                ...parseRuleSettings(source, `types.${name}`, settings, ['argsDecoder']),
+                argsDecoder: parseArgsDecoder(source, `types.${name}.argsDecoder`, (settings as Record<string, unknown>).argsDecoder),
+            });
+        }
+    }
+
+    const jobs = new Map<string, JobEntry>();
+    if (raw.jobs !== undefined) {
+        if (!isPlainObject(raw.jobs)) {
+            throw new JobConfigError(source, 'jobs must be an object keyed by job address');
+        }
+        for (const [address, entry] of Object.entries(raw.jobs)) {
+            const where = `jobs.${address}`;
+            if (!ethers.isAddress(address)) {
+                throw new JobConfigError(source, `${where}: "${address}" is not a valid address`);
+            }
+            if (jobs.has(address.toLowerCase())) {
+                throw new JobConfigError(source, `${where}: job is configured more than once`);
+            }
+            const settings = parseRuleSettings(source, where, entry, ['label', 'type', 'argsDecoder']);
+            const { label, type } = entry as Record<string, unknown>;
+            if (label !== undefined && typeof label !== 'string') {
+                throw new JobConfigError(source, `${where}.label must be a string`);
+            }
+            if (type !== undefined && (typeof type !== 'string' || !types.has(type))) {
+                throw new JobConfigError(source, `${where}.type ${JSON.stringify(type)} is not defined under types`);
+            }
+            jobs.set(address.toLowerCase(), {
+                threshold: settings.threshold,
+                escalationThreshold: settings.escalationThreshold,
+                stuckWorkableThreshold: settings.stuckWorkableThreshold,
+                neverWorkableThreshold: settings.neverWorkableThreshold,
+                ignoredReasons: settings.ignoredReasons,
+                argsDecoder: parseArgsDecoder(source, `${where}.argsDecoder`, (entry as Record<string, unknown>).argsDecoder),
+                label: label as string | undefined,
+                type: type as string | undefined,
+            });
+        }
+    }
+
+    const argsDecoders = new Map<string, string>();
+    if (raw.argsDecoders !== undefined) {
+        if (!isPlainObject(raw.argsDecoders)) {
+            throw new JobConfigError(source, 'argsDecoders must be an object keyed by bytecode hash');
+        }
+        for (const [codeHash, name] of Object.entries(raw.argsDecoders)) {
+            if (!ethers.isHexString(codeHash, 32)) {
+                throw new JobConfigError(source, `argsDecoders: "${codeHash}" is not a 32-byte bytecode hash`);
+            }
+            argsDecoders.set(codeHash.toLowerCase(), parseArgsDecoder(source, `argsDecoders.${codeHash}`, name)!);
+        }
+    }
+
+    return { defaults, types, jobs, argsDecoders };
+}
+
+// Reads and validates the job config file (.json, .yaml or .yml); without a path only the environment defaults apply
+export function loadJobConfig(filePath: string = JOB_CONFIG_PATH): JobConfigFile {
+    if (!filePath) {
+        setJobConfig(EMPTY_CONFIG);
+        return jobConfig;
+    }
+
+    let contents: string;
+    try {
+        contents = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+        throw new JobConfigError(filePath, `cannot read file: ${(error as Error).message}`);
+    }
+
+    let raw: unknown;
+    try {
+        raw = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(contents) : parseYaml(contents);
+    } catch (error) {
+        throw new JobConfigError(filePath, `cannot parse file: ${(error as Error).message}`);
+    }
+
+    setJobConfig(parseJobConfig(raw, filePath));
+    logger.info(`Loaded ${filePath}: ${jobConfig.jobs.size} jobs, ${jobConfig.types.size} job types`);
+    return jobConfig;
+}
+
+// Also registers the file's args decoders, by job address (a job's own, else its type's) and by bytecode hash
+export function setJobConfig(config: JobConfigFile): void {
+    jobConfig = config;
+    clearArgsDecoders();
+    for (const [address, job] of config.jobs) {
+        const argsDecoder = job.argsDecoder ?? (job.type ? config.types.get(job.type)?.argsDecoder : undefined);
+        if (argsDecoder) {
+            registerArgsDecoder({ address }, argsDecoder);
+        }
+    }
+    for (const [codeHash, argsDecoder] of config.argsDecoders) {
+        registerArgsDecoder({ codeHash }, argsDecoder);
+    }
+}
+
+export function getJobConfig(jobAddress: string): ResolvedJobConfig {
+    const job = jobConfig.jobs.get(jobAddress.toLowerCase());
+    const type = job?.type ? jobConfig.types.get(job.type) : undefined;
+    const levels: RuleSettings[] = [job, type, jobConfig.defaults].filter((level): level is RuleSettings => level !== undefined);
+
+    const threshold = levels.find(level => level.threshold !== undefined)?.threshold ?? UNWORKED_BLOCKS_THRESHOLD;
+    // Without an explicit escalation threshold, keep the global escalation/alert ratio for the job's own threshold
+    const escalationThreshold = levels.find(level => level.escalationThreshold !== undefined)?.escalationThreshold
+        ?? (threshold === UNWORKED_BLOCKS_THRESHOLD ? ALERT_ESCALATION_THRESHOLD : threshold * ALERT_ESCALATION_THRESHOLD / UNWORKED_BLOCKS_THRESHOLD);
+
+    // The alert-type thresholds fall back to the environment, then to the job's unworked threshold
+    const stuckWorkableThreshold = levels.find(level => level.stuckWorkableThreshold !== undefined)?.stuckWorkableThreshold ?? STUCK_WORKABLE_THRESHOLD ?? threshold;
+    const neverWorkableThreshold = levels.find(level => level.neverWorkableThreshold !== undefined)?.neverWorkableThreshold ?? NEVER_WORKABLE_THRESHOLD ?? threshold;
+
+    return {
+        label: job?.label ?? null,
+        type: job?.type ?? null,
+        threshold,
+        escalationThreshold,
+        stuckWorkableThreshold,
+        neverWorkableThreshold,
+        // defaults.ignoredReasons replaces the built-in list; type and job patterns are added to it
+        ignoredReasons: [
+            ...(jobConfig.defaults.ignoredReasons ?? IGNORED_ARGS_MESSAGES.map(exact => ({ exact }))),
+            ...(type?.ignoredReasons ?? []),
+            ...(job?.ignoredReasons ?? []),
+        ],
+    };
+}
+
+export function formatReasonPattern(pattern: ReasonPattern): string {
+    return 'exact' in pattern ? JSON.stringify(pattern.exact) : pattern.regex.toString();
+}
+
+export function matchesReasonPattern(pattern: ReasonPattern, argsString: string): boolean {
+    return 'exact' in pattern ? pattern.exact === argsString : pattern.regex.test(argsString);
+}
+
+// Returns the pattern that makes this workable() reason ignorable for the job, if any
+export function findIgnoredReason(config: ResolvedJobConfig, argsString: string | null): ReasonPattern | null {
+    if (!argsString) {
+        return null;
+    }
+    return config.ignoredReasons.find(pattern => matchesReasonPattern(pattern, argsString)) ?? null;
+}
+
+// Job address prefixed with its configured label, for logs and alerts
+export function formatJobName(jobAddress: string): string {
+    const label = jobConfig.jobs.get(jobAddress.toLowerCase())?.label;
+    return label ? `${label} (${jobAddress})` : jobAddress;
+}
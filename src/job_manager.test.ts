@@ -1,34 +1,58 @@
-import { getActiveJobs, initializeJobStates, jobStates, JobState, checkIfJobWasWorked } from './job_manager';
-import { sequencerContract, multicallProvider } from './ethereum';
+import { getActiveJobs, initializeJobStates, jobStates, JobState, checkIfJobWasWorked, syncJobRegistry, applyJobRegistryChanges, reconcileActiveJobs, jobContracts, decodeWorkEvent, recordJobWork, getLastWork, buildWorkLogIndex, getIndexedWorkEvents, recordWorkableFailure, clearWorkableFailure } from './job_manager';
+import { keeperStats, networkWorkStats } from './work_stats';
+import { sequencerContract } from './ethereum';
 import { ethers } from 'ethers';
+import sequencerAbi from './abis/sequencerAbi.json';
+import jobAbi from './abis/IJobAbi.json';
 
-// Explicitly mock sequencerContract and multicallProvider
+const sequencerInterface = new ethers.Interface(sequencerAbi);
+const jobInterface = new ethers.Interface(jobAbi);
+
+// Explicitly mock sequencerContract and the providers
 const mockedSequencerContract = {
     numJobs: jest.fn(),
     jobAt: jest.fn(),
     getMaster: jest.fn(),
+    interface: sequencerInterface,
 } as any; // Use 'any' to avoid type errors during assignment
 
+// Job contracts are connected to the plain provider; on a local chain id past blocks have no multicall,
+// so workable() is called per job
+const mockedProvider = {
+    getBlockNumber: jest.fn(),
+    getLogs: jest.fn(),
+    call: jest.fn(),
+    getNetwork: async () => ({ chainId: BigInt(31337) }),
+    get provider() { return mockedProvider; },
+} as any;
+
 const mockedMulticallProvider = {
-    provider: {
-        getBlockNumber: jest.fn(),
-        getLogs: jest.fn(),
-    },
     getBlockNumber: jest.fn(),
 } as any; // Use 'any' to avoid type errors during assignment
 
 
 jest.mock('./ethereum', () => {
+    const { ethers } = jest.requireActual('ethers');
     return {
-        sequencerContract: mockedSequencerContract,
-        multicallProvider: mockedMulticallProvider,
+        SEQUENCER_ADDRESS: '0x238b4E35dAed6100C6162fAE4510261f88996EC9',
+        // Getters defer access until the mocks above have been initialized
+        get sequencerContract() { return mockedSequencerContract; },
+        get provider() { return mockedProvider; },
+        get multicallProvider() { return mockedMulticallProvider; },
+        jobInterface: new ethers.Interface(jest.requireActual('./abis/IJobAbi.json')),
     };
 });
+jest.mock('./config', () => ({
+    UNWORKED_BLOCKS_THRESHOLD: BigInt(1000),
+    IGNORED_ARGS_MESSAGES: ["No ilks ready"],
+}));
+jest.mock('./logger');
 
 describe('job_manager', () => {
     beforeEach(() => {
         jest.clearAllMocks();
         jobStates.clear(); // Clear jobStates before each test
+        jobContracts.clear();
     });
 
     test('getActiveJobs should return an array of job addresses', async () => {
@@ -43,62 +67,330 @@ describe('job_manager', () => {
         expect(mockedSequencerContract.jobAt).toHaveBeenCalledTimes(2);
     });
 
+    test('getActiveJobs should read the registry at the given block', async () => {
+        mockedSequencerContract.numJobs.mockResolvedValue(BigInt(1));
+        mockedSequencerContract.jobAt.mockResolvedValueOnce('0xJobAddress1');
+
+        await getActiveJobs(BigInt(150));
+
+        expect(mockedSequencerContract.numJobs).toHaveBeenCalledWith({ blockTag: BigInt(150) });
+        expect(mockedSequencerContract.jobAt).toHaveBeenCalledWith(BigInt(0), { blockTag: BigInt(150) });
+    });
+
     test('getActiveJobs should handle errors when fetching jobs', async () => {
         mockedSequencerContract.numJobs.mockRejectedValue(new Error('RPC Error'));
 
-        await expect(getActiveJobs()).rejects.toThrow('Error fetching active jobs');
+        await expect(getActiveJobs()).rejects.toThrow('RPC Error');
     });
 
     test('initializeJobStates should initialize job states correctly', async () => {
-        const jobs = ['0x123', '0x456'];
-        mockedMulticallProvider.getBlockNumber.mockResolvedValue(21684850); // Mock getBlockNumber
-        mockedSequencerContract.getMaster.mockResolvedValue('0xNetworkIdentifier'); // Mock getMaster
+        const jobs = ['0x1111111111111111111111111111111111111111', '0x2222222222222222222222222222222222222222'];
+        const { data, topics } = jobInterface.encodeEventLog('Work', [ethers.encodeBytes32String('MAKER'), '0x9999999999999999999999999999999999999999']);
+        mockedMulticallProvider.getBlockNumber.mockResolvedValue(21684850);
+        mockedProvider.getLogs.mockResolvedValue([{ address: jobs[0], data, topics, blockNumber: 21684800, transactionHash: ethers.id('work'), index: 0 }]);
+        mockedProvider.call.mockResolvedValue(jobInterface.encodeFunctionResult('workable', [false, ethers.toUtf8Bytes('No work to do')]));
+        mockedSequencerContract.getMaster.mockResolvedValue(ethers.encodeBytes32String('MAKER'));
 
         await initializeJobStates(jobs);
         expect(jobStates.size).toBe(jobs.length);
-        jobs.forEach(job => {
-            expect(jobStates.has(job)).toBe(true);
-        });
+        expect(jobStates.get(jobs[0])).toEqual(expect.objectContaining({ lastWorkedBlock: BigInt(21684800), consecutiveUnworkedBlocks: BigInt(50) }));
+        expect(jobStates.get(jobs[0])!.recentWork).toHaveLength(1);
+        expect(jobStates.get(jobs[1])).toEqual(expect.objectContaining({ lastWorkedBlock: BigInt(21683852), consecutiveUnworkedBlocks: BigInt(998) }));
+        // 999 blocks, the most a single getLogs query may span
+        expect(mockedProvider.getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 21683852, toBlock: 21684850 }));
     });
 
     describe('checkIfJobWasWorked', () => {
         it('should return true if Work events are found', async () => {
-            const mockLog = { blockNumber: 123 } as ethers.Log; // Minimal Log object
-            jest.spyOn(mockedMulticallProvider.provider, 'getLogs').mockResolvedValueOnce([mockLog, mockLog]); // Mock with some events
             const jobAddress = '0xJobAddress';
+            const { data, topics } = jobInterface.encodeEventLog('Work', [ethers.encodeBytes32String('MAKER'), '0x9999999999999999999999999999999999999999']);
+            const workLogs = [123, 150].map(blockNumber => ({ address: jobAddress, data, topics, blockNumber, transactionHash: ethers.id(`${blockNumber}`), index: 0 }) as unknown as ethers.Log);
+            jest.spyOn(mockedProvider, 'getLogs').mockResolvedValueOnce(workLogs);
             const fromBlock = BigInt(100);
             const toBlock = BigInt(200);
-            const providerMock = mockedMulticallProvider.provider;
+            const providerMock = mockedProvider;
 
             const wasWorked = await checkIfJobWasWorked(jobAddress, fromBlock, toBlock, providerMock);
             expect(wasWorked).toBe(true);
-            expect(mockedMulticallProvider.provider.getLogs).toHaveBeenCalledTimes(1);
+            expect(mockedProvider.getLogs).toHaveBeenCalledTimes(1);
         });
 
         it('should return false if no Work events are found', async () => {
-            jest.spyOn(mockedMulticallProvider.provider, 'getLogs').mockResolvedValueOnce([]); // Mock with no events
+            jest.spyOn(mockedProvider, 'getLogs').mockResolvedValueOnce([]); // Mock with no events
             const jobAddress = '0xJobAddress';
             const fromBlock = BigInt(100);
             const toBlock = BigInt(200);
-            const providerMock = mockedMulticallProvider.provider;
+            const providerMock = mockedProvider;
 
 
             const wasWorked = await checkIfJobWasWorked(jobAddress, fromBlock, toBlock, providerMock);
             expect(wasWorked).toBe(false);
-            expect(mockedMulticallProvider.provider.getLogs).toHaveBeenCalledTimes(1);
+            expect(mockedProvider.getLogs).toHaveBeenCalledTimes(1);
         });
 
         it('should handle errors when fetching Work events', async () => {
-            jest.spyOn(mockedMulticallProvider.provider, 'getLogs').mockRejectedValueOnce(new Error('RPC Error'));
+            jest.spyOn(mockedProvider, 'getLogs').mockRejectedValueOnce(new Error('RPC Error'));
             const jobAddress = '0xJobAddress';
             const fromBlock = BigInt(100);
             const toBlock = BigInt(200);
-            const providerMock = mockedMulticallProvider.provider;
+            const providerMock = mockedProvider;
 
 
             const wasWorked = await checkIfJobWasWorked(jobAddress, fromBlock, toBlock, providerMock);
             expect(wasWorked).toBe(false); // Should return false on error
-            expect(mockedMulticallProvider.provider.getLogs).toHaveBeenCalledTimes(1);
+            expect(mockedProvider.getLogs).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('job registry', () => {
+        const jobA = '0x1111111111111111111111111111111111111111';
+        const jobB = '0x2222222222222222222222222222222222222222';
+        const jobC = '0x3333333333333333333333333333333333333333';
+
+        function registryLog(name: 'AddJob' | 'RemoveJob', job: string, blockNumber: number, index: number = 0) {
+            const { data, topics } = sequencerInterface.encodeEventLog(name, [job]);
+            return { address: '0x238b4E35dAed6100C6162fAE4510261f88996EC9', data, topics, blockNumber, index } as any;
+        }
+
+        function seedJob(address: string) {
+            jobStates.set(address, {
+                address,
+                lastWorkedBlock: BigInt(100),
+                lastCheckedBlock: BigInt(100),
+                consecutiveUnworkedBlocks: BigInt(0),
+                workableUnworkedBlocks: BigInt(0),
+                lastUpdateTime: Date.now(),
+                recentWork: [],
+                incident: null,
+                workableError: null,
+                workMismatch: null,
+            });
+        }
+
+        beforeEach(() => {
+            // Drop queued responses left behind by earlier tests
+            mockedProvider.getLogs.mockReset();
+            mockedSequencerContract.jobAt.mockReset();
+            mockedSequencerContract.getMaster.mockResolvedValue(ethers.encodeBytes32String('NETWORK'));
+            mockedProvider.call.mockResolvedValue(
+                jobInterface.encodeFunctionResult('workable', [false, ethers.toUtf8Bytes('No work to do')])
+            );
+        });
+
+        it('should bootstrap jobs added by AddJob events at the block they were added', async () => {
+            mockedProvider.getLogs
+                .mockResolvedValueOnce([registryLog('AddJob', jobA, 150)]) // registry events
+                .mockResolvedValueOnce([]); // Work events for the bootstrap scan
+
+            await syncJobRegistry(BigInt(140), BigInt(160));
+
+            expect(jobStates.has(jobA)).toBe(true);
+            expect(jobContracts.has(jobA)).toBe(true);
+            expect(jobStates.get(jobA)!.lastCheckedBlock).toBe(BigInt(149));
+        });
+
+        it('should bootstrap the other jobs when one job\'s workable() reverts', async () => {
+            const revertData = ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Job: killed'])]);
+            mockedProvider.call.mockImplementation(async (tx: { to: string }) => {
+                if (tx.to.toLowerCase() === jobB) {
+                    throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', { action: 'call', data: revertData, reason: null, transaction: { to: jobB, data: '' }, invocation: null, revert: null });
+                }
+                return jobInterface.encodeFunctionResult('workable', [true, '0x']);
+            });
+            mockedProvider.getLogs.mockResolvedValueOnce([]);
+
+            await initializeJobStates([jobA, jobB], BigInt(200));
+
+            // Evaluated at the bootstrap block, not the chain head
+            expect(mockedSequencerContract.getMaster).toHaveBeenCalledWith({ blockTag: BigInt(200) });
+            expect(mockedProvider.call).toHaveBeenCalledWith(expect.objectContaining({ blockTag: BigInt(200) }));
+            expect(jobStates.get(jobA)!.workableError).toBeNull();
+            expect(jobStates.get(jobB)!.workableError).toEqual({
+                reason: 'Job: killed',
+                firstFailedBlock: BigInt(200),
+                lastFailedBlock: BigInt(200),
+                consecutiveFailures: 1,
+                alerted: false,
+            });
+        });
+
+        it('should count consecutive workable() failures until a call succeeds', () => {
+            seedJob(jobA);
+            const jobState = jobStates.get(jobA)!;
+
+            recordWorkableFailure(jobState, 'Job: paused', BigInt(201));
+            recordWorkableFailure(jobState, 'Job: paused', BigInt(202)).alerted = true;
+
+            expect(jobState.workableError).toEqual({ reason: 'Job: paused', firstFailedBlock: BigInt(201), lastFailedBlock: BigInt(202), consecutiveFailures: 2, alerted: true });
+            expect(clearWorkableFailure(jobState)!.consecutiveFailures).toBe(2);
+            expect(jobState.workableError).toBeNull();
+        });
+
+        it('should drop jobs removed by RemoveJob events once processing reaches the removal block', async () => {
+            seedJob(jobA);
+            seedJob(jobB);
+            mockedProvider.getLogs.mockResolvedValueOnce([registryLog('RemoveJob', jobA.toUpperCase().replace('0X', '0x'), 150)]);
+
+            const changes = await syncJobRegistry(BigInt(140), BigInt(160));
+
+            // Still monitored for the blocks before the removal
+            expect(changes).toEqual([{ type: 'remove', job: jobA.toUpperCase().replace('0X', '0x'), blockNumber: BigInt(150) }]);
+            expect(jobStates.has(jobA)).toBe(true);
+            await applyJobRegistryChanges(changes, BigInt(149));
+            expect(jobStates.has(jobA)).toBe(true);
+
+            await applyJobRegistryChanges(changes, BigInt(150));
+            expect(jobStates.has(jobA)).toBe(false);
+            expect(jobStates.has(jobB)).toBe(true);
+        });
+
+        it('should replay events in chain order', async () => {
+            mockedProvider.getLogs.mockResolvedValueOnce([
+                registryLog('RemoveJob', jobA, 155),
+                registryLog('AddJob', jobA, 150),
+            ]).mockResolvedValueOnce([]);
+
+            const changes = await syncJobRegistry(BigInt(140), BigInt(160));
+
+            expect(jobStates.has(jobA)).toBe(true);
+            await applyJobRegistryChanges(changes, BigInt(155));
+            expect(jobStates.has(jobA)).toBe(false);
+        });
+
+        it('should bootstrap a job added back after a removal at the block it was added back', async () => {
+            seedJob(jobA);
+            mockedProvider.getLogs.mockResolvedValueOnce([
+                registryLog('RemoveJob', jobA, 150),
+                registryLog('AddJob', jobA, 155),
+            ]).mockResolvedValueOnce([]);
+
+            const changes = await syncJobRegistry(BigInt(140), BigInt(160));
+            await applyJobRegistryChanges(changes, BigInt(150));
+            expect(jobStates.has(jobA)).toBe(false);
+
+            await applyJobRegistryChanges(changes, BigInt(155));
+            expect(jobStates.get(jobA)!.lastCheckedBlock).toBe(BigInt(154));
+        });
+
+        it('should reconcile the monitored set against numJobs()', async () => {
+            seedJob(jobA);
+            seedJob(jobC);
+            mockedSequencerContract.numJobs.mockResolvedValue(BigInt(1));
+            mockedSequencerContract.jobAt.mockResolvedValueOnce(jobB);
+            mockedProvider.getLogs.mockResolvedValueOnce([]);
+
+            await reconcileActiveJobs(BigInt(200));
+
+            expect(mockedSequencerContract.numJobs).toHaveBeenCalledWith({ blockTag: BigInt(200) });
+            expect(mockedSequencerContract.jobAt).toHaveBeenCalledWith(BigInt(0), { blockTag: BigInt(200) });
+            expect(Array.from(jobStates.keys())).toEqual([jobB]);
+            // Bootstrapped from the block after the one the registry was read at
+            expect(jobStates.get(jobB)!.lastCheckedBlock).toBe(BigInt(200));
+        });
+
+        it('should skip the full job scan when numJobs() matches', async () => {
+            seedJob(jobA);
+            mockedSequencerContract.numJobs.mockResolvedValue(BigInt(1));
+
+            await reconcileActiveJobs(BigInt(200));
+
+            expect(mockedSequencerContract.jobAt).not.toHaveBeenCalled();
+            expect(jobStates.has(jobA)).toBe(true);
+        });
+    });
+
+    describe('work attribution', () => {
+        const job = '0x1111111111111111111111111111111111111111';
+        const keeper = '0x9999999999999999999999999999999999999999';
+        const network = ethers.encodeBytes32String('MAKER');
+
+        function workLog(blockNumber: number, transactionHash: string) {
+            const { data, topics } = jobInterface.encodeEventLog('Work', [network, keeper]);
+            return { address: job, data, topics, blockNumber, transactionHash, index: 0 } as any;
+        }
+
+        function emptyJobState(): JobState {
+            return {
+                address: job,
+                lastWorkedBlock: BigInt(0),
+                lastCheckedBlock: BigInt(0),
+                consecutiveUnworkedBlocks: BigInt(0),
+                workableUnworkedBlocks: BigInt(0),
+                lastUpdateTime: 0,
+                recentWork: [],
+                incident: null,
+                workableError: null,
+                workMismatch: null,
+            };
+        }
+
+        beforeEach(() => {
+            keeperStats.clear();
+            networkWorkStats.clear();
+        });
+
+        it('should decode the network and keeper topics of a Work event', () => {
+            expect(decodeWorkEvent(workLog(150, '0xaaa'))).toEqual({
+                network,
+                keeper,
+                blockNumber: BigInt(150),
+                transactionHash: '0xaaa',
+            });
+        });
+
+        it('should record work per job and per keeper and network without double counting', () => {
+            const jobState = emptyJobState();
+            const first = decodeWorkEvent(workLog(150, '0xaaa'))!;
+            const second = decodeWorkEvent(workLog(160, '0xbbb'))!;
+
+            recordJobWork(jobState, [second, first]);
+            recordJobWork(jobState, [second]); // Seen again, e.g. after an overlapping scan
+
+            expect(jobState.recentWork.map(work => work.transactionHash)).toEqual(['0xaaa', '0xbbb']);
+            expect(getLastWork(jobState)!.blockNumber).toBe(BigInt(160));
+            expect(keeperStats.get(keeper.toLowerCase())!.workCount).toBe(2);
+            expect(networkWorkStats.get(network)!.jobsServed).toEqual([job]);
+        });
+    });
+
+    describe('work log index', () => {
+        const jobA = '0x1111111111111111111111111111111111111111';
+        const jobB = '0x2222222222222222222222222222222222222222';
+        const keeper = '0x9999999999999999999999999999999999999999';
+        const network = ethers.encodeBytes32String('MAKER');
+
+        function workLog(job: string, blockNumber: number) {
+            const { data, topics } = jobInterface.encodeEventLog('Work', [network, keeper]);
+            return { address: job, data, topics, blockNumber, transactionHash: `0x${blockNumber}`, index: 0 } as any;
+        }
+
+        beforeEach(() => {
+            mockedProvider.getLogs.mockReset();
+        });
+
+        it('should fetch Work events for every job with a single query', async () => {
+            mockedProvider.getLogs.mockResolvedValueOnce([workLog(jobB, 120), workLog(jobA, 110)]);
+
+            const index = await buildWorkLogIndex([jobA, jobB], BigInt(100), BigInt(150), mockedProvider);
+
+            expect(mockedProvider.getLogs).toHaveBeenCalledTimes(1);
+            expect(mockedProvider.getLogs.mock.calls[0][0]).toEqual(expect.objectContaining({ address: [jobA, jobB], fromBlock: 100, toBlock: 150 }));
+            expect(getIndexedWorkEvents(index, jobA, BigInt(100), BigInt(109))).toEqual([]);
+            expect(getIndexedWorkEvents(index, jobA, BigInt(110), BigInt(110))!.map(work => work.blockNumber)).toEqual([BigInt(110)]);
+            expect(getIndexedWorkEvents(index, jobB.toUpperCase().replace('0X', '0x'), BigInt(100), BigInt(150))).toHaveLength(1);
+        });
+
+        it('should report ranges outside the index as not covered', async () => {
+            mockedProvider.getLogs.mockResolvedValueOnce([]);
+
+            const index = await buildWorkLogIndex([jobA], BigInt(100), BigInt(150), mockedProvider);
+
+            expect(getIndexedWorkEvents(index, jobA, BigInt(99), BigInt(120))).toBeNull();
+        });
+
+        it('should refuse ranges of 1000 blocks or more', async () => {
+            await expect(buildWorkLogIndex([jobA], BigInt(0), BigInt(999), mockedProvider)).rejects.toThrow('exceeds 999 blocks');
+            expect(mockedProvider.getLogs).not.toHaveBeenCalled();
         });
     });
 });
@@ -1,49 +1,111 @@
 import { ethers, Filter } from 'ethers';
 import * as ethereum from './ethereum';
-import { logWithTimestamp } from './utils';
-import { IGNORED_ARGS_MESSAGES, UNWORKED_BLOCKS_THRESHOLD } from './config'; // Import UNWORKED_BLOCKS_THRESHOLD
-import { sendDiscordAlert } from './alerting'; // Import sendDiscordAlert
+import { IGNORED_ARGS_MESSAGES } from './config';
+import { recordWorkStats } from './work_stats';
+import { getJobConfig, findIgnoredReason, formatReasonPattern, formatJobName } from './job_config';
+import { timeRpc, observeJob, forgetJob } from './metrics';
+import { createLogger } from './logger';
+import { callWorkable, WorkableOutcome, WorkMismatchType } from './workable';
+
+const logger = createLogger('job_manager');
+
+// A decoded Work(bytes32 indexed network, address indexed keeper) event
+export interface WorkRecord {
+    network: string;
+    keeper: string;
+    blockNumber: bigint;
+    transactionHash: string;
+}
+
+// An open alert incident for a job, from the first threshold breach until Work is seen again
+export interface JobIncident {
+    openedAtBlock: bigint;
+    lastAlertBlock: bigint;
+    nextReminderBlock: bigint;
+    alertsSent: number;
+    escalated: boolean;
+}
+
+// Set while the job's workable() call fails, cleared by the next successful call
+export interface JobWorkableError {
+    reason: string;
+    firstFailedBlock: bigint;
+    lastFailedBlock: bigint;
+    consecutiveFailures: number;
+    alerted: boolean;
+}
+
+// Set while simulating work() disagrees with workable(), cleared once they agree again
+export interface JobWorkMismatch {
+    type: WorkMismatchType;
+    reason: string | null; // Decoded revert of work(); null when work() succeeded
+    revertData: string | null;
+    firstSeenBlock: bigint;
+    lastSeenBlock: bigint;
+    occurrences: number;
+    alerted: boolean;
+}
 
 export interface JobState {
     address: string;
     lastWorkedBlock: bigint;
     lastCheckedBlock: bigint;
     consecutiveUnworkedBlocks: bigint;
+    workableUnworkedBlocks: bigint; // Blocks of the current unworked streak in which the job was workable
     lastUpdateTime: number;
+    recentWork: WorkRecord[]; // Most recent Work events, oldest first
+    incident: JobIncident | null;
+    workableError: JobWorkableError | null;
+    workMismatch: JobWorkMismatch | null;
 }
 
+const MAX_RECENT_WORK = 10;
+
 export const jobStates: Map<string, JobState> = new Map();
 const jobContracts: Map<string, ethers.Contract> = new Map();
 
-export async function getActiveJobs(): Promise<string[]> {
+// Jobs registered with the Sequencer as of blockTag
+export async function getActiveJobs(blockTag: ethers.BlockTag = 'latest'): Promise<string[]> {
     try {
-        const numJobs: bigint = await ethereum.sequencerContract.numJobs();
+        const numJobs: bigint = await ethereum.sequencerContract.numJobs({ blockTag });
         const jobs: string[] = [];
 
         for (let i = BigInt(0); i < numJobs; i = i + BigInt(1)) {
-            const jobAddress: string = await ethereum.sequencerContract.jobAt(i);
+            const jobAddress: string = await ethereum.sequencerContract.jobAt(i, { blockTag });
             jobs.push(jobAddress);
         }
 
         return jobs;
     } catch (error) {
-        console.error("Error fetching active jobs:", error);
+        logger.error("Error fetching active jobs", { error });
         throw error;
     }
 }
 
-export async function checkIfJobWasWorked(
+export function decodeWorkEvent(log: ethers.Log): WorkRecord | null {
+    const parsed = ethereum.jobInterface.parseLog(log);
+    if (!parsed || parsed.name !== 'Work') {
+        return null;
+    }
+    return {
+        network: parsed.args.network,
+        keeper: parsed.args.keeper,
+        blockNumber: BigInt(log.blockNumber),
+        transactionHash: log.transactionHash,
+    };
+}
+
+export async function fetchWorkEvents(
     jobAddress: string,
     fromBlock: bigint,
     toBlock: bigint,
     provider: ethers.Provider
-): Promise<boolean> {
+): Promise<WorkRecord[]> {
     try {
-        const jobContract = new ethers.Contract(jobAddress, ethereum.jobInterface, provider);
         const workEventFragment = ethereum.jobInterface.getEvent("Work");
         if (!workEventFragment) {
-            console.error(`Event 'Work' not found in job interface for job ${jobAddress}.`);
-            return false;
+            logger.error("Event 'Work' not found in job interface", { job: jobAddress });
+            return [];
         }
 
         const workEventSignature = workEventFragment.topicHash;
@@ -54,43 +116,185 @@ export async function checkIfJobWasWorked(
             toBlock: Number(toBlock)
         };
 
-        const events = await provider.getLogs(filter);
-        return events.length > 0;
+        const events = await timeRpc('getLogs', () => provider.getLogs(filter));
+        return events
+            .map(decodeWorkEvent)
+            .filter((record): record is WorkRecord => record !== null);
     } catch (error) {
-        console.error(`Error fetching Work events for job ${jobAddress} from block ${fromBlock} to ${toBlock}:`, error); // Enhanced logging with block range
-        return false;
+        logger.error("Error fetching Work events", { job: jobAddress, fromBlock, toBlock, error });
+        return [];
     }
 }
 
-export async function initializeJobStates(jobs: string[]): Promise<void> {
-    logWithTimestamp('Initializing job states...');
-    const currentBlock = BigInt(await ethereum.multicallProvider.getBlockNumber());
-    const fromBlock = currentBlock >= BigInt(1000) ? currentBlock - BigInt(1000) : BigInt(0);
+// Work events for many jobs over one block range, fetched with a single getLogs call
+export interface WorkLogIndex {
+    fromBlock: bigint;
+    toBlock: bigint;
+    byJob: Map<string, WorkRecord[]>; // Keyed by lowercased job address, each list in block order
+}
+
+export const MAX_BLOCKS_PER_QUERY = 999; // Ensure we never query 1000 or more blocks
 
-    logWithTimestamp(`Fetching Work events from block ${fromBlock.toString()} to ${currentBlock.toString()} for ${jobs.length} jobs...`);
+export async function buildWorkLogIndex(
+    jobAddresses: string[],
+    fromBlock: bigint,
+    toBlock: bigint,
+    provider: ethers.Provider
+): Promise<WorkLogIndex> {
+    if (toBlock - fromBlock + BigInt(1) > BigInt(MAX_BLOCKS_PER_QUERY)) {
+        throw new Error(`Work log range ${fromBlock.toString()}-${toBlock.toString()} exceeds ${MAX_BLOCKS_PER_QUERY} blocks`);
+    }
+    const index: WorkLogIndex = { fromBlock, toBlock, byJob: new Map() };
+    if (jobAddresses.length === 0) {
+        return index;
+    }
+
+    const workEventFragment = ethereum.jobInterface.getEvent("Work");
+    if (!workEventFragment) {
+        throw new Error("Event 'Work' not found in job interface.");
+    }
+    const filter: Filter = {
+        address: jobAddresses,
+        topics: [workEventFragment.topicHash],
+        fromBlock: Number(fromBlock),
+        toBlock: Number(toBlock),
+    };
+    const logs = await timeRpc('getLogs', () => provider.getLogs(filter));
+
+    for (const log of logs) {
+        const record = decodeWorkEvent(log);
+        if (!record) {
+            continue;
+        }
+        const jobAddress = log.address.toLowerCase();
+        index.byJob.set(jobAddress, [...(index.byJob.get(jobAddress) ?? []), record]);
+    }
+    for (const records of index.byJob.values()) {
+        records.sort((a, b) => (a.blockNumber < b.blockNumber ? -1 : a.blockNumber > b.blockNumber ? 1 : 0));
+    }
+    logger.debug(`Indexed ${logs.length} Work events for ${jobAddresses.length} jobs`, { fromBlock, toBlock });
+    return index;
+}
+
+// Returns the job's Work events in [fromBlock, toBlock] from the index, or null when the index does not cover the range
+export function getIndexedWorkEvents(index: WorkLogIndex, jobAddress: string, fromBlock: bigint, toBlock: bigint): WorkRecord[] | null {
+    if (fromBlock < index.fromBlock || toBlock > index.toBlock) {
+        return null;
+    }
+    const records = index.byJob.get(jobAddress.toLowerCase()) ?? [];
+    return records.filter(record => record.blockNumber >= fromBlock && record.blockNumber <= toBlock);
+}
+
+export async function checkIfJobWasWorked(
+    jobAddress: string,
+    fromBlock: bigint,
+    toBlock: bigint,
+    provider: ethers.Provider
+): Promise<boolean> {
+    const events = await fetchWorkEvents(jobAddress, fromBlock, toBlock, provider);
+    return events.length > 0;
+}
+
+export function getLastWork(jobState: JobState): WorkRecord | null {
+    return jobState.recentWork.length > 0 ? jobState.recentWork[jobState.recentWork.length - 1] : null;
+}
+
+// Appends Work events to the job's history and keeper/network statistics, skipping any already recorded
+// Returns the records that were not known yet
+export function recordJobWork(jobState: JobState, records: WorkRecord[]): WorkRecord[] {
+    const sorted = [...records].sort((a, b) => (a.blockNumber < b.blockNumber ? -1 : a.blockNumber > b.blockNumber ? 1 : 0));
+    const recorded: WorkRecord[] = [];
+    for (const record of sorted) {
+        const last = getLastWork(jobState);
+        if (last && (record.blockNumber < last.blockNumber || jobState.recentWork.some(work => work.transactionHash === record.transactionHash))) {
+            continue;
+        }
+        jobState.recentWork.push(record);
+        recordWorkStats(jobState.address, record);
+        recorded.push(record);
+    }
+    if (jobState.recentWork.length > MAX_RECENT_WORK) {
+        jobState.recentWork.splice(0, jobState.recentWork.length - MAX_RECENT_WORK);
+    }
+    return recorded;
+}
+
+// A block evaluated again after a failed alert delivery is not counted twice
+export function recordWorkableFailure(jobState: JobState, reason: string, blockNumber: bigint): JobWorkableError {
+    const previous = jobState.workableError;
+    const repeated = previous?.lastFailedBlock === blockNumber;
+    jobState.workableError = {
+        reason,
+        firstFailedBlock: previous?.firstFailedBlock ?? blockNumber,
+        lastFailedBlock: blockNumber,
+        consecutiveFailures: (previous?.consecutiveFailures ?? 0) + (repeated ? 0 : 1),
+        alerted: previous?.alerted ?? false,
+    };
+    return jobState.workableError;
+}
+
+// Returns the error state that ended, if the job was failing until now
+export function clearWorkableFailure(jobState: JobState): JobWorkableError | null {
+    const previous = jobState.workableError;
+    jobState.workableError = null;
+    return previous;
+}
+
+// A mismatch of a different type starts over, so it gets its own alert
+export function recordWorkMismatch(jobState: JobState, type: WorkMismatchType, reason: string | null, revertData: string | null, blockNumber: bigint): JobWorkMismatch {
+    const previous = jobState.workMismatch?.type === type ? jobState.workMismatch : null;
+    const repeated = previous?.lastSeenBlock === blockNumber;
+    jobState.workMismatch = {
+        type,
+        reason,
+        revertData,
+        firstSeenBlock: previous?.firstSeenBlock ?? blockNumber,
+        lastSeenBlock: blockNumber,
+        occurrences: (previous?.occurrences ?? 0) + (repeated ? 0 : 1),
+        alerted: previous?.alerted ?? false,
+    };
+    return jobState.workMismatch;
+}
+
+// Returns the mismatch that ended, if there was one
+export function clearWorkMismatch(jobState: JobState): JobWorkMismatch | null {
+    const previous = jobState.workMismatch;
+    jobState.workMismatch = null;
+    return previous;
+}
+
+// Bootstraps job states from the last MAX_BLOCKS_PER_QUERY blocks of Work events, in a single getLogs query. When atBlock is given the
+// lookback ends there instead of at the chain head, so jobs discovered mid-batch line up with
+// the block being processed.
+export async function initializeJobStates(jobs: string[], atBlock?: bigint): Promise<void> {
+    logger.info(`Initializing job states for ${jobs.length} jobs`);
+    const currentBlock = atBlock ?? BigInt(await timeRpc('getBlockNumber', () => ethereum.multicallProvider.getBlockNumber()));
+    const lookback = BigInt(MAX_BLOCKS_PER_QUERY - 1); // fromBlock and currentBlock are both included
+    const fromBlock = currentBlock >= lookback ? currentBlock - lookback : BigInt(0);
+
+    logger.debug("Fetching Work events", { fromBlock, toBlock: currentBlock });
 
     const workEventFragment = ethereum.jobInterface.getEvent("Work");
     if (!workEventFragment) {
         throw new Error("Event 'Work' not found in job interface.");
     }
     const workEventSignature = workEventFragment.topicHash;
-    logWithTimestamp(`[Initialization] Work Event Signature: ${workEventSignature}`);
     const filter: Filter = {
         address: jobs,
         topics: [workEventSignature],
         fromBlock: Number(fromBlock),
         toBlock: Number(currentBlock),
     };
-    logWithTimestamp(`[Initialization] Event filter: ${JSON.stringify(filter)}`);
+    logger.debug("Work event filter", { filter });
 
     try {
-        logWithTimestamp(`[Initialization] Fetching logs with filter...`);
-        const events = await ethereum.multicallProvider.provider.getLogs(filter); // Use underlying provider for getLogs
+        const events = await timeRpc('getLogs', () => ethereum.provider.getLogs(filter));
         if (!events) {
             throw new Error('Failed to fetch Work events from the blockchain');
         }
-        logWithTimestamp(`[Initialization] Fetched ${events.length} Work events from the blockchain.`);
+        logger.debug(`Fetched ${events.length} Work events from the blockchain`);
         const lastWorkedBlocks = new Map<string, bigint>();
+        const workRecords = new Map<string, WorkRecord[]>();
 
         for (const event of events) {
             const jobAddress = event.address.toLowerCase();
@@ -99,81 +303,275 @@ export async function initializeJobStates(jobs: string[]): Promise<void> {
             if (!lastWorkedBlocks.has(jobAddress) || eventBlockNumber > lastWorkedBlocks.get(jobAddress)!) {
                 lastWorkedBlocks.set(jobAddress, eventBlockNumber);
             }
+
+            const record = decodeWorkEvent(event);
+            if (record) {
+                workRecords.set(jobAddress, [...(workRecords.get(jobAddress) ?? []), record]);
+            }
         }
 
         for (const jobAddress of jobs) {
-            const jobContract = new ethers.Contract(jobAddress, ethereum.jobInterface, ethereum.multicallProvider.provider); // Use underlying provider here
-            jobContracts.set(jobAddress, jobContract);
+            createJobContract(jobAddress);
         }
 
-        const networkIdentifier: string = await ethereum.sequencerContract.getMaster();
+        const networkIdentifier: string = await timeRpc('getMaster', () => ethereum.sequencerContract.getMaster({ blockTag: currentBlock }));
 
-        const workableResults = await Promise.all(
-            jobs.map(async (jobAddress) => {
-                const jobContract = jobContracts.get(jobAddress)!;
-                logWithTimestamp(`[Initialization] Calling workable() for job ${jobAddress}`);
-                return await jobContract.workable(networkIdentifier, { provider: ethereum.multicallProvider });
-            })
-        );
-        logWithTimestamp(`[Initialization] Received workable() results.`);
+        // A job whose workable() reverts starts out in the error state instead of failing the whole bootstrap
+        const workableResults: WorkableOutcome[] = await timeRpc('workable', () => callWorkable(jobs.map(jobAddress => jobContracts.get(jobAddress)!), networkIdentifier, currentBlock));
 
         for (let i = 0; i < jobs.length; i++) {
             const jobAddress = jobs[i];
             const normalizedAddress = jobAddress.toLowerCase();
             const lastWorkedBlock = lastWorkedBlocks.get(normalizedAddress);
+            const jobLogger = logger.child({ job: jobAddress });
             let consecutiveUnworkedBlocks: bigint;
 
             if (lastWorkedBlock) {
                 consecutiveUnworkedBlocks = currentBlock - lastWorkedBlock;
-                logWithTimestamp(`[Initialization] Job ${jobAddress} last worked at block: ${lastWorkedBlock.toString()}`);
+                jobLogger.debug("Job last worked", { lastWorkedBlock });
             } else {
                 consecutiveUnworkedBlocks = currentBlock - fromBlock;
-                logWithTimestamp(`[Initialization] Job ${jobAddress} NOT worked in the last ${fromBlock.toString()} blocks.`);
+                jobLogger.debug(`Job not worked since block ${fromBlock.toString()}`);
             }
 
             const workableResult = workableResults[i];
-            const canWork = workableResult[0];
-            const argsBytes = workableResult[1];
-            let argsString: string | null = null;
-
-            try {
-                argsString = new TextDecoder().decode(ethers.getBytes(argsBytes));
-            } catch (e) {
-                argsString = `Non-UTF8 args: ${argsBytes}`;
-            }
-            logWithTimestamp(`[Initialization] workable() result for job ${jobAddress}: ${JSON.stringify({ canWork: canWork, args: argsString })}`);
+            const canWork = workableResult.ok && workableResult.canWork;
+            const argsString = workableResult.ok ? workableResult.args : null;
+            jobLogger.debug("workable() result", workableResult.ok ? { canWork, args: argsString, argsFields: workableResult.argsFields } : { reverted: workableResult.reason });
 
-            jobStates.set(jobAddress, {
+            const jobState: JobState = {
                 address: jobAddress,
                 lastWorkedBlock: lastWorkedBlock ?? fromBlock,
                 lastCheckedBlock: currentBlock - BigInt(1),
                 consecutiveUnworkedBlocks,
-                lastUpdateTime: Date.now()
-            });
+                workableUnworkedBlocks: BigInt(0), // Unknown before the first check
+                lastUpdateTime: Date.now(),
+                recentWork: [],
+                incident: null,
+                workableError: null,
+                workMismatch: null
+            };
+            recordJobWork(jobState, workRecords.get(normalizedAddress) ?? []);
+            jobStates.set(jobAddress, jobState);
+            if (!workableResult.ok) {
+                recordWorkableFailure(jobState, workableResult.reason, currentBlock);
+                jobLogger.warn(`workable() of job ${formatJobName(jobAddress)} reverts: ${workableResult.reason}`);
+                observeJob(jobState, false, getJobConfig(jobAddress).label);
+                continue;
+            }
 
             // Only log initialization status, don't send alerts during init
-            if (consecutiveUnworkedBlocks >= UNWORKED_BLOCKS_THRESHOLD) {
-                if (argsString && IGNORED_ARGS_MESSAGES.includes(argsString)) {
-                    logWithTimestamp(`[Alert suppressed - Initialization] Job ${jobAddress} unworked for ${consecutiveUnworkedBlocks.toString()} blocks due to ignored reason: ${argsString}`);
+            const jobConfig = getJobConfig(jobAddress);
+            observeJob(jobState, canWork, jobConfig.label);
+            if (consecutiveUnworkedBlocks >= jobConfig.threshold) {
+                const ignoredReason = findIgnoredReason(jobConfig, argsString);
+                if (ignoredReason) {
+                    jobLogger.info(`[Alert suppressed - Initialization] Job ${formatJobName(jobAddress)} unworked for ${consecutiveUnworkedBlocks.toString()} blocks due to ignored reason`, { reason: argsString, matched: formatReasonPattern(ignoredReason) });
                 } else {
-                    logWithTimestamp(`[Initialization] Job ${jobAddress} has been unworked for ${consecutiveUnworkedBlocks.toString()} blocks`);
+                    jobLogger.warn(`Job ${formatJobName(jobAddress)} has been unworked for ${consecutiveUnworkedBlocks.toString()} blocks`, { threshold: jobConfig.threshold });
                 }
             }
         }
 
-        logWithTimestamp(`Initialization complete. Job states have been set up for ${jobStates.size} jobs.`);
+        logger.info(`Initialization complete. Job states have been set up for ${jobStates.size} jobs`);
     } catch (error) {
-        console.error("Error initializing job states:", error);
+        logger.error("Error initializing job states", { error });
         throw error;
     }
 }
 
+function createJobContract(jobAddress: string): void {
+    const jobContract = new ethers.Contract(jobAddress, ethereum.jobInterface, ethereum.provider);
+    jobContracts.set(jobAddress, jobContract);
+}
+
+// Restores job states from a persisted snapshot for the jobs that are still active.
+// Returns the active jobs that had no saved state and still need a bootstrap scan.
+export function restoreJobStates(savedStates: JobState[], activeJobs: string[]): string[] {
+    const savedByAddress = new Map(savedStates.map(state => [state.address.toLowerCase(), state]));
+    const missingJobs: string[] = [];
+
+    for (const jobAddress of activeJobs) {
+        const savedState = savedByAddress.get(jobAddress.toLowerCase());
+        if (!savedState) {
+            missingJobs.push(jobAddress);
+            continue;
+        }
+        createJobContract(jobAddress);
+        // Snapshots written before Work attribution, incidents, workable() errors, workable counts or work() simulation existed lack those fields
+        jobStates.set(jobAddress, {
+            ...savedState,
+            address: jobAddress,
+            lastUpdateTime: Date.now(),
+            workableUnworkedBlocks: savedState.workableUnworkedBlocks ?? BigInt(0),
+            recentWork: savedState.recentWork ?? [],
+            incident: savedState.incident ?? null,
+            workableError: savedState.workableError ?? null,
+            workMismatch: savedState.workMismatch ?? null
+        });
+    }
+
+    logger.info(`Restored ${activeJobs.length - missingJobs.length} job states from snapshot, ${missingJobs.length} jobs need bootstrapping`);
+    return missingJobs;
+}
+
+export function cloneJobState(state: JobState): JobState {
+    return {
+        ...state,
+        recentWork: state.recentWork.map(work => ({ ...work })),
+        incident: state.incident ? { ...state.incident } : null,
+        workableError: state.workableError ? { ...state.workableError } : null,
+        workMismatch: state.workMismatch ? { ...state.workMismatch } : null
+    };
+}
+
+// Replaces every tracked job with the given states, e.g. when rewinding to a checkpoint after a reorg.
+// Contracts are created for jobs that were dropped since the checkpoint and removed for jobs added after it.
+export function replaceJobStates(states: JobState[]): void {
+    const keep = new Set(states.map(state => state.address));
+    for (const address of Array.from(jobContracts.keys())) {
+        if (!keep.has(address)) {
+            jobContracts.delete(address);
+        }
+    }
+    jobStates.clear();
+    for (const state of states) {
+        if (!jobContracts.has(state.address)) {
+            createJobContract(state.address);
+        }
+        jobStates.set(state.address, cloneJobState(state));
+    }
+}
+
+function findTrackedAddress(jobAddress: string): string | undefined {
+    const normalizedAddress = jobAddress.toLowerCase();
+    for (const trackedAddress of jobStates.keys()) {
+        if (trackedAddress.toLowerCase() === normalizedAddress) {
+            return trackedAddress;
+        }
+    }
+    return undefined;
+}
+
+export function removeJob(jobAddress: string): boolean {
+    const trackedAddress = findTrackedAddress(jobAddress);
+    if (!trackedAddress) {
+        return false;
+    }
+    jobStates.delete(trackedAddress);
+    jobContracts.delete(trackedAddress);
+    forgetJob(trackedAddress);
+    logger.info("Removed job from monitoring", { job: trackedAddress });
+    return true;
+}
+
+// A registry change that waits until block processing reaches its block
+export interface JobRegistryChange {
+    type: 'add' | 'remove';
+    job: string;
+    blockNumber: bigint;
+}
+
+// Applies the Sequencer's AddJob/RemoveJob events in [fromBlock, toBlock] to the monitored set.
+// Range must stay below 1000 blocks, like every other getLogs query after bootstrap.
+// Added jobs are bootstrapped right away at the block they were added at. Removals, and jobs added back after
+// one, are returned instead: a removed job is still evaluated on the blocks before its removal, so the caller
+// applies them with applyJobRegistryChanges() as processing reaches their block.
+export async function syncJobRegistry(fromBlock: bigint, toBlock: bigint): Promise<JobRegistryChange[]> {
+    const addJobFragment = ethereum.sequencerContract.interface.getEvent("AddJob");
+    const removeJobFragment = ethereum.sequencerContract.interface.getEvent("RemoveJob");
+    if (!addJobFragment || !removeJobFragment) {
+        throw new Error("Events 'AddJob'/'RemoveJob' not found in sequencer interface.");
+    }
+
+    const filter: Filter = {
+        address: ethereum.SEQUENCER_ADDRESS,
+        topics: [[addJobFragment.topicHash, removeJobFragment.topicHash]],
+        fromBlock: Number(fromBlock),
+        toBlock: Number(toBlock),
+    };
+    const logs = await timeRpc('getLogs', () => ethereum.provider.getLogs(filter));
+    if (logs.length === 0) {
+        return [];
+    }
+    logger.info(`Found ${logs.length} AddJob/RemoveJob events`, { fromBlock, toBlock });
+
+    // Replay in chain order so an add followed by a remove in the same range nets out correctly
+    const sortedLogs = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    const pending: JobRegistryChange[] = [];
+    for (const log of sortedLogs) {
+        const parsed = ethereum.sequencerContract.interface.parseLog(log);
+        if (!parsed) {
+            continue;
+        }
+        const jobAddress: string = parsed.args.job;
+        const blockNumber = BigInt(log.blockNumber);
+
+        if (parsed.name === 'AddJob') {
+            if (pending.some(change => change.job.toLowerCase() === jobAddress.toLowerCase())) {
+                // Added back after a removal that has not been applied yet
+                pending.push({ type: 'add', job: jobAddress, blockNumber });
+                continue;
+            }
+            if (findTrackedAddress(jobAddress)) {
+                continue;
+            }
+            logger.info("Job added, bootstrapping", { job: jobAddress, block: log.blockNumber });
+            await initializeJobStates([jobAddress], blockNumber);
+        } else if (parsed.name === 'RemoveJob') {
+            logger.info(`Job removed, monitoring it up to block ${(blockNumber - BigInt(1)).toString()}`, { job: jobAddress, block: log.blockNumber });
+            pending.push({ type: 'remove', job: jobAddress, blockNumber });
+        }
+    }
+    return pending;
+}
+
+// Applies the changes returned by syncJobRegistry() that took effect at blockNumber, before it is processed
+export async function applyJobRegistryChanges(changes: JobRegistryChange[], blockNumber: bigint): Promise<void> {
+    for (const change of changes.filter(candidate => candidate.blockNumber === blockNumber)) {
+        if (change.type === 'remove') {
+            removeJob(change.job);
+        } else if (!findTrackedAddress(change.job)) {
+            logger.info("Job added back, bootstrapping", { job: change.job, block: blockNumber });
+            await initializeJobStates([change.job], blockNumber);
+        }
+    }
+}
+
+// Cross-checks the monitored set against numJobs()/jobAt() and repairs any drift,
+// e.g. from missed events or jobs dropped by cleanupInactiveJobs.
+// The registry is read as of atBlock, the block the job states were last brought up to; missing jobs are
+// bootstrapped from the block after it.
+export async function reconcileActiveJobs(atBlock: bigint): Promise<void> {
+    const numJobs: bigint = await ethereum.sequencerContract.numJobs({ blockTag: atBlock });
+    if (numJobs === BigInt(jobStates.size)) {
+        logger.debug(`Reconciliation OK: ${numJobs.toString()} jobs monitored`, { block: atBlock });
+        return;
+    }
+
+    logger.warn(`Sequencer reports ${numJobs.toString()} jobs but ${jobStates.size} are monitored, reconciling`, { block: atBlock });
+    const activeJobs = await getActiveJobs(atBlock);
+    const activeSet = new Set(activeJobs.map(job => job.toLowerCase()));
+
+    for (const trackedAddress of Array.from(jobStates.keys())) {
+        if (!activeSet.has(trackedAddress.toLowerCase())) {
+            removeJob(trackedAddress);
+        }
+    }
+
+    const missingJobs = activeJobs.filter(job => !findTrackedAddress(job));
+    if (missingJobs.length > 0) {
+        logger.info(`Bootstrapping ${missingJobs.length} jobs missing from monitoring`, { jobs: missingJobs });
+        await initializeJobStates(missingJobs, atBlock + BigInt(1));
+    }
+}
+
 export function cleanupInactiveJobs(maxJobAge: number): void {
     const currentTime = Date.now();
 
     for (const [address, state] of jobStates.entries()) {
         if (currentTime - state.lastUpdateTime > maxJobAge) {
-            logWithTimestamp(`Removing inactive job: ${address}`);
+            logger.info("Removing inactive job", { job: address });
             jobStates.delete(address);
         }
     }
@@ -0,0 +1,85 @@
+import { createLogger, configureLogger, formatEntry } from './logger';
+
+const TIME = new Date('2025-01-28T12:00:00.000Z');
+
+describe('logger', () => {
+    let logSpy: jest.SpyInstance;
+    let errorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        configureLogger({ level: 'info', format: 'text' });
+        logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+        errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        logSpy.mockRestore();
+        errorSpy.mockRestore();
+    });
+
+    it('should drop entries below LOG_LEVEL', () => {
+        configureLogger({ level: 'warn' });
+        const logger = createLogger('block_processor');
+
+        logger.debug('debug');
+        logger.info('info');
+        logger.warn('warn');
+        logger.fatal('fatal');
+
+        expect(logSpy).toHaveBeenCalledTimes(1);
+        expect(logSpy.mock.calls[0][0]).toContain('[WARN] [block_processor] warn');
+        expect(errorSpy).toHaveBeenCalledTimes(1);
+        expect(errorSpy.mock.calls[0][0]).toContain('[FATAL] [block_processor] fatal');
+    });
+
+    it('should render fields as key=value pairs in text mode', () => {
+        const line = formatEntry('info', 'block_processor', 'workable() result', {
+            block: BigInt(21684850),
+            job: '0x67AD4000e73579B9725eE3A149F85C4Af0A61361',
+            args: 'No ilks ready',
+            canWork: false,
+            network: undefined,
+        }, TIME);
+
+        expect(line).toBe('[2025-01-28T12:00:00.000Z] [INFO] [block_processor] workable() result block=21684850 job=0x67AD4000e73579B9725eE3A149F85C4Af0A61361 args="No ilks ready" canWork=false');
+    });
+
+    it('should emit one JSON object per entry in JSON mode', () => {
+        configureLogger({ format: 'json' });
+        const error = new Error('RPC Error');
+
+        const entry = JSON.parse(formatEntry('error', 'job_manager', 'Error fetching active jobs', { block: BigInt(100), error }, TIME));
+
+        expect(entry).toEqual({
+            time: '2025-01-28T12:00:00.000Z',
+            level: 'error',
+            module: 'job_manager',
+            msg: 'Error fetching active jobs',
+            block: '100',
+            error: { name: 'Error', message: 'RPC Error', stack: error.stack },
+        });
+    });
+
+    it('should carry fields from child loggers', () => {
+        configureLogger({ format: 'json' });
+        const logger = createLogger('block_processor').child({ block: BigInt(100) }).child({ job: '0xabc' });
+
+        logger.info('Job state updated', { consecutiveUnworkedBlocks: BigInt(5) });
+
+        expect(JSON.parse(logSpy.mock.calls[0][0])).toEqual(expect.objectContaining({
+            module: 'block_processor',
+            block: '100',
+            job: '0xabc',
+            consecutiveUnworkedBlocks: '5',
+        }));
+    });
+
+    it('should print the stack of an error field after the line in text mode', () => {
+        const error = new Error('boom');
+
+        const line = formatEntry('error', 'app', 'Failed', { error }, TIME);
+
+        expect(line.split('\n')[0]).toBe('[2025-01-28T12:00:00.000Z] [ERROR] [app] Failed error="boom"');
+        expect(line).toContain(error.stack!);
+    });
+});
@@ -0,0 +1,100 @@
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'fatal'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+export type LogFormat = 'text' | 'json';
+
+// Structured context attached to an entry, e.g. { block, job, network }
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+    fatal(message: string, fields?: LogFields): void;
+    // Logger that adds the given fields to every entry
+    child(fields: LogFields): Logger;
+}
+
+interface LoggerSettings {
+    level: LogLevel;
+    format: LogFormat;
+    stderrOnly: boolean; // Keeps stdout free for command output, e.g. audit reports
+    fields: LogFields; // Added to every entry of every logger, e.g. { target }
+}
+
+const settings: LoggerSettings = {
+    level: 'info',
+    format: 'text',
+    stderrOnly: false,
+    fields: {},
+};
+
+export function isLogLevel(value: string): value is LogLevel {
+    return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+export function configureLogger(options: Partial<LoggerSettings>): void {
+    Object.assign(settings, options);
+}
+
+export function isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(settings.level);
+}
+
+// Errors keep their message and stack, bigints become decimal strings
+function serializeValue(value: unknown): unknown {
+    if (value instanceof Error) {
+        return { name: value.name, message: value.message, stack: value.stack };
+    }
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function formatTextValue(value: unknown): string {
+    if (value instanceof Error) {
+        return JSON.stringify(value.message);
+    }
+    if (typeof value === 'string') {
+        return /^[^\s"=]+$/.test(value) ? value : JSON.stringify(value);
+    }
+    return typeof value === 'object' && value !== null ? JSON.stringify(value, (_key, nested) => serializeValue(nested)) : String(value);
+}
+
+export function formatEntry(level: LogLevel, module: string, message: string, fields: LogFields, time: Date = new Date()): string {
+    if (settings.format === 'json') {
+        const entry: LogFields = { time: time.toISOString(), level, module, msg: message };
+        for (const key of Object.keys(fields)) {
+            entry[key] = fields[key];
+        }
+        return JSON.stringify(entry, (_key, value) => serializeValue(value));
+    }
+
+    const context = Object.keys(fields)
+        .filter(key => fields[key] !== undefined)
+        .map(key => `${key}=${formatTextValue(fields[key])}`);
+    const line = [`[${time.toISOString()}] [${level.toUpperCase()}] [${module}] ${message}`, ...context].join(' ');
+    // The stack trace of an error field goes on the following lines, as console.error used to print it
+    const stack = Object.keys(fields).map(key => fields[key]).find((value): value is Error => value instanceof Error)?.stack;
+    return stack ? `${line}\n${stack}` : line;
+}
+
+export function createLogger(module: string, baseFields: LogFields = {}): Logger {
+    const write = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+        if (!isLevelEnabled(level)) {
+            return;
+        }
+        const entry = formatEntry(level, module, message, { ...settings.fields, ...baseFields, ...fields });
+        if (settings.stderrOnly || level === 'error' || level === 'fatal') {
+            console.error(entry);
+        } else {
+            console.log(entry);
+        }
+    };
+    return {
+        debug: write('debug'),
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error'),
+        fatal: write('fatal'),
+        child: (fields: LogFields) => createLogger(module, { ...baseFields, ...fields }),
+    };
+}
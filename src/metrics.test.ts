@@ -0,0 +1,77 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import fetch from 'node-fetch';
+import { metricsRegistry, observeJob, forgetJob, recordAlertSent, recordAlertSuppressed, timeRpc, setHeadLag, registerMetricsRoute } from './metrics';
+import { startHttpServer } from './http_server';
+import { JobState } from './job_manager';
+
+jest.mock('./logger');
+
+const JOB = '0x67AD4000e73579B9725eE3A149F85C4Af0A61361';
+
+function jobState(unworkedBlocks: number): JobState {
+    return {
+        address: JOB,
+        lastWorkedBlock: BigInt(21684000),
+        lastCheckedBlock: BigInt(21684850),
+        consecutiveUnworkedBlocks: BigInt(unworkedBlocks),
+        workableUnworkedBlocks: BigInt(0),
+        lastUpdateTime: 0,
+        recentWork: [],
+        incident: null,
+        workableError: null,
+        workMismatch: null,
+    };
+}
+
+describe('metrics', () => {
+    beforeEach(() => {
+        metricsRegistry.resetMetrics();
+        forgetJob(JOB);
+    });
+
+    it('should expose per-job gauges and drop them when the job is forgotten', async () => {
+        observeJob(jobState(850), false, 'AutoLine');
+
+        let text = await metricsRegistry.metrics();
+        expect(text).toContain(`keep3r_job_consecutive_unworked_blocks{job="${JOB}",label="AutoLine"} 850`);
+        expect(text).toContain(`keep3r_job_last_worked_block{job="${JOB}",label="AutoLine"} 21684000`);
+        expect(text).toContain(`keep3r_job_workable{job="${JOB}",label="AutoLine"} 0`);
+
+        forgetJob(JOB);
+        text = await metricsRegistry.metrics();
+        expect(text).not.toContain(`job="${JOB}"`);
+    });
+
+    it('should count sent and suppressed alerts', async () => {
+        recordAlertSent({ kind: 'job', title: 't', summary: 's', severity: 'warning', fields: [], timestamp: 0 });
+        recordAlertSuppressed('ignored_reason');
+        recordAlertSuppressed('ignored_reason');
+
+        const text = await metricsRegistry.metrics();
+        expect(text).toContain('keep3r_alerts_sent_total{kind="job",severity="warning"} 1');
+        expect(text).toContain('keep3r_alerts_suppressed_total{cause="ignored_reason"} 2');
+    });
+
+    it('should time RPC calls by method, including failed ones', async () => {
+        await timeRpc('getLogs', async () => []);
+        await expect(timeRpc('workable', async () => { throw new Error('reverted'); })).rejects.toThrow('reverted');
+
+        const text = await metricsRegistry.metrics();
+        expect(text).toContain('keep3r_rpc_call_duration_seconds_count{method="getLogs"} 1');
+        expect(text).toContain('keep3r_rpc_call_duration_seconds_count{method="workable"} 1');
+    });
+
+    it('should serve the registry in Prometheus text format', async () => {
+        registerMetricsRoute();
+        setHeadLag(BigInt(21684860), BigInt(21684850));
+        const server: http.Server = await startHttpServer(0);
+
+        const response = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/metrics`);
+        await new Promise<void>(done => server.close(() => done()));
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toContain('text/plain');
+        expect(await response.text()).toContain('keep3r_head_lag_blocks 10');
+    });
+});
@@ -0,0 +1,183 @@
+import { Registry, Counter, Gauge, Histogram, collectDefaultMetrics } from 'prom-client';
+import type { JobState } from './job_manager';
+import type { AlertEvent } from './alert_sinks';
+import type { IncidentUpdate } from './incidents';
+import type { WorkMismatchType } from './workable';
+import { addRoute } from './http_server';
+
+export type RpcMethod = 'getLogs' | 'workable' | 'simulateWork' | 'getMaster' | 'getBlockNumber';
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'keep3r_beep3r_' });
+
+const jobUnworkedBlocks = new Gauge({
+    name: 'keep3r_job_consecutive_unworked_blocks',
+    help: 'Blocks since the job was last worked, as tracked by consecutiveUnworkedBlocks',
+    labelNames: ['job', 'label'] as const,
+    registers: [metricsRegistry],
+});
+
+const jobWorkableUnworkedBlocks = new Gauge({
+    name: 'keep3r_job_workable_unworked_blocks',
+    help: 'Blocks of the current unworked streak in which the job was workable',
+    labelNames: ['job', 'label'] as const,
+    registers: [metricsRegistry],
+});
+
+const jobLastWorkedBlock = new Gauge({
+    name: 'keep3r_job_last_worked_block',
+    help: 'Block at which the job was last seen worked',
+    labelNames: ['job', 'label'] as const,
+    registers: [metricsRegistry],
+});
+
+const jobWorkable = new Gauge({
+    name: 'keep3r_job_workable',
+    help: 'Last workable() result for the job (1 = workable, 0 = not workable)',
+    labelNames: ['job', 'label'] as const,
+    registers: [metricsRegistry],
+});
+
+const jobWorkableFailures = new Gauge({
+    name: 'keep3r_job_workable_consecutive_failures',
+    help: 'Consecutive checks in which the job\'s workable() call reverted (0 = last call succeeded)',
+    labelNames: ['job', 'label'] as const,
+    registers: [metricsRegistry],
+});
+
+const alertsSent = new Counter({
+    name: 'keep3r_alerts_sent_total',
+    help: 'Alerts delivered to at least one sink',
+    labelNames: ['kind', 'severity'] as const,
+    registers: [metricsRegistry],
+});
+
+const jobAlerts = new Counter({
+    name: 'keep3r_job_alerts_total',
+    help: 'Unworked job alerts sent, by alert type and incident transition',
+    labelNames: ['type', 'transition'] as const,
+    registers: [metricsRegistry],
+});
+
+const workMismatches = new Counter({
+    name: 'keep3r_work_mismatches_total',
+    help: 'Checks in which simulating work() disagreed with workable()',
+    labelNames: ['type'] as const,
+    registers: [metricsRegistry],
+});
+
+const alertsSuppressed = new Counter({
+    name: 'keep3r_alerts_suppressed_total',
+    help: 'Alerts held back by an ignored workable() reason or a silence',
+    labelNames: ['cause'] as const,
+    registers: [metricsRegistry],
+});
+
+const rpcCallDuration = new Histogram({
+    name: 'keep3r_rpc_call_duration_seconds',
+    help: 'Latency of RPC calls made by the monitor',
+    labelNames: ['method'] as const,
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [metricsRegistry],
+});
+
+const rpcProviderHealthy = new Gauge({
+    name: 'keep3r_rpc_provider_healthy',
+    help: 'Whether an RPC provider is currently considered healthy (1) or not (0)',
+    labelNames: ['provider'] as const,
+    registers: [metricsRegistry],
+});
+
+export const batchDuration = new Histogram({
+    name: 'keep3r_batch_duration_seconds',
+    help: 'Time spent processing one block range in processNewBlocks',
+    buckets: [1, 5, 15, 30, 60, 120, 300, 600],
+    registers: [metricsRegistry],
+});
+
+const headLag = new Gauge({
+    name: 'keep3r_head_lag_blocks',
+    help: 'Blocks between the settled chain head and lastProcessedBlock',
+    registers: [metricsRegistry],
+});
+
+const headSubscriptionLive = new Gauge({
+    name: 'keep3r_head_subscription_live',
+    help: 'Whether blocks are driven by the WebSocket newHeads subscription (1) or by polling (0)',
+    registers: [metricsRegistry],
+});
+
+// Label value each job's series were last written with, so they can be removed again
+const observedJobLabels: Map<string, string> = new Map();
+
+export function observeJob(jobState: JobState, canWork: boolean, label: string | null): void {
+    const labels = { job: jobState.address, label: label ?? '' };
+    const previousLabel = observedJobLabels.get(jobState.address);
+    if (previousLabel !== undefined && previousLabel !== labels.label) {
+        forgetJob(jobState.address);
+    }
+    observedJobLabels.set(jobState.address, labels.label);
+    jobUnworkedBlocks.set(labels, Number(jobState.consecutiveUnworkedBlocks));
+    jobWorkableUnworkedBlocks.set(labels, Number(jobState.workableUnworkedBlocks));
+    jobLastWorkedBlock.set(labels, Number(jobState.lastWorkedBlock));
+    jobWorkable.set(labels, canWork ? 1 : 0);
+    jobWorkableFailures.set(labels, jobState.workableError?.consecutiveFailures ?? 0);
+}
+
+// Drops the series of a job that is no longer monitored
+export function forgetJob(jobAddress: string): void {
+    const label = observedJobLabels.get(jobAddress);
+    if (label === undefined) {
+        return;
+    }
+    for (const gauge of [jobUnworkedBlocks, jobWorkableUnworkedBlocks, jobLastWorkedBlock, jobWorkable, jobWorkableFailures]) {
+        gauge.remove({ job: jobAddress, label });
+    }
+    observedJobLabels.delete(jobAddress);
+}
+
+export function recordAlertSent(event: AlertEvent): void {
+    alertsSent.inc({ kind: event.kind, severity: event.severity });
+}
+
+export function recordJobAlert(update: IncidentUpdate): void {
+    jobAlerts.inc({ type: update.alertType, transition: update.transition });
+}
+
+export function observeWorkMismatch(type: WorkMismatchType): void {
+    workMismatches.inc({ type });
+}
+
+// The reason itself is logged, not used as a label: workable() args are free text
+export function recordAlertSuppressed(cause: 'ignored_reason' | 'silence'): void {
+    alertsSuppressed.inc({ cause });
+}
+
+export async function timeRpc<T>(method: RpcMethod, call: () => Promise<T>): Promise<T> {
+    const end = rpcCallDuration.startTimer({ method });
+    try {
+        return await call();
+    } finally {
+        end();
+    }
+}
+
+export function setRpcProviderHealth(provider: string, healthy: boolean): void {
+    rpcProviderHealthy.set({ provider }, healthy ? 1 : 0);
+}
+
+export function setHeadLag(headBlock: bigint, lastProcessedBlock: bigint): void {
+    headLag.set(Number(headBlock - lastProcessedBlock));
+}
+
+export function setHeadSubscriptionLive(live: boolean): void {
+    headSubscriptionLive.set(live ? 1 : 0);
+}
+
+export function registerMetricsRoute(): void {
+    addRoute('GET', '/metrics', async () => ({
+        status: 200,
+        contentType: metricsRegistry.contentType,
+        body: await metricsRegistry.metrics(),
+    }));
+}
@@ -0,0 +1,32 @@
+import { createLogger } from './logger';
+import { main } from './app';
+import { sendInitializationMessage, updateAlertSource } from './alerting';
+import { TARGET_NAME, SEQUENCER_ADDRESS } from './config';
+
+const logger = createLogger('monitor');
+
+logger.debug("Starting monitor.ts - before main() call");
+
+updateAlertSource({ target: TARGET_NAME || null, sequencer: SEQUENCER_ADDRESS });
+
+// Send initialization message to the configured alert sinks
+sendInitializationMessage().catch((error: Error) => {
+    logger.error("Failed to send initialization message", { error });
+});
+
+process.on('SIGTERM', () => {
+    logger.info('Received SIGTERM. Cleaning up...');
+    process.exit(0);
+});
+
+process.on('SIGINT', () => {
+    logger.info('Received SIGINT. Cleaning up...');
+    process.exit(0);
+});
+
+main().catch(error => {
+    logger.fatal("Main function threw an error", { error });
+    process.exit(1);
+});
+
+logger.debug("Finished monitor.ts - after main() call");
@@ -0,0 +1,108 @@
+import { ethers } from 'ethers';
+import { loadNetworks, getExpectedMaster, recordNetworkObservation, resetActiveWindow, networkStates, findNetworkChanges, snapshotNetworkCounters, restoreNetworkCounters } from './network_manager';
+import { sequencerContract, provider } from './ethereum';
+
+jest.mock('./ethereum', () => {
+    const { ethers } = jest.requireActual('ethers');
+    return {
+        SEQUENCER_ADDRESS: '0x238b4E35dAed6100C6162fAE4510261f88996EC9',
+        sequencerContract: {
+            interface: new ethers.Interface(jest.requireActual('./abis/sequencerAbi.json')),
+            numNetworks: jest.fn(),
+            networkAt: jest.fn(),
+            windows: jest.fn(),
+        },
+        provider: {
+            getLogs: jest.fn(),
+        },
+    };
+});
+jest.mock('./logger');
+
+const mockedSequencer = sequencerContract as any;
+const MAKER = ethers.encodeBytes32String('MAKER');
+const GELATO = ethers.encodeBytes32String('GELATO');
+
+describe('network_manager', () => {
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        resetActiveWindow();
+        networkStates.length = 0;
+
+        // Two networks laid out back to back: MAKER [0, 10), GELATO [10, 15)
+        mockedSequencer.numNetworks.mockResolvedValue(BigInt(2));
+        mockedSequencer.networkAt.mockImplementation(async (i: bigint) => (i === BigInt(0) ? MAKER : GELATO));
+        mockedSequencer.windows.mockImplementation(async (id: string) => (id === MAKER ? [BigInt(0), BigInt(10)] : [BigInt(10), BigInt(5)]));
+        await loadNetworks(BigInt(0));
+    });
+
+    it('should decode bytes32 network names', () => {
+        expect(networkStates.map(network => network.name)).toEqual(['MAKER', 'GELATO']);
+    });
+
+    it('should read the schedule at the given block and only answer from that block on', async () => {
+        await loadNetworks(BigInt(100));
+
+        expect(mockedSequencer.numNetworks).toHaveBeenLastCalledWith({ blockTag: BigInt(100) });
+        expect(mockedSequencer.windows).toHaveBeenLastCalledWith(GELATO, { blockTag: BigInt(100) });
+        expect(getExpectedMaster(BigInt(99))).toBeNull();
+        expect(getExpectedMaster(BigInt(100))!.name).toBe('GELATO'); // pos 10
+    });
+
+    it('should list the blocks with AddNetwork/RemoveNetwork events once each, in order', async () => {
+        (provider.getLogs as jest.Mock).mockResolvedValue([{ blockNumber: 120 }, { blockNumber: 110 }, { blockNumber: 120 }]);
+
+        await expect(findNetworkChanges(BigInt(100), BigInt(150))).resolves.toEqual([BigInt(110), BigInt(120)]);
+        expect(provider.getLogs).toHaveBeenCalledWith(expect.objectContaining({ address: '0x238b4E35dAed6100C6162fAE4510261f88996EC9', fromBlock: 100, toBlock: 150 }));
+    });
+
+    it('should compute the expected master like Sequencer.getMaster()', () => {
+        expect(getExpectedMaster(BigInt(30))!.name).toBe('MAKER'); // pos 0
+        expect(getExpectedMaster(BigInt(39))!.name).toBe('MAKER'); // pos 9
+        expect(getExpectedMaster(BigInt(40))!.name).toBe('GELATO'); // pos 10
+        expect(getExpectedMaster(BigInt(44))!.name).toBe('GELATO'); // pos 14
+    });
+
+    it('should report a missed window when a workable job is left unworked', () => {
+        expect(recordNetworkObservation(BigInt(40), ['0xJob'], [])).toBeNull();
+        expect(recordNetworkObservation(BigInt(44), ['0xJob'], [])).toBeNull();
+
+        const outcome = recordNetworkObservation(BigInt(45), [], []);
+
+        expect(outcome).not.toBeNull();
+        expect(outcome!.network.name).toBe('GELATO');
+        expect(outcome!.startBlock).toBe(BigInt(40));
+        expect(outcome!.endBlock).toBe(BigInt(44));
+        expect(outcome!.unworkedJobs).toEqual(['0xJob']);
+        expect(outcome!.network.consecutiveMissedWindows).toBe(1);
+    });
+
+    it('should reset the missed streak once a network works its jobs', () => {
+        recordNetworkObservation(BigInt(40), ['0xJob'], []);
+        recordNetworkObservation(BigInt(45), [], []);
+        recordNetworkObservation(BigInt(55), ['0xJob'], []);
+        recordNetworkObservation(BigInt(57), [], ['0xJob']);
+
+        const outcome = recordNetworkObservation(BigInt(60), [], []);
+
+        expect(outcome!.unworkedJobs).toEqual([]);
+        expect(outcome!.network.consecutiveMissedWindows).toBe(0);
+        expect(outcome!.network.windowsServed).toBe(1);
+        expect(outcome!.network.lastActiveBlock).toBe(BigInt(57));
+    });
+
+    it('should restore saved window counters onto the networks still in the schedule', async () => {
+        recordNetworkObservation(BigInt(5), ['0xJob'], []);
+        recordNetworkObservation(BigInt(12), [], ['0xOther']);
+        const saved = snapshotNetworkCounters();
+
+        networkStates.length = 0;
+        await loadNetworks(BigInt(20));
+        restoreNetworkCounters([...saved, { id: ethers.encodeBytes32String('GONE'), windowsServed: 1, windowsMissed: 0, consecutiveMissedWindows: 0, lastActiveBlock: null }]);
+
+        expect(networkStates.map(({ name, windowsServed, windowsMissed, consecutiveMissedWindows, lastActiveBlock }) => ({ name, windowsServed, windowsMissed, consecutiveMissedWindows, lastActiveBlock }))).toEqual([
+            { name: 'MAKER', windowsServed: 0, windowsMissed: 1, consecutiveMissedWindows: 1, lastActiveBlock: null },
+            { name: 'GELATO', windowsServed: 0, windowsMissed: 0, consecutiveMissedWindows: 0, lastActiveBlock: BigInt(12) },
+        ]);
+    });
+});
@@ -0,0 +1,186 @@
+import { Filter } from 'ethers';
+import * as ethereum from './ethereum';
+import { formatNetworkName } from './utils';
+import { createLogger } from './logger';
+import { timeRpc } from './metrics';
+
+const logger = createLogger('network_manager');
+
+export interface NetworkState {
+    id: string; // bytes32 network identifier as used by the Sequencer
+    name: string; // Human readable form of the identifier
+    windowStart: bigint;
+    windowSize: bigint;
+    windowsServed: number;
+    windowsMissed: number;
+    consecutiveMissedWindows: number;
+    lastActiveBlock: bigint | null; // Last block in this network's window at which one of its jobs was worked
+}
+
+// A network's liveness counters as persisted with the state; the schedule itself is always read from the Sequencer
+export type NetworkCounters = Pick<NetworkState, 'id' | 'windowsServed' | 'windowsMissed' | 'consecutiveMissedWindows' | 'lastActiveBlock'>;
+
+// Outcome of a network's window once the schedule has moved on to the next window
+export interface WindowOutcome {
+    network: NetworkState;
+    startBlock: bigint;
+    endBlock: bigint;
+    unworkedJobs: string[]; // Jobs that were workable during the window but never worked in it
+}
+
+interface ActiveWindow {
+    networkId: string;
+    startBlock: bigint;
+    lastBlock: bigint;
+    workableJobs: Set<string>;
+    workedJobs: Set<string>;
+}
+
+// Networks in Sequencer order, which is also the order their windows are laid out in
+export const networkStates: NetworkState[] = [];
+let totalWindowSize = BigInt(0);
+// Block the schedule was read at; it holds from there until the next AddNetwork/RemoveNetwork
+let scheduleBlock: bigint | null = null;
+let activeWindow: ActiveWindow | null = null;
+
+// Loads every network and its window from the Sequencer as of atBlock, keeping liveness counters of networks we already knew
+export async function loadNetworks(atBlock: bigint): Promise<NetworkState[]> {
+    const overrides = { blockTag: atBlock };
+    const numNetworks: bigint = await ethereum.sequencerContract.numNetworks(overrides);
+    const previous = new Map(networkStates.map(network => [network.id, network]));
+    const loaded: NetworkState[] = [];
+
+    for (let i = BigInt(0); i < numNetworks; i = i + BigInt(1)) {
+        const networkId: string = await ethereum.sequencerContract.networkAt(i, overrides);
+        const [windowStart, windowSize] = await ethereum.sequencerContract.windows(networkId, overrides);
+        const known = previous.get(networkId);
+        loaded.push({
+            id: networkId,
+            name: formatNetworkName(networkId),
+            windowStart: BigInt(windowStart),
+            windowSize: BigInt(windowSize),
+            windowsServed: known?.windowsServed ?? 0,
+            windowsMissed: known?.windowsMissed ?? 0,
+            consecutiveMissedWindows: known?.consecutiveMissedWindows ?? 0,
+            lastActiveBlock: known?.lastActiveBlock ?? null,
+        });
+    }
+
+    networkStates.splice(0, networkStates.length, ...loaded);
+    totalWindowSize = loaded.reduce((total, network) => total + network.windowSize, BigInt(0));
+    scheduleBlock = atBlock;
+    logger.info(`Loaded ${loaded.length} keeper networks at block ${atBlock.toString()} (total window size ${totalWindowSize.toString()}): ${loaded.map(network => `${network.name}[${network.windowStart.toString()}+${network.windowSize.toString()}]`).join(', ')}`);
+    return networkStates;
+}
+
+export function snapshotNetworkCounters(): NetworkCounters[] {
+    return networkStates.map(({ id, windowsServed, windowsMissed, consecutiveMissedWindows, lastActiveBlock }) => ({ id, windowsServed, windowsMissed, consecutiveMissedWindows, lastActiveBlock }));
+}
+
+// Puts saved counters back on the loaded networks; counters of networks no longer in the schedule are dropped
+export function restoreNetworkCounters(saved: NetworkCounters[]): void {
+    for (const counters of saved) {
+        const network = networkStates.find(candidate => candidate.id === counters.id);
+        if (network) {
+            network.windowsServed = counters.windowsServed;
+            network.windowsMissed = counters.windowsMissed;
+            network.consecutiveMissedWindows = counters.consecutiveMissedWindows;
+            network.lastActiveBlock = counters.lastActiveBlock;
+        }
+    }
+}
+
+export function getScheduleBlock(): bigint | null {
+    return scheduleBlock;
+}
+
+// Blocks in [fromBlock, toBlock] at which the Sequencer emitted AddNetwork/RemoveNetwork, in order.
+// Removal reorders the underlying set, so the schedule is re-read at each of them rather than patched.
+export async function findNetworkChanges(fromBlock: bigint, toBlock: bigint): Promise<bigint[]> {
+    const addNetworkFragment = ethereum.sequencerContract.interface.getEvent("AddNetwork");
+    const removeNetworkFragment = ethereum.sequencerContract.interface.getEvent("RemoveNetwork");
+    if (!addNetworkFragment || !removeNetworkFragment) {
+        throw new Error("Events 'AddNetwork'/'RemoveNetwork' not found in sequencer interface.");
+    }
+
+    const filter: Filter = {
+        address: ethereum.SEQUENCER_ADDRESS,
+        topics: [[addNetworkFragment.topicHash, removeNetworkFragment.topicHash]],
+        fromBlock: Number(fromBlock),
+        toBlock: Number(toBlock),
+    };
+    const logs = await timeRpc('getLogs', () => ethereum.provider.getLogs(filter));
+    const blocks = Array.from(new Set(logs.map(log => BigInt(log.blockNumber)))).sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    if (blocks.length > 0) {
+        logger.info(`Found ${logs.length} AddNetwork/RemoveNetwork events`, { fromBlock, toBlock, blocks });
+    }
+    return blocks;
+}
+
+// Mirrors Sequencer.getMaster(): the network whose window contains block.number % totalWindowSize.
+// Only the schedule loaded at scheduleBlock is known, so earlier blocks get null and callers ask the Sequencer.
+// Keeping it valid for later blocks is up to the caller, by reloading it at every block findNetworkChanges() reports.
+export function getExpectedMaster(blockNumber: bigint): NetworkState | null {
+    if (networkStates.length === 0 || totalWindowSize === BigInt(0) || scheduleBlock === null || blockNumber < scheduleBlock) {
+        return null;
+    }
+    const pos = blockNumber % totalWindowSize;
+    return networkStates.find(network => network.windowStart <= pos && pos < network.windowStart + network.windowSize) ?? null;
+}
+
+function closeActiveWindow(): WindowOutcome | null {
+    if (!activeWindow) {
+        return null;
+    }
+    const window = activeWindow;
+    activeWindow = null;
+
+    const network = networkStates.find(candidate => candidate.id === window.networkId);
+    if (!network) {
+        return null; // Network was removed while its window was open
+    }
+
+    const unworkedJobs = Array.from(window.workableJobs).filter(job => !window.workedJobs.has(job));
+    if (unworkedJobs.length > 0) {
+        network.windowsMissed += 1;
+        network.consecutiveMissedWindows += 1;
+    } else {
+        network.windowsServed += 1;
+        network.consecutiveMissedWindows = 0;
+    }
+    return { network, startBlock: window.startBlock, endBlock: window.lastBlock, unworkedJobs };
+}
+
+// Records what happened at a processed block and returns the outcome of the previous
+// window once the block falls into a different window than the one being tracked.
+export function recordNetworkObservation(blockNumber: bigint, workableJobs: string[], workedJobs: string[]): WindowOutcome | null {
+    const master = getExpectedMaster(blockNumber);
+    if (!master) {
+        return closeActiveWindow();
+    }
+
+    const windowStartBlock = blockNumber - (blockNumber % totalWindowSize - master.windowStart);
+    let outcome: WindowOutcome | null = null;
+    if (!activeWindow || activeWindow.networkId !== master.id || activeWindow.startBlock !== windowStartBlock) {
+        outcome = closeActiveWindow();
+        activeWindow = {
+            networkId: master.id,
+            startBlock: windowStartBlock,
+            lastBlock: blockNumber,
+            workableJobs: new Set(),
+            workedJobs: new Set(),
+        };
+    }
+
+    activeWindow.lastBlock = blockNumber;
+    workableJobs.forEach(job => activeWindow!.workableJobs.add(job));
+    workedJobs.forEach(job => activeWindow!.workedJobs.add(job));
+    if (workedJobs.length > 0) {
+        master.lastActiveBlock = blockNumber;
+    }
+    return outcome;
+}
+
+export function resetActiveWindow(): void {
+    activeWindow = null;
+}
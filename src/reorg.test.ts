@@ -0,0 +1,118 @@
+import { detectAndRewindReorg, recordCheckpoint, resetCheckpoints, getCheckpointedBlocks, BlockHeader } from './reorg';
+import { jobStates, replaceJobStates } from './job_manager';
+import { keeperStats, recordWorkStats, restoreWorkStats } from './work_stats';
+import { provider } from './ethereum';
+
+jest.mock('./ethereum', () => ({
+    provider: {
+        getBlock: jest.fn(),
+    },
+}));
+jest.mock('./job_manager', () => {
+    const jobStates = new Map();
+    return {
+        jobStates,
+        cloneJobState: (state: any) => ({ ...state }),
+        replaceJobStates: jest.fn((states: any[]) => {
+            jobStates.clear();
+            states.forEach(state => jobStates.set(state.address, { ...state }));
+        }),
+    };
+});
+jest.mock('./config', () => ({
+    REORG_RING_SIZE: 4,
+}));
+jest.mock('./logger');
+
+const getBlockMock = provider.getBlock as jest.Mock;
+
+function header(number: number, hash: string, parentHash: string): BlockHeader {
+    return { number: BigInt(number), hash, parentHash };
+}
+
+function setUnworked(blocks: number) {
+    jobStates.set('0xJob', {
+        address: '0xJob',
+        lastWorkedBlock: BigInt(90),
+        lastCheckedBlock: BigInt(100 + blocks),
+        consecutiveUnworkedBlocks: BigInt(blocks),
+        workableUnworkedBlocks: BigInt(0),
+        lastUpdateTime: 0,
+        recentWork: [],
+        incident: null,
+        workableError: null,
+        workMismatch: null,
+    });
+}
+
+describe('reorg', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        resetCheckpoints();
+        jobStates.clear();
+        restoreWorkStats([], []);
+    });
+
+    it('should not report a reorg when the parent hash matches', async () => {
+        setUnworked(1);
+        recordCheckpoint(header(101, '0xa101', '0xa100'));
+
+        await expect(detectAndRewindReorg(header(102, '0xa102', '0xa101'))).resolves.toBeNull();
+        expect(replaceJobStates).not.toHaveBeenCalled();
+    });
+
+    it('should keep only the configured number of checkpoints', () => {
+        for (let n = 101; n <= 106; n++) {
+            recordCheckpoint(header(n, `0xa${n}`, `0xa${n - 1}`));
+        }
+        expect(getCheckpointedBlocks().map(block => block.number)).toEqual([BigInt(103), BigInt(104), BigInt(105), BigInt(106)]);
+    });
+
+    it('should rewind job states to the common ancestor on a parent hash mismatch', async () => {
+        for (let n = 101; n <= 103; n++) {
+            setUnworked(n - 100);
+            recordCheckpoint(header(n, `0xa${n}`, `0xa${n - 1}`));
+        }
+        // Blocks 102 and 103 were replaced; 101 is still canonical
+        getBlockMock.mockImplementation(async (n: number) => ({
+            number: n,
+            hash: n <= 101 ? `0xa${n}` : `0xb${n}`,
+            parentHash: n <= 102 ? `0xa${n - 1}` : `0xb${n - 1}`,
+        }));
+
+        const ancestor = await detectAndRewindReorg(header(104, '0xb104', '0xb103'));
+
+        expect(ancestor).toBe(BigInt(101));
+        expect(jobStates.get('0xJob')!.consecutiveUnworkedBlocks).toBe(BigInt(1));
+        expect(getCheckpointedBlocks().map(block => block.number)).toEqual([BigInt(101)]);
+    });
+
+    it('should rewind keeper and network stats with the job states so reprocessed Work is not counted twice', async () => {
+        const keeper = '0x9999999999999999999999999999999999999999';
+        const work = (blockNumber: number) => recordWorkStats('0xJob', { network: '0xMAKER', keeper, blockNumber: BigInt(blockNumber), transactionHash: `0x${blockNumber}` });
+        work(101);
+        recordCheckpoint(header(101, '0xa101', '0xa100'));
+        work(102);
+        recordCheckpoint(header(102, '0xa102', '0xa101'));
+        getBlockMock.mockImplementation(async (n: number) => ({ number: n, hash: n <= 101 ? `0xa${n}` : `0xb${n}`, parentHash: `0xa${n - 1}` }));
+
+        await expect(detectAndRewindReorg(header(103, '0xb103', '0xb102'))).resolves.toBe(BigInt(101));
+
+        expect(keeperStats.get(keeper)).toEqual(expect.objectContaining({ workCount: 1, lastSeenBlock: BigInt(101) }));
+        work(102);
+        expect(keeperStats.get(keeper)!.workCount).toBe(2);
+    });
+
+    it('should fall back to the oldest checkpoint when the reorg is deeper than the ring', async () => {
+        for (let n = 101; n <= 103; n++) {
+            setUnworked(n - 100);
+            recordCheckpoint(header(n, `0xa${n}`, `0xa${n - 1}`));
+        }
+        getBlockMock.mockImplementation(async (n: number) => ({ number: n, hash: `0xb${n}`, parentHash: `0xb${n - 1}` }));
+
+        const ancestor = await detectAndRewindReorg(header(104, '0xb104', '0xb103'));
+
+        expect(ancestor).toBe(BigInt(101));
+        expect(getCheckpointedBlocks()).toEqual([]);
+    });
+});
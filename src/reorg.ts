@@ -0,0 +1,91 @@
+import * as ethereum from './ethereum';
+import { jobStates, JobState, cloneJobState, replaceJobStates } from './job_manager';
+import { snapshotWorkStats, restoreWorkStats, WorkerStats } from './work_stats';
+import { REORG_RING_SIZE } from './config';
+import { createLogger } from './logger';
+
+const logger = createLogger('reorg');
+
+export interface BlockHeader {
+    number: bigint;
+    hash: string;
+    parentHash: string;
+}
+
+interface BlockCheckpoint {
+    number: bigint;
+    hash: string;
+    jobStates: JobState[]; // Job states right after this block was processed
+    workStats: { keepers: WorkerStats[]; networks: WorkerStats[] }; // Keeper and network stats at the same point
+}
+
+// Bounded ring of recently processed blocks, oldest first
+const recentBlocks: BlockCheckpoint[] = [];
+
+export async function fetchBlockHeader(blockNumber: bigint): Promise<BlockHeader> {
+    const block = await ethereum.provider.getBlock(Number(blockNumber));
+    if (!block || !block.hash) {
+        throw new Error(`Block ${blockNumber.toString()} not found`);
+    }
+    return { number: BigInt(block.number), hash: block.hash, parentHash: block.parentHash };
+}
+
+export function recordCheckpoint(header: BlockHeader): void {
+    if (REORG_RING_SIZE <= 0) {
+        return;
+    }
+    recentBlocks.push({
+        number: header.number,
+        hash: header.hash,
+        jobStates: Array.from(jobStates.values()).map(cloneJobState),
+        workStats: snapshotWorkStats(),
+    });
+    while (recentBlocks.length > REORG_RING_SIZE) {
+        recentBlocks.shift();
+    }
+}
+
+export function resetCheckpoints(): void {
+    recentBlocks.length = 0;
+}
+
+export function getCheckpointedBlocks(): { number: bigint; hash: string }[] {
+    return recentBlocks.map(({ number, hash }) => ({ number, hash }));
+}
+
+function rewindTo(index: number): bigint {
+    const checkpoint = recentBlocks[index];
+    replaceJobStates(checkpoint.jobStates);
+    // Work in the rewound blocks is recorded again when they are reprocessed
+    restoreWorkStats(checkpoint.workStats.keepers, checkpoint.workStats.networks);
+    recentBlocks.splice(index + 1);
+    return checkpoint.number;
+}
+
+// Compares the header of the block about to be processed with the last checkpointed block.
+// Returns null when the chain still extends what we processed. On a parent-hash mismatch it
+// walks the ring back to the newest block that is still canonical, restores job states and work stats to
+// that checkpoint and returns its number so the caller can reprocess from there.
+export async function detectAndRewindReorg(header: BlockHeader): Promise<bigint | null> {
+    const last = recentBlocks[recentBlocks.length - 1];
+    if (!last || last.number !== header.number - BigInt(1) || last.hash === header.parentHash) {
+        return null;
+    }
+
+    logger.warn(`Block ${header.number.toString()} parent ${header.parentHash} does not match processed block ${last.number.toString()} (${last.hash})`, { block: header.number });
+
+    for (let i = recentBlocks.length - 2; i >= 0; i--) {
+        const canonical = await fetchBlockHeader(recentBlocks[i].number);
+        if (canonical.hash === recentBlocks[i].hash) {
+            const ancestor = rewindTo(i);
+            logger.warn(`Common ancestor found at block ${ancestor.toString()}, rewound job states`, { block: header.number, depth: last.number - ancestor });
+            return ancestor;
+        }
+    }
+
+    // The reorg is deeper than the ring; the oldest checkpoint is the best we have
+    const oldest = rewindTo(0);
+    logger.error(`No common ancestor within the last ${REORG_RING_SIZE} blocks, rewound to oldest checkpoint ${oldest.toString()}`, { block: header.number });
+    resetCheckpoints();
+    return oldest;
+}
@@ -0,0 +1,176 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { JsonRpcPayload } from 'ethers';
+import { createRpcPool, createFailoverProvider, redactRpcUrl, RpcPoolOptions } from './rpc_pool';
+
+jest.mock('./logger');
+
+interface StubRpc {
+    url: string;
+    requests: JsonRpcPayload[];
+    head: number;
+    failing: boolean; // Answer every request with HTTP 500
+    rpcError: { code: number; message: string } | null; // Answer every request with this JSON-RPC error
+    close(): Promise<void>;
+}
+
+// Minimal JSON-RPC server answering eth_chainId and eth_blockNumber, single or batched
+async function startStubRpc(head: number): Promise<StubRpc> {
+    const stub = { requests: [] as JsonRpcPayload[], head, failing: false, rpcError: null } as StubRpc;
+    const answer = (payload: JsonRpcPayload) => {
+        stub.requests.push(payload);
+        if (stub.rpcError) {
+            return { jsonrpc: '2.0', id: payload.id, error: stub.rpcError };
+        }
+        const result = payload.method === 'eth_chainId' ? '0x1' : `0x${stub.head.toString(16)}`;
+        return { jsonrpc: '2.0', id: payload.id, result };
+    };
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            if (stub.failing) {
+                res.statusCode = 500;
+                res.end('upstream unavailable');
+                return;
+            }
+            const payload = JSON.parse(body);
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(Array.isArray(payload) ? payload.map(answer) : answer(payload)));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    stub.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    stub.close = () => new Promise<void>(resolve => server.close(() => resolve()));
+    return stub;
+}
+
+const OPTIONS: RpcPoolOptions = {
+    timeoutMs: 2000,
+    maxRetries: 2,
+    retryBaseDelayMs: 10,
+    maxErrorRate: 0.5,
+    maxHeadLagBlocks: BigInt(5),
+};
+
+const BLOCK_NUMBER: JsonRpcPayload = { id: 1, jsonrpc: '2.0', method: 'eth_blockNumber', params: [] };
+
+describe('rpc_pool', () => {
+    let primary: StubRpc;
+    let secondary: StubRpc;
+
+    beforeEach(async () => {
+        primary = await startStubRpc(21684850);
+        secondary = await startStubRpc(21684850);
+    });
+
+    afterEach(async () => {
+        await primary.close();
+        await secondary.close();
+    });
+
+    it('should fail over to the next provider when one fails', async () => {
+        const pool = createRpcPool([primary.url, secondary.url], OPTIONS);
+        primary.failing = true;
+
+        const [result] = await pool.send(BLOCK_NUMBER);
+
+        expect(result.result).toBe(`0x${(21684850).toString(16)}`);
+        expect(secondary.requests).toHaveLength(1);
+        expect(pool.getStatus()[0].errorRate).toBeGreaterThan(0);
+        expect(pool.getStatus()[0].lastError).toContain('500');
+    });
+
+    it('should fail over on JSON-RPC errors caused by the endpoint, such as pruned state and rate limits', async () => {
+        const pool = createRpcPool([primary.url, secondary.url], OPTIONS);
+
+        for (const rpcError of [{ code: -32000, message: 'missing trie node 1a2b (path )' }, { code: -32000, message: 'header not found' }, { code: -32005, message: 'daily request count exceeded' }]) {
+            primary.rpcError = rpcError;
+            const [result] = await pool.send(BLOCK_NUMBER);
+            expect(result.result).toBe(`0x${(21684850).toString(16)}`);
+            expect(pool.getStatus()[0].lastError).toContain(rpcError.message);
+        }
+        expect(secondary.requests).toHaveLength(3);
+    });
+
+    it('should return reverts as answers without failing over', async () => {
+        const pool = createRpcPool([primary.url, secondary.url], OPTIONS);
+        primary.rpcError = { code: 3, message: 'execution reverted: Job: not master' };
+
+        const [result] = await pool.send(BLOCK_NUMBER);
+
+        expect(result).toEqual(expect.objectContaining({ error: primary.rpcError }));
+        expect(secondary.requests).toHaveLength(0);
+        expect(pool.getStatus()[0].errorRate).toBe(0);
+    });
+
+    it('should retry with backoff and throw once every attempt has failed', async () => {
+        const pool = createRpcPool([primary.url], OPTIONS);
+        primary.failing = true;
+
+        await expect(pool.send(BLOCK_NUMBER)).rejects.toThrow('failed on every provider after 3 attempts');
+    });
+
+    it('should succeed when a provider comes back during the retries', async () => {
+        const pool = createRpcPool([primary.url], { ...OPTIONS, retryBaseDelayMs: 200 });
+        primary.failing = true;
+        setTimeout(() => { primary.failing = false; }, 50);
+
+        const [result] = await pool.send(BLOCK_NUMBER);
+
+        expect(result.result).toBe(`0x${(21684850).toString(16)}`);
+    });
+
+    it('should mark a provider trailing the others as unhealthy and prefer the healthy one', async () => {
+        const pool = createRpcPool([primary.url, secondary.url], OPTIONS);
+        primary.head = 21684840;
+
+        await pool.checkHeads();
+
+        const [primaryStatus, secondaryStatus] = pool.getStatus();
+        expect(primaryStatus).toEqual(expect.objectContaining({ healthy: false, headLag: BigInt(10) }));
+        expect(secondaryStatus).toEqual(expect.objectContaining({ healthy: true, headLag: BigInt(0) }));
+
+        primary.requests = [];
+        await pool.send(BLOCK_NUMBER);
+        expect(primary.requests).toHaveLength(0);
+    });
+
+    it('should report when every provider is unhealthy and when they recover', async () => {
+        const onAvailabilityChange = jest.fn();
+        const pool = createRpcPool([primary.url, secondary.url], { ...OPTIONS, maxRetries: 0, onAvailabilityChange });
+        primary.failing = true;
+        secondary.failing = true;
+
+        for (let i = 0; i < 4; i++) {
+            await expect(pool.send(BLOCK_NUMBER)).rejects.toThrow();
+        }
+        expect(onAvailabilityChange).toHaveBeenCalledTimes(1);
+        expect(onAvailabilityChange).toHaveBeenCalledWith(true, [
+            expect.objectContaining({ healthy: false }),
+            expect.objectContaining({ healthy: false }),
+        ]);
+
+        secondary.failing = false;
+        for (let i = 0; i < 10 && !pool.getStatus()[1].healthy; i++) {
+            await pool.checkHeads();
+        }
+        expect(pool.getStatus()[1].healthy).toBe(true);
+        expect(onAvailabilityChange).toHaveBeenCalledTimes(2);
+        expect(onAvailabilityChange).toHaveBeenLastCalledWith(false, expect.any(Array));
+    });
+
+    it('should serve ethers provider calls through the pool', async () => {
+        const pool = createRpcPool([primary.url, secondary.url], OPTIONS);
+        const provider = createFailoverProvider(pool);
+        primary.failing = true;
+
+        expect(await provider.getBlockNumber()).toBe(21684850);
+        provider.destroy();
+    });
+
+    it('should hide paths and credentials of RPC URLs', () => {
+        expect(redactRpcUrl('https://mainnet.infura.io/v3/secret-key')).toBe('https://mainnet.infura.io/…');
+        expect(redactRpcUrl('http://127.0.0.1:8545')).toBe('http://127.0.0.1:8545');
+    });
+});
@@ -0,0 +1,261 @@
+import { ethers, FetchRequest, JsonRpcPayload, JsonRpcResult } from 'ethers';
+import { createLogger } from './logger';
+import { sleep } from './utils';
+import { setRpcProviderHealth } from './metrics';
+
+const logger = createLogger('rpc_pool');
+
+// Weight of the newest sample in the smoothed error rate and latency
+const SMOOTHING = 0.2;
+
+export interface RpcPoolOptions {
+    timeoutMs: number;
+    maxRetries: number; // Extra rounds over every endpoint once the first round has failed
+    retryBaseDelayMs: number; // Wait before the first retry round, doubled for each further round
+    maxErrorRate: number; // Smoothed error rate (0-1) above which an endpoint is unhealthy
+    maxHeadLagBlocks: bigint; // How far an endpoint may trail the highest head reported by the others
+    onAvailabilityChange?: (allUnhealthy: boolean, endpoints: RpcEndpointStatus[]) => void;
+}
+
+export interface RpcEndpointStatus {
+    name: string; // URL without path or credentials, safe to log
+    healthy: boolean;
+    errorRate: number;
+    latencyMs: number | null;
+    headBlock: bigint | null;
+    headLag: bigint | null;
+    lastError: string | null;
+}
+
+interface RpcEndpoint {
+    url: string;
+    name: string;
+    errorRate: number;
+    latencyMs: number | null;
+    headBlock: bigint | null;
+    headLag: bigint | null;
+    lastError: string | null;
+}
+
+export interface RpcPool {
+    // Sends a JSON-RPC payload to the best endpoint, failing over and retrying with backoff
+    send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]>;
+    // Asks every endpoint for its head and updates the head lag of each
+    checkHeads(): Promise<void>;
+    getStatus(): RpcEndpointStatus[];
+    startHealthChecks(intervalMs: number): void;
+    stopHealthChecks(): void;
+}
+
+// API keys usually sit in the path or the credentials, so only scheme, host and port are shown
+export function redactRpcUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        return parsed.pathname.length > 1 || parsed.username ? `${parsed.protocol}//${parsed.host}/…` : `${parsed.protocol}//${parsed.host}`;
+    } catch (e) {
+        return 'invalid-url';
+    }
+}
+
+// JSON-RPC errors that are the endpoint's own fault: state it has pruned or not synced, and rate limits.
+// Another endpoint may well answer them, unlike a revert (code 3), which every node reports alike.
+const ENDPOINT_FAULT_CODES = new Set([-32005, 429]);
+const ENDPOINT_FAULT_MESSAGES = [/missing trie node/i, /header not found/i, /state .*not available/i, /pruned/i, /rate limit/i, /too many requests/i];
+
+// The first error in a response that should be retried on another endpoint, null when everything is an answer
+function findEndpointFault(results: Array<{ error?: { code?: number; message?: string } }>): string | null {
+    for (const { error } of results) {
+        if (!error || error.code === 3 || /execution reverted/i.test(error.message ?? '')) {
+            continue;
+        }
+        if ((error.code !== undefined && ENDPOINT_FAULT_CODES.has(error.code)) || ENDPOINT_FAULT_MESSAGES.some(pattern => pattern.test(error.message ?? ''))) {
+            return `${error.message ?? 'JSON-RPC error'} (code ${error.code ?? 'none'})`;
+        }
+    }
+    return null;
+}
+
+function describePayload(payload: JsonRpcPayload | JsonRpcPayload[]): string {
+    return Array.isArray(payload) ? `batch of ${payload.length}` : payload.method;
+}
+
+export function createRpcPool(urls: string[], options: RpcPoolOptions): RpcPool {
+    if (urls.length === 0) {
+        throw new Error('At least one RPC URL is required');
+    }
+    const endpoints: RpcEndpoint[] = urls.map(url => ({
+        url,
+        name: redactRpcUrl(url),
+        errorRate: 0,
+        latencyMs: null,
+        headBlock: null,
+        headLag: null,
+        lastError: null,
+    }));
+    let allUnhealthy = false;
+    let healthCheckTimer: NodeJS.Timeout | null = null;
+
+    const isHealthy = (endpoint: RpcEndpoint): boolean =>
+        endpoint.errorRate <= options.maxErrorRate && (endpoint.headLag === null || endpoint.headLag <= options.maxHeadLagBlocks);
+
+    const toStatus = (endpoint: RpcEndpoint): RpcEndpointStatus => ({
+        name: endpoint.name,
+        healthy: isHealthy(endpoint),
+        errorRate: endpoint.errorRate,
+        latencyMs: endpoint.latencyMs,
+        headBlock: endpoint.headBlock,
+        headLag: endpoint.headLag,
+        lastError: endpoint.lastError,
+    });
+
+    const updateAvailability = () => {
+        for (const endpoint of endpoints) {
+            setRpcProviderHealth(endpoint.name, isHealthy(endpoint));
+        }
+        const nowAllUnhealthy = endpoints.every(endpoint => !isHealthy(endpoint));
+        if (nowAllUnhealthy === allUnhealthy) {
+            return;
+        }
+        allUnhealthy = nowAllUnhealthy;
+        if (allUnhealthy) {
+            logger.error(`All ${endpoints.length} RPC providers are unhealthy`, { providers: endpoints.map(toStatus) });
+        } else {
+            logger.info('RPC providers recovered', { healthy: endpoints.filter(isHealthy).map(endpoint => endpoint.name) });
+        }
+        options.onAvailabilityChange?.(allUnhealthy, endpoints.map(toStatus));
+    };
+
+    const recordResult = (endpoint: RpcEndpoint, failed: boolean, latencyMs: number | null, error?: Error) => {
+        const wasHealthy = isHealthy(endpoint);
+        endpoint.errorRate = endpoint.errorRate * (1 - SMOOTHING) + (failed ? SMOOTHING : 0);
+        if (latencyMs !== null) {
+            endpoint.latencyMs = endpoint.latencyMs === null ? latencyMs : endpoint.latencyMs * (1 - SMOOTHING) + latencyMs * SMOOTHING;
+        }
+        if (error) {
+            endpoint.lastError = error.message;
+        }
+        if (wasHealthy !== isHealthy(endpoint)) {
+            logger.warn(`RPC provider ${endpoint.name} is now ${isHealthy(endpoint) ? 'healthy' : 'unhealthy'}`, { provider: endpoint.name, errorRate: endpoint.errorRate.toFixed(2), headLag: endpoint.headLag });
+        }
+        updateAvailability();
+    };
+
+    // One attempt against one endpoint. JSON-RPC error responses (e.g. reverts) are answers, not failures,
+    // unless findEndpointFault() blames the endpoint for them.
+    const request = async (endpoint: RpcEndpoint, payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> => {
+        const fetchRequest = new FetchRequest(endpoint.url);
+        fetchRequest.body = JSON.stringify(payload);
+        fetchRequest.setHeader('content-type', 'application/json');
+        fetchRequest.timeout = options.timeoutMs;
+        fetchRequest.setThrottleParams({ maxAttempts: 1 });
+
+        const startedAt = Date.now();
+        try {
+            const response = await fetchRequest.send();
+            response.assertOk();
+            const body = response.bodyJson;
+            const results = Array.isArray(body) ? body : [body];
+            const fault = findEndpointFault(results);
+            if (fault) {
+                throw new Error(`Endpoint error: ${fault}`);
+            }
+            recordResult(endpoint, false, Date.now() - startedAt);
+            return results;
+        } catch (error) {
+            recordResult(endpoint, true, null, error as Error);
+            throw error;
+        }
+    };
+
+    // Healthy endpoints by latency, then unhealthy ones as a last resort
+    const rankEndpoints = (): RpcEndpoint[] => {
+        const byLatency = (a: RpcEndpoint, b: RpcEndpoint) => (a.latencyMs ?? 0) - (b.latencyMs ?? 0);
+        const healthy = endpoints.filter(isHealthy).sort(byLatency);
+        const unhealthy = endpoints.filter(endpoint => !isHealthy(endpoint)).sort((a, b) => a.errorRate - b.errorRate);
+        return [...healthy, ...unhealthy];
+    };
+
+    const send = async (payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> => {
+        let lastError: Error | null = null;
+        for (let round = 0; round <= options.maxRetries; round++) {
+            if (round > 0) {
+                const delay = options.retryBaseDelayMs * Math.pow(2, round - 1);
+                logger.warn(`Every RPC provider failed, retrying in ${delay} ms`, { method: describePayload(payload), attempt: round + 1 });
+                await sleep(delay);
+            }
+            for (const endpoint of rankEndpoints()) {
+                try {
+                    return await request(endpoint, payload);
+                } catch (error) {
+                    lastError = error as Error;
+                    logger.warn(`RPC request failed on ${endpoint.name}`, { provider: endpoint.name, method: describePayload(payload), error: lastError.message });
+                }
+            }
+        }
+        throw new Error(`RPC request ${describePayload(payload)} failed on every provider after ${options.maxRetries + 1} attempts: ${lastError?.message}`);
+    };
+
+    const checkHeads = async (): Promise<void> => {
+        await Promise.all(endpoints.map(async endpoint => {
+            try {
+                const [result] = await request(endpoint, { id: 1, jsonrpc: '2.0', method: 'eth_blockNumber', params: [] });
+                if (typeof result?.result !== 'string') {
+                    recordResult(endpoint, true, null, new Error('eth_blockNumber returned no block number'));
+                    return;
+                }
+                endpoint.headBlock = BigInt(result.result);
+            } catch (error) {
+                // Already counted against the endpoint's error rate; its last known head keeps aging below
+            }
+        }));
+
+        const heads = endpoints.map(endpoint => endpoint.headBlock).filter((head): head is bigint => head !== null);
+        if (heads.length === 0) {
+            return;
+        }
+        const highestHead = heads.reduce((max, head) => (head > max ? head : max));
+        for (const endpoint of endpoints) {
+            endpoint.headLag = endpoint.headBlock === null ? null : highestHead - endpoint.headBlock;
+            if (endpoint.headLag !== null && endpoint.headLag > options.maxHeadLagBlocks) {
+                logger.warn(`RPC provider ${endpoint.name} is ${endpoint.headLag.toString()} blocks behind the highest head`, { provider: endpoint.name, block: endpoint.headBlock, highestHead });
+            }
+        }
+        updateAvailability();
+    };
+
+    return {
+        send,
+        checkHeads,
+        getStatus: () => endpoints.map(toStatus),
+        startHealthChecks: (intervalMs: number) => {
+            if (healthCheckTimer) {
+                clearInterval(healthCheckTimer);
+            }
+            healthCheckTimer = setInterval(() => {
+                checkHeads().catch(error => logger.error('RPC health check failed', { error }));
+            }, intervalMs);
+            healthCheckTimer.unref();
+        },
+        stopHealthChecks: () => {
+            if (healthCheckTimer) {
+                clearInterval(healthCheckTimer);
+                healthCheckTimer = null;
+            }
+        },
+    };
+}
+
+// JsonRpcProvider whose transport is the pool, so contracts, multicall and getLogs all fail over
+class FailoverJsonRpcProvider extends ethers.JsonRpcProvider {
+    constructor(private readonly pool: RpcPool) {
+        super();
+    }
+
+    async _send(payload: JsonRpcPayload | JsonRpcPayload[]): Promise<JsonRpcResult[]> {
+        return this.pool.send(payload);
+    }
+}
+
+export function createFailoverProvider(pool: RpcPool): ethers.JsonRpcProvider {
+    return new FailoverJsonRpcProvider(pool);
+}
@@ -0,0 +1,79 @@
+import { createSilence, deleteSilence, findMatchingSilence, pruneExpiredSilences, restoreSilences, silences, SilenceValidationError } from './silences';
+
+jest.mock('./config', () => ({}));
+jest.mock('./logger');
+
+const JOB = '0x67AD4000e73579B9725eE3A149F85C4Af0A61361';
+const OTHER_JOB = '0xc32506E9bB590971671b649d9B8e18CB6260559F';
+const MAKER = { id: '0x4d414b4552000000000000000000000000000000000000000000000000000000', name: 'MAKER' };
+const NOW = 1700000000000;
+
+function silence(matchers: object, expiry: object = { expiresAtBlock: 2000 }) {
+    return createSilence({ matchers, ...expiry, createdBy: 'ops', comment: 'Migrating job' }, NOW);
+}
+
+describe('silences', () => {
+    beforeEach(() => {
+        restoreSilences([]);
+    });
+
+    it('should match a job silence only for that job', () => {
+        const created = silence({ job: JOB.toLowerCase() });
+
+        expect(findMatchingSilence({ jobAddress: JOB, network: MAKER, reason: 'anything' }, BigInt(1000), NOW)).toBe(created);
+        expect(findMatchingSilence({ jobAddress: OTHER_JOB, network: MAKER }, BigInt(1000), NOW)).toBeNull();
+        expect(findMatchingSilence({ network: MAKER }, BigInt(1000), NOW)).toBeNull();
+    });
+
+    it('should match networks by name or identifier', () => {
+        silence({ network: 'maker' });
+        expect(findMatchingSilence({ network: MAKER }, BigInt(1000), NOW)).not.toBeNull();
+
+        restoreSilences([]);
+        silence({ network: MAKER.id });
+        expect(findMatchingSilence({ jobAddress: JOB, network: MAKER }, BigInt(1000), NOW)).not.toBeNull();
+        expect(findMatchingSilence({ jobAddress: JOB, network: { id: '0x01', name: 'OTHER' } }, BigInt(1000), NOW)).toBeNull();
+    });
+
+    it('should require every matcher to match, with regex reasons', () => {
+        silence({ job: JOB, reason: { regex: '^vat/', flags: 'i' } });
+
+        expect(findMatchingSilence({ jobAddress: JOB, reason: 'Vat/not-allowed' }, BigInt(1000), NOW)).not.toBeNull();
+        expect(findMatchingSilence({ jobAddress: JOB, reason: 'No work to do' }, BigInt(1000), NOW)).toBeNull();
+        expect(findMatchingSilence({ jobAddress: JOB, reason: null }, BigInt(1000), NOW)).toBeNull();
+    });
+
+    it('should stop matching and be pruned once the expiry block or time is reached', () => {
+        silence({ job: JOB }, { expiresAtBlock: '1500' });
+        silence({ job: OTHER_JOB }, { expiresAt: new Date(NOW + 60000).toISOString() });
+
+        expect(findMatchingSilence({ jobAddress: JOB }, BigInt(1500), NOW)).toBeNull();
+        expect(findMatchingSilence({ jobAddress: OTHER_JOB }, BigInt(1500), NOW + 60000)).toBeNull();
+
+        expect(pruneExpiredSilences(null, NOW + 60000).map(s => s.matchers.job)).toEqual([OTHER_JOB]);
+        expect(pruneExpiredSilences(BigInt(1499), NOW)).toEqual([]);
+        expect(pruneExpiredSilences(BigInt(1500), NOW)).toHaveLength(1);
+        expect(silences.size).toBe(0);
+    });
+
+    it('should delete silences by id', () => {
+        const created = silence({ job: JOB });
+
+        expect(deleteSilence(created.id)).toBe(created);
+        expect(deleteSilence(created.id)).toBeNull();
+    });
+
+    it.each([
+        [{ matchers: {}, expiresAtBlock: 1, createdBy: 'ops', comment: 'x' }, 'matchers must set at least one of job, network or reason'],
+        [{ matchers: { job: '0x12' }, expiresAtBlock: 1, createdBy: 'ops', comment: 'x' }, 'matchers.job must be a job address'],
+        [{ matchers: { keeper: JOB }, expiresAtBlock: 1, createdBy: 'ops', comment: 'x' }, 'matchers: unknown key "keeper"'],
+        [{ matchers: { reason: { regex: '(' } }, expiresAtBlock: 1, createdBy: 'ops', comment: 'x' }, 'matchers.reason.regex is not a valid regular expression'],
+        [{ matchers: { job: JOB }, createdBy: 'ops', comment: 'x' }, 'exactly one of expiresAtBlock or expiresAt is required'],
+        [{ matchers: { job: JOB }, expiresAt: NOW - 1, createdBy: 'ops', comment: 'x' }, 'expiresAt must be in the future'],
+        [{ matchers: { job: JOB }, expiresAtBlock: 1, comment: 'x' }, 'createdBy is required'],
+        [{ matchers: { job: JOB }, expiresAtBlock: 1, createdBy: 'ops', comment: ' ' }, 'comment is required'],
+    ])('should reject invalid silence %#', (body, message) => {
+        expect(() => createSilence(body, NOW)).toThrow(SilenceValidationError);
+        expect(() => createSilence(body, NOW)).toThrow(message);
+    });
+});
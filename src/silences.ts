@@ -0,0 +1,171 @@
+import { randomUUID } from 'crypto';
+import { ethers } from 'ethers';
+import { compileReasonPattern, matchesReasonPattern } from './job_config';
+import { createLogger } from './logger';
+
+const logger = createLogger('silences');
+
+// What a silence applies to; every matcher that is set has to match
+export interface SilenceMatchers {
+    job?: string; // Job address
+    network?: string; // Keeper network name or bytes32 identifier
+    reason?: string | { regex: string; flags?: string }; // workable() reason, exact or regex
+}
+
+export interface Silence {
+    id: string;
+    matchers: SilenceMatchers;
+    expiresAtBlock?: bigint;
+    expiresAt?: number; // Unix time in ms
+    createdBy: string;
+    comment: string;
+    createdAt: number;
+}
+
+// The alert a silence is checked against
+export interface SilenceSubject {
+    jobAddress?: string;
+    network?: { id: string; name: string } | null;
+    reason?: string | null;
+}
+
+export class SilenceValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SilenceValidationError';
+    }
+}
+
+export const silences: Map<string, Silence> = new Map();
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseExpiry(body: Record<string, unknown>, now: number): Pick<Silence, 'expiresAtBlock' | 'expiresAt'> {
+    if ((body.expiresAtBlock === undefined) === (body.expiresAt === undefined)) {
+        throw new SilenceValidationError('exactly one of expiresAtBlock or expiresAt is required');
+    }
+    if (body.expiresAtBlock !== undefined) {
+        const block = body.expiresAtBlock;
+        if ((typeof block === 'number' && Number.isInteger(block) && block > 0) || (typeof block === 'string' && /^[1-9][0-9]*$/.test(block))) {
+            return { expiresAtBlock: BigInt(block) };
+        }
+        throw new SilenceValidationError('expiresAtBlock must be a positive block number');
+    }
+    const expiresAt = typeof body.expiresAt === 'number' ? body.expiresAt : typeof body.expiresAt === 'string' ? Date.parse(body.expiresAt) : NaN;
+    if (!Number.isFinite(expiresAt)) {
+        throw new SilenceValidationError('expiresAt must be an ISO 8601 timestamp or Unix time in milliseconds');
+    }
+    if (expiresAt <= now) {
+        throw new SilenceValidationError('expiresAt must be in the future');
+    }
+    return { expiresAt };
+}
+
+// Validates an admin API request body and stores the silence it describes
+export function createSilence(body: unknown, now: number = Date.now()): Silence {
+    if (!isPlainObject(body)) {
+        throw new SilenceValidationError('body must be a JSON object');
+    }
+    const matchers = body.matchers;
+    const unknownKey = isPlainObject(matchers) ? Object.keys(matchers).find(key => !['job', 'network', 'reason'].includes(key)) : undefined;
+    if (unknownKey) {
+        throw new SilenceValidationError(`matchers: unknown key "${unknownKey}" (expected job, network, reason)`);
+    }
+    if (!isPlainObject(matchers) || (matchers.job === undefined && matchers.network === undefined && matchers.reason === undefined)) {
+        throw new SilenceValidationError('matchers must set at least one of job, network or reason');
+    }
+    if (matchers.job !== undefined && (typeof matchers.job !== 'string' || !ethers.isAddress(matchers.job))) {
+        throw new SilenceValidationError('matchers.job must be a job address');
+    }
+    if (matchers.network !== undefined && (typeof matchers.network !== 'string' || matchers.network.length === 0)) {
+        throw new SilenceValidationError('matchers.network must be a keeper network name or identifier');
+    }
+    if (matchers.reason !== undefined) {
+        try {
+            compileReasonPattern(matchers.reason, 'matchers.reason');
+        } catch (error) {
+            throw new SilenceValidationError((error as Error).message);
+        }
+    }
+    if (typeof body.createdBy !== 'string' || body.createdBy.trim().length === 0) {
+        throw new SilenceValidationError('createdBy is required');
+    }
+    if (typeof body.comment !== 'string' || body.comment.trim().length === 0) {
+        throw new SilenceValidationError('comment is required');
+    }
+
+    const silence: Silence = {
+        id: randomUUID(),
+        matchers: matchers as SilenceMatchers,
+        ...parseExpiry(body, now),
+        createdBy: body.createdBy.trim(),
+        comment: body.comment.trim(),
+        createdAt: now,
+    };
+    silences.set(silence.id, silence);
+    logger.info(`Created ${formatSilence(silence)}`);
+    return silence;
+}
+
+export function deleteSilence(id: string): Silence | null {
+    const silence = silences.get(id) ?? null;
+    if (silence) {
+        silences.delete(id);
+        logger.info(`Deleted ${formatSilence(silence)}`);
+    }
+    return silence;
+}
+
+export function restoreSilences(saved: Silence[]): void {
+    silences.clear();
+    for (const silence of saved) {
+        silences.set(silence.id, silence);
+    }
+}
+
+function isExpired(silence: Silence, blockNumber: bigint | null, now: number): boolean {
+    if (silence.expiresAtBlock !== undefined) {
+        return blockNumber !== null && blockNumber >= silence.expiresAtBlock;
+    }
+    return silence.expiresAt !== undefined && now >= silence.expiresAt;
+}
+
+// Drops expired silences. Block-based expiries are only checked when a block number is given.
+export function pruneExpiredSilences(blockNumber: bigint | null, now: number = Date.now()): Silence[] {
+    const expired = Array.from(silences.values()).filter(silence => isExpired(silence, blockNumber, now));
+    for (const silence of expired) {
+        silences.delete(silence.id);
+        logger.info(`Expired ${formatSilence(silence)}`, { block: blockNumber ?? undefined });
+    }
+    return expired;
+}
+
+function matchesSilence(silence: Silence, subject: SilenceSubject): boolean {
+    const { job, network, reason } = silence.matchers;
+    if (job !== undefined && (!subject.jobAddress || subject.jobAddress.toLowerCase() !== job.toLowerCase())) {
+        return false;
+    }
+    if (network !== undefined && (!subject.network || ![subject.network.id, subject.network.name].some(value => value.toLowerCase() === network.toLowerCase()))) {
+        return false;
+    }
+    if (reason !== undefined && (!subject.reason || !matchesReasonPattern(compileReasonPattern(reason, 'matchers.reason'), subject.reason))) {
+        return false;
+    }
+    return true;
+}
+
+export function findMatchingSilence(subject: SilenceSubject, blockNumber: bigint, now: number = Date.now()): Silence | null {
+    for (const silence of silences.values()) {
+        if (!isExpired(silence, blockNumber, now) && matchesSilence(silence, subject)) {
+            return silence;
+        }
+    }
+    return null;
+}
+
+export function formatSilence(silence: Silence): string {
+    const expiry = silence.expiresAtBlock !== undefined ? `block ${silence.expiresAtBlock.toString()}` : new Date(silence.expiresAt!).toISOString();
+    return `silence ${silence.id} ${JSON.stringify(silence.matchers)} by ${silence.createdBy} until ${expiry}: ${silence.comment}`;
+}
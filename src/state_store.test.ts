@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createJsonFileStateStore, createSqliteStateStore, createStateStore, serializeSnapshot, deserializeSnapshot, StateSnapshot } from './state_store';
+
+jest.mock('./job_manager', () => ({
+    jobStates: new Map(),
+}));
+jest.mock('./work_stats', () => ({
+    keeperStats: new Map(),
+    networkWorkStats: new Map(),
+}));
+jest.mock('./silences', () => ({
+    silences: new Map(),
+}));
+jest.mock('./digest', () => ({
+    digestPeriods: new Map(),
+}));
+jest.mock('./network_manager', () => ({
+    snapshotNetworkCounters: jest.fn().mockReturnValue([]),
+}));
+jest.mock('./config', () => ({
+    STATE_STORE: 'none',
+    STATE_STORE_PATH: '',
+}));
+jest.mock('./logger');
+
+describe('state_store', () => {
+    let tmpDir: string;
+    const snapshot: StateSnapshot = {
+        version: 1,
+        savedAt: 1700000000000,
+        lastProcessedBlock: BigInt('21684850'),
+        jobStates: [
+            {
+                address: '0xJobAddress1',
+                lastWorkedBlock: BigInt('21684000'),
+                lastCheckedBlock: BigInt('21684850'),
+                consecutiveUnworkedBlocks: BigInt('850'),
+                workableUnworkedBlocks: BigInt('600'),
+                lastUpdateTime: 1700000000000,
+                recentWork: [
+                    {
+                        network: '0x4d414b4552000000000000000000000000000000000000000000000000000000',
+                        keeper: '0x1111111111111111111111111111111111111111',
+                        blockNumber: BigInt('21684000'),
+                        transactionHash: '0xabc',
+                    },
+                ],
+                incident: {
+                    openedAtBlock: BigInt('21684150'),
+                    lastAlertBlock: BigInt('21684150'),
+                    nextReminderBlock: BigInt('21685150'),
+                    alertsSent: 1,
+                    escalated: false,
+                },
+                workableError: {
+                    reason: 'Job: not ready',
+                    firstFailedBlock: BigInt('21684800'),
+                    lastFailedBlock: BigInt('21684850'),
+                    consecutiveFailures: 51,
+                    alerted: true,
+                },
+                workMismatch: {
+                    type: 'work_reverts_while_workable',
+                    reason: 'Job: not master',
+                    revertData: '0x08c379a0',
+                    firstSeenBlock: BigInt('21684849'),
+                    lastSeenBlock: BigInt('21684850'),
+                    occurrences: 2,
+                    alerted: true,
+                },
+            },
+        ],
+        keeperStats: [
+            { id: '0x1111111111111111111111111111111111111111', workCount: 3, lastSeenBlock: BigInt('21684000'), jobsServed: ['0xJobAddress1'] },
+        ],
+        networkWorkStats: [],
+        networks: [
+            { id: '0x4d414b4552000000000000000000000000000000000000000000000000000000', windowsServed: 4, windowsMissed: 2, consecutiveMissedWindows: 1, lastActiveBlock: BigInt('21684700') },
+        ],
+        silences: [
+            { id: 'silence-1', matchers: { network: 'MAKER' }, expiresAtBlock: BigInt('21690000'), createdBy: 'ops', comment: 'Planned maintenance', createdAt: 1700000000000 },
+        ],
+        digests: [
+            {
+                period: 'daily',
+                startedAt: 1700000000000,
+                fromBlock: BigInt('21684000'),
+                toBlock: BigInt('21684850'),
+                jobs: {
+                    '0xjobaddress1': { address: '0xJobAddress1', workCount: 1, longestUnworkedStreak: BigInt('850'), workableUnworkedBlocks: BigInt('600'), alertsFired: 1, alertsSuppressed: 0 },
+                },
+                keepers: { '0x1111111111111111111111111111111111111111': 1 },
+                networks: { '0x4d414b4552000000000000000000000000000000000000000000000000000000': 1 },
+            },
+        ],
+    };
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beep3r-state-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should round-trip bigints through serialization', () => {
+        const restored = deserializeSnapshot(serializeSnapshot(snapshot));
+        expect(restored).toEqual(snapshot);
+        expect(typeof restored.jobStates[0].consecutiveUnworkedBlocks).toBe('bigint');
+    });
+
+    it('should reject snapshots with an unknown version', () => {
+        expect(() => deserializeSnapshot(serializeSnapshot({ ...snapshot, version: 99 }))).toThrow('Unsupported state snapshot version');
+    });
+
+    it('should return null from the JSON store when no file exists', async () => {
+        const store = createJsonFileStateStore(path.join(tmpDir, 'missing.json'));
+        await expect(store.load()).resolves.toBeNull();
+    });
+
+    it('should save and load a snapshot with the JSON store', async () => {
+        const store = createJsonFileStateStore(path.join(tmpDir, 'nested', 'state.json'));
+        await store.save(snapshot);
+        await expect(store.load()).resolves.toEqual(snapshot);
+    });
+
+    it('should save and load a snapshot with the SQLite store', async () => {
+        const filePath = path.join(tmpDir, 'state.sqlite');
+        const store = createSqliteStateStore(filePath);
+        await store.save(snapshot);
+        await store.save({ ...snapshot, lastProcessedBlock: BigInt('21684851') });
+
+        const reopened = createSqliteStateStore(filePath);
+        await expect(reopened.load()).resolves.toEqual({ ...snapshot, lastProcessedBlock: BigInt('21684851') });
+    });
+
+    it('should reject an unknown backend', () => {
+        expect(createStateStore('none', '')).toBeNull();
+        expect(() => createStateStore('redis', '')).toThrow('Unknown STATE_STORE backend');
+    });
+});
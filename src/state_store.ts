@@ -0,0 +1,245 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import initSqlJs from 'sql.js';
+import { jobStates, JobState } from './job_manager';
+import { keeperStats, networkWorkStats, WorkerStats } from './work_stats';
+import { silences, Silence } from './silences';
+import { digestPeriods, DigestPeriodState } from './digest';
+import { snapshotNetworkCounters, NetworkCounters } from './network_manager';
+import { STATE_STORE, STATE_STORE_PATH } from './config';
+import { createLogger } from './logger';
+
+const logger = createLogger('state_store');
+
+const SNAPSHOT_VERSION = 1;
+
+export interface StateSnapshot {
+    version: number;
+    savedAt: number;
+    lastProcessedBlock: bigint;
+    jobStates: JobState[];
+    keeperStats?: WorkerStats[];
+    networkWorkStats?: WorkerStats[];
+    networks?: NetworkCounters[];
+    silences?: Silence[];
+    digests?: DigestPeriodState[];
+}
+
+// A backend only has to know how to persist and return a whole snapshot
+export interface StateStore {
+    name: string;
+    load(): Promise<StateSnapshot | null>;
+    save(snapshot: StateSnapshot): Promise<void>;
+}
+
+// JSON has no bigint type, so bigints are written as { "$bigint": "<decimal>" } and revived on load
+function bigintReplacer(_key: string, value: unknown): unknown {
+    return typeof value === 'bigint' ? { $bigint: value.toString() } : value;
+}
+
+function bigintReviver(_key: string, value: any): unknown {
+    if (value !== null && typeof value === 'object' && typeof value.$bigint === 'string' && Object.keys(value).length === 1) {
+        return BigInt(value.$bigint);
+    }
+    return value;
+}
+
+export function serializeSnapshot(snapshot: StateSnapshot): string {
+    return JSON.stringify(snapshot, bigintReplacer);
+}
+
+function validateSnapshot(snapshot: StateSnapshot): StateSnapshot {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported state snapshot version ${snapshot.version} (expected ${SNAPSHOT_VERSION})`);
+    }
+    if (typeof snapshot.lastProcessedBlock !== 'bigint' || !Array.isArray(snapshot.jobStates)) {
+        throw new Error('Malformed state snapshot');
+    }
+    return snapshot;
+}
+
+export function deserializeSnapshot(raw: string): StateSnapshot {
+    return validateSnapshot(JSON.parse(raw, bigintReviver));
+}
+
+// Write to a temporary file first so a crash mid-write never leaves a truncated snapshot behind
+function writeFileAtomic(filePath: string, data: string | Uint8Array): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, data);
+    fs.renameSync(tmpPath, filePath);
+}
+
+export function createJsonFileStateStore(filePath: string): StateStore {
+    return {
+        name: `json:${filePath}`,
+        async load() {
+            if (!fs.existsSync(filePath)) {
+                return null;
+            }
+            return deserializeSnapshot(fs.readFileSync(filePath, 'utf8'));
+        },
+        async save(snapshot) {
+            writeFileAtomic(filePath, serializeSnapshot(snapshot));
+        },
+    };
+}
+
+export function createSqliteStateStore(filePath: string): StateStore {
+    let sqlJs: initSqlJs.SqlJsStatic | null = null;
+
+    async function openDatabase(): Promise<initSqlJs.Database> {
+        if (!sqlJs) {
+            sqlJs = await initSqlJs();
+        }
+        const db = fs.existsSync(filePath) ? new sqlJs.Database(fs.readFileSync(filePath)) : new sqlJs.Database();
+        db.run('CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+        db.run('CREATE TABLE IF NOT EXISTS job_states (address TEXT PRIMARY KEY, state TEXT NOT NULL)');
+        return db;
+    }
+
+    return {
+        name: `sqlite:${filePath}`,
+        async load() {
+            if (!fs.existsSync(filePath)) {
+                return null;
+            }
+            const db = await openDatabase();
+            try {
+                const meta = new Map<string, string>();
+                const metaRows = db.exec('SELECT key, value FROM meta');
+                for (const [key, value] of metaRows[0]?.values ?? []) {
+                    meta.set(String(key), String(value));
+                }
+                if (!meta.has('lastProcessedBlock')) {
+                    return null;
+                }
+
+                const states: JobState[] = [];
+                const stateRows = db.exec('SELECT state FROM job_states');
+                for (const [state] of stateRows[0]?.values ?? []) {
+                    states.push(JSON.parse(String(state), bigintReviver));
+                }
+
+                return validateSnapshot({
+                    version: Number(meta.get('version')),
+                    savedAt: Number(meta.get('savedAt')),
+                    lastProcessedBlock: BigInt(meta.get('lastProcessedBlock')!),
+                    jobStates: states,
+                    keeperStats: meta.has('keeperStats') ? JSON.parse(meta.get('keeperStats')!, bigintReviver) : undefined,
+                    networkWorkStats: meta.has('networkWorkStats') ? JSON.parse(meta.get('networkWorkStats')!, bigintReviver) : undefined,
+                    networks: meta.has('networks') ? JSON.parse(meta.get('networks')!, bigintReviver) : undefined,
+                    silences: meta.has('silences') ? JSON.parse(meta.get('silences')!, bigintReviver) : undefined,
+                    digests: meta.has('digests') ? JSON.parse(meta.get('digests')!, bigintReviver) : undefined,
+                });
+            } finally {
+                db.close();
+            }
+        },
+        async save(snapshot) {
+            const db = await openDatabase();
+            try {
+                db.run('BEGIN TRANSACTION');
+                db.run('DELETE FROM meta');
+                db.run('DELETE FROM job_states');
+                const insertMeta = db.prepare('INSERT INTO meta (key, value) VALUES (?, ?)');
+                insertMeta.run(['version', String(snapshot.version)]);
+                insertMeta.run(['savedAt', String(snapshot.savedAt)]);
+                insertMeta.run(['lastProcessedBlock', snapshot.lastProcessedBlock.toString()]);
+                if (snapshot.keeperStats) {
+                    insertMeta.run(['keeperStats', JSON.stringify(snapshot.keeperStats, bigintReplacer)]);
+                }
+                if (snapshot.networkWorkStats) {
+                    insertMeta.run(['networkWorkStats', JSON.stringify(snapshot.networkWorkStats, bigintReplacer)]);
+                }
+                if (snapshot.networks) {
+                    insertMeta.run(['networks', JSON.stringify(snapshot.networks, bigintReplacer)]);
+                }
+                if (snapshot.silences) {
+                    insertMeta.run(['silences', JSON.stringify(snapshot.silences, bigintReplacer)]);
+                }
+                if (snapshot.digests) {
+                    insertMeta.run(['digests', JSON.stringify(snapshot.digests, bigintReplacer)]);
+                }
+                insertMeta.free();
+                const insertJob = db.prepare('INSERT INTO job_states (address, state) VALUES (?, ?)');
+                for (const state of snapshot.jobStates) {
+                    insertJob.run([state.address, JSON.stringify(state, bigintReplacer)]);
+                }
+                insertJob.free();
+                db.run('COMMIT');
+                writeFileAtomic(filePath, db.export());
+            } finally {
+                db.close();
+            }
+        },
+    };
+}
+
+export function createStateStore(backend: string, filePath: string): StateStore | null {
+    switch (backend) {
+        case 'json':
+            return createJsonFileStateStore(filePath);
+        case 'sqlite':
+            return createSqliteStateStore(filePath);
+        case 'none':
+            return null;
+        default:
+            throw new Error(`Unknown STATE_STORE backend: ${backend} (expected json, sqlite or none)`);
+    }
+}
+
+let stateStore: StateStore | null | undefined;
+
+// Created on first use so importing this module never depends on the STATE_STORE settings
+function getStateStore(): StateStore | null {
+    if (stateStore === undefined) {
+        stateStore = createStateStore(STATE_STORE, STATE_STORE_PATH);
+    }
+    return stateStore;
+}
+
+export async function loadPersistedState(): Promise<StateSnapshot | null> {
+    const stateStore = getStateStore();
+    if (!stateStore) {
+        logger.info('State persistence disabled (STATE_STORE=none)');
+        return null;
+    }
+    try {
+        const snapshot = await stateStore.load();
+        if (snapshot) {
+            logger.info(`Loaded snapshot from ${stateStore.name}: ${snapshot.jobStates.length} jobs`, { lastProcessedBlock: snapshot.lastProcessedBlock });
+        } else {
+            logger.info(`No snapshot found at ${stateStore.name}`);
+        }
+        return snapshot;
+    } catch (error) {
+        logger.error(`Failed to load snapshot from ${stateStore.name}, starting fresh`, { error });
+        return null;
+    }
+}
+
+export async function persistState(lastProcessedBlock: bigint): Promise<void> {
+    const stateStore = getStateStore();
+    if (!stateStore) {
+        return;
+    }
+    const snapshot: StateSnapshot = {
+        version: SNAPSHOT_VERSION,
+        savedAt: Date.now(),
+        lastProcessedBlock,
+        jobStates: Array.from(jobStates.values()),
+        keeperStats: Array.from(keeperStats.values()),
+        networkWorkStats: Array.from(networkWorkStats.values()),
+        networks: snapshotNetworkCounters(),
+        silences: Array.from(silences.values()),
+        digests: Array.from(digestPeriods.values()),
+    };
+    try {
+        await stateStore.save(snapshot);
+        logger.debug(`Snapshot saved to ${stateStore.name}`, { block: lastProcessedBlock });
+    } catch (error) {
+        // A failed save must not stop block processing; the next batch will try again
+        logger.error(`Failed to save snapshot to ${stateStore.name}`, { block: lastProcessedBlock, error });
+    }
+}
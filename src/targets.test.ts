@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadTargetsConfig, parseTargetsConfig, targetEnv } from './targets';
+
+jest.mock('./logger');
+
+const SEQUENCER = '0x238b4E35dAed6100C6162fAE4510261f88996EC9';
+const TESTNET_SEQUENCER = '0x1111111111111111111111111111111111111111';
+
+describe('targets', () => {
+    it('should read targets from a YAML file', () => {
+        const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beep3r-targets-'));
+        const filePath = path.join(tmpDir, 'targets.yaml');
+        fs.writeFileSync(filePath, [
+            'targets:',
+            '  - name: mainnet',
+            '    chainId: 1',
+            '    rpcUrls: [https://eth.example, https://eth-backup.example]',
+            `    sequencerAddress: "${SEQUENCER}"`,
+            '  - name: sepolia',
+            '    chainId: 11155111',
+            '    rpcUrls: https://sepolia.example',
+            '    wsUrl: wss://sepolia.example',
+            `    sequencerAddress: "${TESTNET_SEQUENCER}"`,
+            '    httpPort: 4000',
+            '    env:',
+            '      UNWORKED_BLOCKS_THRESHOLD: 50',
+        ].join('\n'));
+
+        const targets = loadTargetsConfig(filePath);
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+
+        expect(targets).toEqual([
+            expect.objectContaining({ name: 'mainnet', chainId: BigInt(1), rpcUrls: ['https://eth.example', 'https://eth-backup.example'], wsUrl: null, httpPort: null }),
+            expect.objectContaining({ name: 'sepolia', chainId: BigInt(11155111), rpcUrls: ['https://sepolia.example'], wsUrl: 'wss://sepolia.example', httpPort: 4000, env: { UNWORKED_BLOCKS_THRESHOLD: '50' } }),
+        ]);
+    });
+
+    it('should give each target its own connection, sequencer, port and state file', () => {
+        const [mainnet, sepolia] = parseTargetsConfig({
+            targets: [
+                { name: 'mainnet', rpcUrls: ['https://eth.example'], sequencerAddress: SEQUENCER },
+                { name: 'sepolia', chainId: 11155111, rpcUrls: 'https://sepolia.example', sequencerAddress: TESTNET_SEQUENCER, env: { LOG_LEVEL: 'debug' } },
+            ],
+        }, 'inline');
+        const baseEnv = { HTTP_PORT: '3000', ETHEREUM_RPC_URL: 'https://ignored.example', ETHEREUM_WS_URL: 'wss://ignored.example', STATE_STORE_PATH: './shared.json', DISCORD_WEBHOOK_URL: 'https://discord.example' };
+
+        expect(targetEnv(mainnet, 0, baseEnv)).toEqual(expect.objectContaining({
+            TARGET_NAME: 'mainnet', CHAIN_ID: '', ETHEREUM_RPC_URL: 'https://eth.example', ETHEREUM_WS_URL: '', SEQUENCER_ADDRESS: SEQUENCER, HTTP_PORT: '3000', STATE_STORE_PATH: '', DISCORD_WEBHOOK_URL: 'https://discord.example',
+        }));
+        expect(targetEnv(sepolia, 1, baseEnv)).toEqual(expect.objectContaining({
+            TARGET_NAME: 'sepolia', CHAIN_ID: '11155111', SEQUENCER_ADDRESS: TESTNET_SEQUENCER, HTTP_PORT: '3001', LOG_LEVEL: 'debug',
+        }));
+    });
+
+    it('should reject invalid targets with a message naming the entry', () => {
+        const target = { name: 'mainnet', rpcUrls: ['https://eth.example'], sequencerAddress: SEQUENCER };
+        expect(() => parseTargetsConfig({ targets: [] }, 'inline')).toThrow('non-empty targets list');
+        expect(() => parseTargetsConfig({ targets: [target, target] }, 'inline')).toThrow('target name "mainnet" is used more than once');
+        expect(() => parseTargetsConfig({ targets: [{ ...target, sequencerAddress: '0x1234' }] }, 'inline')).toThrow('targets[0].sequencerAddress must be a valid address');
+        expect(() => parseTargetsConfig({ targets: [{ ...target, rpcUrls: ['wss://eth.example'] }] }, 'inline')).toThrow('targets[0].rpcUrls');
+        expect(() => parseTargetsConfig({ targets: [{ ...target, rpc: 'https://eth.example' }] }, 'inline')).toThrow('targets[0]: unknown key "rpc"');
+    });
+});
@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { ethers } from 'ethers';
+import { parse as parseYaml } from 'yaml';
+import { createLogger } from './logger';
+
+const logger = createLogger('targets');
+
+// A worker that stopped is started again after this long, without affecting the other targets
+const TARGET_RESTART_DELAY_MS = 30000;
+
+// One monitored Sequencer deployment
+export interface TargetConfig {
+    name: string;
+    chainId: bigint | null;
+    rpcUrls: string[];
+    wsUrl: string | null;
+    sequencerAddress: string;
+    httpPort: number | null; // Defaults to HTTP_PORT plus the target's position in the list
+    stateStorePath: string | null; // Defaults to a file named after the target
+    jobConfigPath: string | null;
+    env: Record<string, string>; // Any other setting, as environment variables
+}
+
+export class TargetsConfigError extends Error {
+    constructor(source: string, message: string) {
+        super(`Invalid targets config ${source}: ${message}`);
+        this.name = 'TargetsConfigError';
+    }
+}
+
+const TARGET_KEYS = ['name', 'chainId', 'rpcUrls', 'wsUrl', 'sequencerAddress', 'httpPort', 'stateStorePath', 'jobConfigPath', 'env'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(source: string, where: string, value: unknown): string | null {
+    if (value === undefined) {
+        return null;
+    }
+    if (typeof value !== 'string' || value.trim() === '') {
+        throw new TargetsConfigError(source, `${where} must be a non-empty string`);
+    }
+    return value.trim();
+}
+
+function parseTarget(source: string, where: string, value: unknown): TargetConfig {
+    if (!isPlainObject(value)) {
+        throw new TargetsConfigError(source, `${where} must be an object`);
+    }
+    const unknownKey = Object.keys(value).find(key => !TARGET_KEYS.includes(key));
+    if (unknownKey) {
+        throw new TargetsConfigError(source, `${where}: unknown key "${unknownKey}" (expected ${TARGET_KEYS.join(', ')})`);
+    }
+
+    if (typeof value.name !== 'string' || !/^[A-Za-z0-9_-]+$/.test(value.name)) {
+        throw new TargetsConfigError(source, `${where}.name must consist of letters, digits, "-" and "_"`);
+    }
+    const rpcUrls = typeof value.rpcUrls === 'string' ? [value.rpcUrls] : value.rpcUrls;
+    if (!Array.isArray(rpcUrls) || rpcUrls.length === 0 || !rpcUrls.every(url => typeof url === 'string' && /^https?:\/\//i.test(url))) {
+        throw new TargetsConfigError(source, `${where}.rpcUrls must be an http(s) URL or a non-empty list of them`);
+    }
+    if (typeof value.sequencerAddress !== 'string' || !ethers.isAddress(value.sequencerAddress)) {
+        throw new TargetsConfigError(source, `${where}.sequencerAddress must be a valid address`);
+    }
+    if (value.chainId !== undefined && !(Number.isInteger(value.chainId) && (value.chainId as number) > 0)) {
+        throw new TargetsConfigError(source, `${where}.chainId must be a positive whole number`);
+    }
+    if (value.httpPort !== undefined && !(Number.isInteger(value.httpPort) && (value.httpPort as number) >= 0)) {
+        throw new TargetsConfigError(source, `${where}.httpPort must be a port number (0 disables the HTTP server)`);
+    }
+    if (value.env !== undefined && (!isPlainObject(value.env) || !Object.values(value.env).every(setting => ['string', 'number', 'boolean'].includes(typeof setting)))) {
+        throw new TargetsConfigError(source, `${where}.env must map setting names to plain values`);
+    }
+
+    return {
+        name: value.name,
+        chainId: value.chainId !== undefined ? BigInt(value.chainId as number) : null,
+        rpcUrls: rpcUrls as string[],
+        wsUrl: optionalString(source, `${where}.wsUrl`, value.wsUrl),
+        sequencerAddress: value.sequencerAddress,
+        httpPort: value.httpPort !== undefined ? value.httpPort as number : null,
+        stateStorePath: optionalString(source, `${where}.stateStorePath`, value.stateStorePath),
+        jobConfigPath: optionalString(source, `${where}.jobConfigPath`, value.jobConfigPath),
+        env: Object.entries(value.env ?? {}).reduce<Record<string, string>>((env, [key, setting]) => {
+            env[key] = String(setting);
+            return env;
+        }, {}),
+    };
+}
+
+// Validates the parsed contents of a targets file. `source` is only used in error messages.
+export function parseTargetsConfig(raw: unknown, source: string): TargetConfig[] {
+    if (!isPlainObject(raw) || !Array.isArray(raw.targets) || raw.targets.length === 0) {
+        throw new TargetsConfigError(source, 'top level must be an object with a non-empty targets list');
+    }
+    const targets = raw.targets.map((target, i) => parseTarget(source, `targets[${i}]`, target));
+    const seen = new Set<string>();
+    for (const target of targets) {
+        if (seen.has(target.name)) {
+            throw new TargetsConfigError(source, `target name "${target.name}" is used more than once`);
+        }
+        seen.add(target.name);
+    }
+    return targets;
+}
+
+// Reads and validates the targets file (.json, .yaml or .yml)
+export function loadTargetsConfig(filePath: string): TargetConfig[] {
+    let contents: string;
+    try {
+        contents = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+        throw new TargetsConfigError(filePath, `cannot read file: ${(error as Error).message}`);
+    }
+
+    let raw: unknown;
+    try {
+        raw = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(contents) : parseYaml(contents);
+    } catch (error) {
+        throw new TargetsConfigError(filePath, `cannot parse file: ${(error as Error).message}`);
+    }
+    return parseTargetsConfig(raw, filePath);
+}
+
+// Environment of the target's worker: the process environment, with the target's own settings on top
+export function targetEnv(target: TargetConfig, index: number, baseEnv: NodeJS.ProcessEnv): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries(baseEnv)) {
+        if (value !== undefined) {
+            env[key] = value;
+        }
+    }
+    const basePort = parseInt(baseEnv.HTTP_PORT || '3000');
+    Object.assign(env, {
+        TARGET_NAME: target.name,
+        CHAIN_ID: target.chainId !== null ? target.chainId.toString() : '',
+        ETHEREUM_RPC_URL: target.rpcUrls.join(','),
+        ETHEREUM_WS_URL: target.wsUrl ?? '',
+        SEQUENCER_ADDRESS: target.sequencerAddress,
+        HTTP_PORT: String(target.httpPort ?? (basePort > 0 ? basePort + index : 0)),
+        STATE_STORE_PATH: target.stateStorePath ?? '',
+    });
+    if (target.jobConfigPath) {
+        env.JOB_CONFIG_PATH = target.jobConfigPath;
+    }
+    return Object.assign(env, target.env);
+}
+
+function startTargetWorker(target: TargetConfig, index: number, workerFile: string, workers: Map<string, Worker>): void {
+    const worker = new Worker(workerFile, { env: targetEnv(target, index, process.env) });
+    workers.set(target.name, worker);
+    worker.on('error', error => logger.error(`Target ${target.name} failed`, { target: target.name, error }));
+    worker.on('exit', code => {
+        workers.delete(target.name);
+        logger.error(`Target ${target.name} stopped with exit code ${code}, restarting in ${TARGET_RESTART_DELAY_MS / 1000} s`, { target: target.name });
+        setTimeout(() => startTargetWorker(target, index, workerFile, workers), TARGET_RESTART_DELAY_MS);
+    });
+}
+
+// Monitors every target of the file concurrently, one worker thread each
+export function startTargets(filePath: string): void {
+    const targets = loadTargetsConfig(filePath);
+    const workerFile = path.join(__dirname, `monitor${path.extname(__filename)}`);
+    const workers: Map<string, Worker> = new Map();
+    targets.forEach((target, index) => startTargetWorker(target, index, workerFile, workers));
+    logger.info(`Monitoring ${targets.length} targets: ${targets.map(target => target.name).join(', ')}`);
+
+    for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+        process.on(signal, () => {
+            logger.info(`Received ${signal}. Stopping ${workers.size} targets...`);
+            Promise.all(Array.from(workers.values()).map(worker => worker.removeAllListeners('exit').terminate()))
+                .finally(() => process.exit(0));
+        });
+    }
+}
@@ -1,7 +1,14 @@
-export function logWithTimestamp(message: string, level: string = 'info') {
-    console.log(`[${new Date().toISOString()}] [${level.toUpperCase()}] ${message}`);
-}
+import { ethers } from 'ethers';
 
 export function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
+
+// Keeper network identifiers are bytes32-encoded names like "MAKER"; fall back to hex when they are not
+export function formatNetworkName(networkId: string): string {
+    try {
+        return ethers.decodeBytes32String(networkId) || networkId;
+    } catch (e) {
+        return networkId;
+    }
+}
@@ -0,0 +1,40 @@
+import { recordWorkStats, summarizeWorkStats, keeperStats, networkWorkStats, restoreWorkStats } from './work_stats';
+
+describe('work_stats', () => {
+    const keeperA = '0xAAAAaaaaAAAAaaaaAAAAaaaaAAAAaaaaAAAAaaaa';
+    const keeperB = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+
+    beforeEach(() => {
+        restoreWorkStats([], []);
+    });
+
+    it('should aggregate work per keeper and per network', () => {
+        recordWorkStats('0xJob1', { network: '0xMAKER', keeper: keeperA, blockNumber: BigInt(100), transactionHash: '0x1' });
+        recordWorkStats('0xJob2', { network: '0xMAKER', keeper: keeperA, blockNumber: BigInt(90), transactionHash: '0x2' });
+        recordWorkStats('0xJob1', { network: '0xGELATO', keeper: keeperB, blockNumber: BigInt(110), transactionHash: '0x3' });
+
+        const keeper = keeperStats.get(keeperA.toLowerCase())!;
+        expect(keeper.workCount).toBe(2);
+        expect(keeper.lastSeenBlock).toBe(BigInt(100)); // Older events do not move last seen backwards
+        expect(keeper.jobsServed).toEqual(['0xJob1', '0xJob2']);
+        expect(networkWorkStats.get('0xGELATO')!.jobsServed).toEqual(['0xJob1']);
+    });
+
+    it('should restore stats from a snapshot without fields that are no longer kept', () => {
+        restoreWorkStats([{ id: keeperB, workCount: 2, lastSeenBlock: BigInt(120), lastSeenTime: 1700000000000, jobsServed: ['0xJob1'] } as never], []);
+
+        expect(keeperStats.get(keeperB)).toEqual({ id: keeperB, workCount: 2, lastSeenBlock: BigInt(120), jobsServed: ['0xJob1'] });
+    });
+
+    it('should rank workers by work count with their share of all work', () => {
+        recordWorkStats('0xJob1', { network: '0xMAKER', keeper: keeperA, blockNumber: BigInt(100), transactionHash: '0x1' });
+        recordWorkStats('0xJob1', { network: '0xMAKER', keeper: keeperA, blockNumber: BigInt(101), transactionHash: '0x2' });
+        recordWorkStats('0xJob1', { network: '0xMAKER', keeper: keeperA, blockNumber: BigInt(102), transactionHash: '0x3' });
+        recordWorkStats('0xJob1', { network: '0xGELATO', keeper: keeperB, blockNumber: BigInt(103), transactionHash: '0x4' });
+
+        const summary = summarizeWorkStats(keeperStats);
+
+        expect(summary.map(entry => entry.id)).toEqual([keeperA.toLowerCase(), keeperB]);
+        expect(summary.map(entry => entry.share)).toEqual([0.75, 0.25]);
+    });
+});
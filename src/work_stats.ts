@@ -0,0 +1,61 @@
+import type { WorkRecord } from './job_manager';
+
+// Work attributed to one keeper address or one keeper network
+export interface WorkerStats {
+    id: string; // Keeper address or bytes32 network identifier
+    workCount: number;
+    lastSeenBlock: bigint; // Block of the latest Work event; when the keeper worked, not when it was processed
+    jobsServed: string[];
+}
+
+export interface WorkerSummary extends WorkerStats {
+    share: number; // Fraction of all recorded Work events, 0..1
+}
+
+export const keeperStats: Map<string, WorkerStats> = new Map();
+export const networkWorkStats: Map<string, WorkerStats> = new Map();
+
+function bump(stats: Map<string, WorkerStats>, id: string, jobAddress: string, blockNumber: bigint): void {
+    const existing = stats.get(id);
+    if (!existing) {
+        stats.set(id, { id, workCount: 1, lastSeenBlock: blockNumber, jobsServed: [jobAddress] });
+        return;
+    }
+    existing.workCount += 1;
+    if (blockNumber > existing.lastSeenBlock) {
+        existing.lastSeenBlock = blockNumber;
+    }
+    if (!existing.jobsServed.includes(jobAddress)) {
+        existing.jobsServed.push(jobAddress);
+    }
+}
+
+export function recordWorkStats(jobAddress: string, work: WorkRecord): void {
+    bump(keeperStats, work.keeper.toLowerCase(), jobAddress, work.blockNumber);
+    bump(networkWorkStats, work.network, jobAddress, work.blockNumber);
+}
+
+// Stats sorted by work count, each with its share of all recorded work
+export function summarizeWorkStats(stats: Map<string, WorkerStats>): WorkerSummary[] {
+    const total = Array.from(stats.values()).reduce((sum, entry) => sum + entry.workCount, 0);
+    return Array.from(stats.values())
+        .map(entry => ({ ...entry, jobsServed: [...entry.jobsServed], share: total > 0 ? entry.workCount / total : 0 }))
+        .sort((a, b) => b.workCount - a.workCount);
+}
+
+function copyStats(entry: WorkerStats): WorkerStats {
+    // Only the known fields, so older snapshots do not bring back dropped ones
+    return { id: entry.id, workCount: entry.workCount, lastSeenBlock: entry.lastSeenBlock, jobsServed: [...entry.jobsServed] };
+}
+
+// Copies of every entry, e.g. to checkpoint the stats next to the job states for a reorg rewind
+export function snapshotWorkStats(): { keepers: WorkerStats[]; networks: WorkerStats[] } {
+    return { keepers: Array.from(keeperStats.values()).map(copyStats), networks: Array.from(networkWorkStats.values()).map(copyStats) };
+}
+
+export function restoreWorkStats(keepers: WorkerStats[], networks: WorkerStats[]): void {
+    keeperStats.clear();
+    networkWorkStats.clear();
+    keepers.forEach(entry => keeperStats.set(entry.id, copyStats(entry)));
+    networks.forEach(entry => networkWorkStats.set(entry.id, copyStats(entry)));
+}
@@ -0,0 +1,121 @@
+import { ethers } from 'ethers';
+import { callWorkable, decodeRevertReason, findWorkMismatch, simulateWork } from './workable';
+import jobAbi from './abis/IJobAbi.json';
+
+const NETWORK = ethers.encodeBytes32String('MAKER');
+const MULTICALL3 = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const JOBS = ['0x67AD4000e73579B9725eE3A149F85C4Af0A61361', '0xc32506E9bB590971671b649d9B8e18CB6260559F', '0x000000000000000000000000000000000000dEaD', '0x000000000000000000000000000000000000bEEF'];
+const jobInterface = new ethers.Interface(jobAbi);
+const multicallInterface = new ethers.Interface([
+    'function tryAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[] returnData)',
+]);
+
+function errorString(reason: string): string {
+    return ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason])]);
+}
+
+// Provider on mainnet answering eth_call with answer(to, data); job contracts are connected to it
+function fakeProvider(answer: (to: string, data: string) => Promise<string>): { provider: ethers.Provider; call: jest.Mock } {
+    const call = jest.fn(async (tx: ethers.TransactionRequest) => answer(String(tx.to), String(tx.data)));
+    const provider = { call, getNetwork: async () => ({ chainId: BigInt(1) }) } as unknown as ethers.Provider;
+    (provider as { provider: ethers.Provider }).provider = provider;
+    return { provider, call };
+}
+
+function jobContracts(provider: ethers.Provider): ethers.Contract[] {
+    return JOBS.map(address => new ethers.Contract(address, jobInterface, provider));
+}
+
+function fakeWorkJob(work: () => Promise<unknown>): { contract: ethers.Contract; staticCall: jest.Mock; connect: jest.Mock } {
+    const staticCall = jest.fn(work);
+    const connect = jest.fn(() => ({ work: { staticCall } }));
+    return { contract: { connect } as unknown as ethers.Contract, staticCall, connect };
+}
+
+function revert(fields: Record<string, unknown>): Error {
+    return ethers.makeError('execution reverted', 'CALL_EXCEPTION', { action: 'call', data: null, reason: null, transaction: { to: null, data: '' }, invocation: null, revert: null, ...fields });
+}
+
+describe('workable', () => {
+    it('should batch workable() through Multicall3 and give every job its own outcome when some calls revert', async () => {
+        const { provider, call } = fakeProvider(async (to, data) => {
+            expect(to).toBe(MULTICALL3);
+            const [, calls] = multicallInterface.decodeFunctionData('tryAggregate', data);
+            expect(calls.map((c: ethers.Result) => c.target)).toEqual(JOBS);
+            return multicallInterface.encodeFunctionResult('tryAggregate', [[
+                [true, jobInterface.encodeFunctionResult('workable', [true, ethers.toUtf8Bytes('Ready')])],
+                [false, errorString('Job: paused')],
+                [true, '0x'],
+                [false, '0x'],
+            ]]);
+        });
+
+        const outcomes = await callWorkable(jobContracts(provider), NETWORK, BigInt(21684850));
+
+        expect(outcomes).toEqual([
+            { ok: true, canWork: true, args: 'Ready', argsFields: {} },
+            { ok: false, reason: 'Job: paused' },
+            { ok: false, reason: 'returned no data (no contract code at the address?)' },
+            { ok: false, reason: 'require(false)' },
+        ]);
+        expect(call).toHaveBeenCalledTimes(1);
+        expect(call).toHaveBeenCalledWith(expect.objectContaining({ blockTag: BigInt(21684850) }));
+    });
+
+    it('should call every job on its own at blocks before Multicall3 was deployed', async () => {
+        const { provider, call } = fakeProvider(async to => {
+            if (to === JOBS[1]) {
+                throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', { action: 'call', data: errorString('Job: paused'), reason: null, transaction: { to, data: '' }, invocation: null, revert: null });
+            }
+            return jobInterface.encodeFunctionResult('workable', [false, ethers.toUtf8Bytes('No work to do')]);
+        });
+
+        const outcomes = await callWorkable(jobContracts(provider).slice(0, 2), NETWORK, BigInt(12000000));
+
+        expect(outcomes).toEqual([
+            { ok: true, canWork: false, args: 'No work to do', argsFields: {} },
+            { ok: false, reason: 'Job: paused' },
+        ]);
+        expect(call).toHaveBeenCalledTimes(2);
+        expect(call).toHaveBeenCalledWith(expect.objectContaining({ to: JOBS[0], blockTag: BigInt(12000000) }));
+    });
+
+    it('should rethrow failures of the RPC request itself', async () => {
+        const { provider } = fakeProvider(async () => { throw new Error('request timeout'); });
+
+        await expect(callWorkable(jobContracts(provider), NETWORK)).rejects.toThrow('request timeout');
+        await expect(callWorkable(jobContracts(provider), NETWORK, BigInt(12000000))).rejects.toThrow('request timeout');
+    });
+
+    it('should describe custom errors and reverts without a reason', () => {
+        expect(decodeRevertReason(revert({ revert: { name: 'NotKeeper', signature: 'NotKeeper(address)', args: ['0x0000000000000000000000000000000000000001'] } })))
+            .toBe('NotKeeper(0x0000000000000000000000000000000000000001)');
+        expect(decodeRevertReason(revert({ data: '0x12345678abcdef' }))).toBe('reverted with custom error 0x12345678');
+        expect(decodeRevertReason(revert({}))).toBe('reverted without a reason');
+    });
+
+    it('should simulate work() from the given caller on the plain provider', async () => {
+        const provider = {} as ethers.Provider;
+        const job = fakeWorkJob(async () => []);
+
+        await expect(simulateWork(job.contract, provider, NETWORK, BigInt(21684850), '0x0000000000000000000000000000000000000001')).resolves.toEqual({ ok: true });
+        expect(job.connect).toHaveBeenCalledWith(provider);
+        expect(job.staticCall).toHaveBeenCalledWith(NETWORK, { blockTag: BigInt(21684850), from: '0x0000000000000000000000000000000000000001' });
+    });
+
+    it('should keep the decoded reason and raw data of a reverting work()', async () => {
+        const data = '0x08c379a000000000000000000000000000000000000000000000000000000000000000200000000000000000000000000000000000000000000000000000000000000010446f6e743a206e6f742d6d61737465720000000000000000000000000000000000';
+        const job = fakeWorkJob(async () => { throw revert({ reason: 'Dont: not-master', data }); });
+
+        await expect(simulateWork(job.contract, {} as ethers.Provider, NETWORK, 'latest', ethers.ZeroAddress)).resolves.toEqual({ ok: false, reason: 'Dont: not-master', revertData: data });
+        await expect(simulateWork(fakeWorkJob(async () => { throw new Error('request timeout'); }).contract, {} as ethers.Provider, NETWORK, 'latest', ethers.ZeroAddress)).rejects.toThrow('request timeout');
+    });
+
+    it('should flag work() outcomes that contradict workable()', () => {
+        const reverted = { ok: false as const, reason: 'Job: not ready', revertData: null };
+        expect(findWorkMismatch(true, reverted)).toBe('work_reverts_while_workable');
+        expect(findWorkMismatch(false, { ok: true })).toBe('work_succeeds_while_not_workable');
+        expect(findWorkMismatch(true, { ok: true })).toBeNull();
+        expect(findWorkMismatch(false, reverted)).toBeNull();
+    });
+});
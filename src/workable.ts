@@ -0,0 +1,139 @@
+import { ethers } from 'ethers';
+import { decodeArgs, resolveArgsDecoder } from './args_decoders';
+
+// Result of one job's workable() call; a failure only affects that job
+export type WorkableOutcome =
+    | { ok: true; canWork: boolean; args: string; argsFields: Record<string, string> }
+    | { ok: false; reason: string };
+
+// Reverts and undecodable results (e.g. a job without code) are the job's own fault; anything
+// else is an RPC failure that would hit every job alike
+function isJobFailure(error: unknown): boolean {
+    return ethers.isError(error, 'CALL_EXCEPTION') || ethers.isError(error, 'BAD_DATA');
+}
+
+// Human readable revert reason: Error(string) and Panic(uint256) as decoded by ethers, custom errors by selector
+export function decodeRevertReason(error: unknown): string {
+    if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        if (error.reason) {
+            return error.reason;
+        }
+        if (error.revert) {
+            return `${error.revert.name}(${error.revert.args.map(String).join(', ')})`;
+        }
+        return error.data && error.data !== '0x' ? `reverted with custom error ${error.data.slice(0, 10)}` : 'reverted without a reason';
+    }
+    if (ethers.isError(error, 'BAD_DATA')) {
+        return error.value === '0x' ? 'returned no data (no contract code at the address?)' : `returned undecodable data: ${error.value}`;
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+// Multicall3 lives at the same address on every chain: https://www.multicall3.com/deployments
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+const MULTICALL3_ABI = [
+    'function tryAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) returns (tuple(bool success, bytes returnData)[] returnData)',
+];
+// Block Multicall3 was deployed at on the chains the Sequencer runs on. On other chains it is only used for
+// the latest state, since there is no telling from which block on it exists.
+const MULTICALL3_DEPLOYMENT_BLOCKS: Record<string, number> = {
+    '1': 14353601, // Mainnet
+    '5': 6507670, // Goerli
+    '11155111': 751532, // Sepolia
+};
+
+// Multicall3 on the provider's chain when it is known to be deployed at blockTag, null otherwise
+async function findMulticall(provider: ethers.Provider, blockTag: ethers.BlockTag): Promise<ethers.Contract | null> {
+    if (typeof blockTag === 'bigint' || typeof blockTag === 'number' || ethers.isHexString(blockTag)) {
+        const { chainId } = await provider.getNetwork();
+        const deploymentBlock = MULTICALL3_DEPLOYMENT_BLOCKS[chainId.toString()];
+        if (deploymentBlock === undefined || ethers.getNumber(blockTag) < deploymentBlock) {
+            return null;
+        }
+    }
+    return new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+}
+
+// Runs workable() of every job through Multicall3's tryAggregate, which reports success per call,
+// and decodes each result or revert the way a direct call would
+async function aggregateWorkable(multicall: ethers.Contract, contracts: ethers.Contract[], networkId: string, blockTag: ethers.BlockTag): Promise<PromiseSettledResult<ethers.Result>[]> {
+    const calls = contracts.map(contract => ({ target: String(contract.target), callData: contract.interface.encodeFunctionData('workable', [networkId]) }));
+    const results: Array<{ success: boolean; returnData: string }> = await multicall.getFunction('tryAggregate').staticCall(false, calls, { blockTag });
+    return results.map(({ success, returnData }, i): PromiseSettledResult<ethers.Result> => {
+        try {
+            if (!success) {
+                throw contracts[i].interface.makeError(returnData, { to: calls[i].target, data: calls[i].callData });
+            }
+            return { status: 'fulfilled', value: contracts[i].interface.decodeFunctionResult('workable', returnData) };
+        } catch (error) {
+            return { status: 'rejected', reason: error };
+        }
+    });
+}
+
+// Calls workable() on every job in one Multicall3 batch against the state at blockTag, using the provider the job
+// contracts are connected to. Before Multicall3 was deployed, each job is called on its own.
+// Every job gets its own outcome; if the RPC request itself fails, the error is rethrown.
+// args are decoded with the decoder registered for the job.
+export async function callWorkable(contracts: ethers.Contract[], networkId: string, blockTag: ethers.BlockTag = 'latest'): Promise<WorkableOutcome[]> {
+    if (contracts.length === 0) {
+        return [];
+    }
+    const provider = contracts[0].runner?.provider ?? null;
+    if (!provider) {
+        throw new Error('Job contracts are not connected to a provider');
+    }
+    const multicall = await findMulticall(provider, blockTag);
+    const [settled, decoderNames] = await Promise.all([
+        multicall
+            ? aggregateWorkable(multicall, contracts, networkId, blockTag)
+            : Promise.allSettled(contracts.map(contract => contract.workable(networkId, { blockTag }))),
+        Promise.all(contracts.map(contract => resolveArgsDecoder(String(contract.target), provider))),
+    ]);
+    return settled.map((result, i): WorkableOutcome => {
+        if (result.status === 'fulfilled') {
+            const decoded = decodeArgs(result.value[1], decoderNames[i]);
+            return { ok: true, canWork: result.value[0], args: decoded.text, argsFields: decoded.fields };
+        }
+        if (!isJobFailure(result.reason)) {
+            throw result.reason;
+        }
+        return { ok: false, reason: decodeRevertReason(result.reason) };
+    });
+}
+
+// Result of simulating work() with eth_call; revertData is the raw revert payload, if any
+export type WorkSimulationOutcome =
+    | { ok: true }
+    | { ok: false; reason: string; revertData: string | null };
+
+// work() must succeed exactly when workable() says it can
+export type WorkMismatchType = 'work_reverts_while_workable' | 'work_succeeds_while_not_workable';
+
+function revertDataOf(error: unknown): string | null {
+    return ethers.isError(error, 'CALL_EXCEPTION') && error.data && error.data !== '0x' ? error.data : null;
+}
+
+// Simulates work() from the given address against the state at blockTag. Pass the plain provider: the multicall
+// provider would batch the call, dropping `from` and making the multicall contract the caller.
+export async function simulateWork(contract: ethers.Contract, provider: ethers.Provider, networkId: string, blockTag: ethers.BlockTag, from: string): Promise<WorkSimulationOutcome> {
+    try {
+        await (contract.connect(provider) as ethers.Contract).work.staticCall(networkId, { blockTag, from });
+        return { ok: true };
+    } catch (error) {
+        if (!isJobFailure(error)) {
+            throw error;
+        }
+        return { ok: false, reason: decodeRevertReason(error), revertData: revertDataOf(error) };
+    }
+}
+
+export function findWorkMismatch(canWork: boolean, simulation: WorkSimulationOutcome): WorkMismatchType | null {
+    if (canWork && !simulation.ok) {
+        return 'work_reverts_while_workable';
+    }
+    if (!canWork && simulation.ok) {
+        return 'work_succeeds_while_not_workable';
+    }
+    return null;
+}